@@ -0,0 +1,283 @@
+import { FireblocksError } from "./errors";
+import { keccak256 } from "./keccak";
+import { bytesToBigInt } from "./ecdsa";
+import { bytesToHex, encodeInteger, hexToBytes, toChecksumAddress } from "./ethereum";
+import { AbiFragment, AbiParameter, DecodedFunctionCall } from "./types";
+
+const WORD_SIZE = 32;
+
+/**
+ * Returns the canonical signature of a function, e.g. "transfer(address,uint256)"
+ */
+export function getFunctionSignature(fragment: AbiFragment): string {
+    return `${fragment.name}(${(fragment.inputs ?? []).map(canonicalType).join(",")})`;
+}
+
+/**
+ * Returns the 4 bytes selector of a function, hex encoded with a 0x prefix
+ */
+export function getFunctionSelector(fragment: AbiFragment): string {
+    return bytesToHex(keccak256(getFunctionSignature(fragment)).slice(0, 4));
+}
+
+/**
+ * Encodes the calldata of a function call
+ * @param abi The JSON ABI of the contract
+ * @param method The name of the function, or its signature for overloaded functions
+ * @param args The arguments of the function. Integers may be numbers, decimal strings or bigints, and bytes hex strings or buffers
+ */
+export function encodeFunctionCall(abi: AbiFragment[], method: string, args: any[] = []): string {
+    const fragment = findFunction(abi, method);
+    const inputs = fragment.inputs ?? [];
+    if (args.length !== inputs.length) {
+        throw new FireblocksError(`${getFunctionSignature(fragment)} expects ${inputs.length} arguments, got ${args.length}`);
+    }
+
+    return bytesToHex(Buffer.concat([hexToBytes(getFunctionSelector(fragment)), encodeParameters(inputs, args)]));
+}
+
+/**
+ * Decodes the calldata of a function call back into the function and its arguments
+ * @param abi The JSON ABI of the contract
+ * @param data The hex encoded calldata
+ */
+export function decodeFunctionCall(abi: AbiFragment[], data: string): DecodedFunctionCall {
+    const bytes = hexToBytes(data);
+    if (bytes.length < 4) {
+        throw new FireblocksError("Calldata is shorter than a function selector");
+    }
+
+    const selector = bytesToHex(bytes.slice(0, 4));
+    const fragment = functions(abi).find(candidate => getFunctionSelector(candidate) === selector);
+    if (!fragment) {
+        throw new FireblocksError(`No function in the ABI matches selector ${selector}`);
+    }
+
+    const inputs = fragment.inputs ?? [];
+    const args = decodeParameters(inputs, bytes.slice(4), 0);
+    const namedArgs: { [name: string]: any } = {};
+    inputs.forEach((input, i) => {
+        if (input.name) {
+            namedArgs[input.name] = args[i];
+        }
+    });
+
+    return { method: fragment.name, signature: getFunctionSignature(fragment), args, namedArgs };
+}
+
+function functions(abi: AbiFragment[]): AbiFragment[] {
+    return abi.filter(fragment => (fragment.type ?? "function") === "function");
+}
+
+function findFunction(abi: AbiFragment[], method: string): AbiFragment {
+    const candidates = functions(abi).filter(fragment => method.indexOf("(") === -1 ? fragment.name === method : getFunctionSignature(fragment) === method);
+    if (candidates.length === 0) {
+        throw new FireblocksError(`No function ${method} in the ABI`);
+    }
+    if (candidates.length > 1) {
+        throw new FireblocksError(`Function ${method} is overloaded, use one of ${candidates.map(getFunctionSignature).join(", ")}`);
+    }
+    return candidates[0];
+}
+
+function canonicalType(parameter: AbiParameter): string {
+    if (parameter.type.startsWith("tuple")) {
+        return `(${(parameter.components ?? []).map(canonicalType).join(",")})${parameter.type.substring("tuple".length)}`;
+    }
+    return parameter.type.replace(/^(u?int)(?=$|\[)/, "$1256");
+}
+
+/**
+ * Splits an array type into its element type and length, which is -1 for dynamic arrays
+ */
+function parseArrayType(parameter: AbiParameter): { element: AbiParameter, length: number } | undefined {
+    const match = /^(.*)\[(\d*)\]$/.exec(parameter.type);
+    if (!match) {
+        return undefined;
+    }
+    return { element: { ...parameter, type: match[1] }, length: match[2] ? Number(match[2]) : -1 };
+}
+
+function isDynamic(parameter: AbiParameter): boolean {
+    const array = parseArrayType(parameter);
+    if (array) {
+        return array.length === -1 || isDynamic(array.element);
+    }
+    if (parameter.type === "tuple") {
+        return (parameter.components ?? []).some(isDynamic);
+    }
+    return parameter.type === "string" || parameter.type === "bytes";
+}
+
+function headSize(parameter: AbiParameter): number {
+    if (isDynamic(parameter)) {
+        return WORD_SIZE;
+    }
+    const array = parseArrayType(parameter);
+    if (array) {
+        return array.length * headSize(array.element);
+    }
+    if (parameter.type === "tuple") {
+        return (parameter.components ?? []).reduce((size, component) => size + headSize(component), 0);
+    }
+    return WORD_SIZE;
+}
+
+function encodeParameters(parameters: AbiParameter[], values: any[]): Buffer {
+    const heads: Buffer[] = [];
+    const tails: Buffer[] = [];
+    let tailOffset = parameters.reduce((size, parameter) => size + headSize(parameter), 0);
+
+    parameters.forEach((parameter, i) => {
+        const encoded = encodeParameter(parameter, values[i]);
+        if (isDynamic(parameter)) {
+            heads.push(encodeInteger(tailOffset, 256, false));
+            tails.push(encoded);
+            tailOffset += encoded.length;
+        } else {
+            heads.push(encoded);
+        }
+    });
+
+    return Buffer.concat([...heads, ...tails]);
+}
+
+function encodeParameter(parameter: AbiParameter, value: any): Buffer {
+    if (value === undefined) {
+        throw new FireblocksError(`Missing value for ${parameter.name || parameter.type}`);
+    }
+
+    const array = parseArrayType(parameter);
+    if (array) {
+        if (!Array.isArray(value) || (array.length !== -1 && value.length !== array.length)) {
+            throw new FireblocksError(`Invalid value for ${parameter.type}, expected an array${array.length !== -1 ? ` of ${array.length} items` : ""}`);
+        }
+        const encoded = encodeParameters(value.map(() => array.element), value);
+        return array.length === -1 ? Buffer.concat([encodeInteger(value.length, 256, false), encoded]) : encoded;
+    }
+
+    if (parameter.type === "tuple") {
+        const components = parameter.components ?? [];
+        const values = Array.isArray(value) ? value : components.map((component, i) => value[component.name || i]);
+        return encodeParameters(components, values);
+    }
+
+    switch (parameter.type) {
+        case "address":
+            const address = hexToBytes(value);
+            if (address.length !== 20) {
+                throw new FireblocksError(`Invalid address: ${value}`);
+            }
+            return Buffer.concat([Buffer.alloc(12), address]);
+        case "bool":
+            return encodeInteger(value === true || value === "true" ? 1 : 0, 256, false);
+        case "string":
+            return encodeDynamicBytes(Buffer.from(value, "utf8"));
+        case "bytes":
+            return encodeDynamicBytes(toBytes(value));
+    }
+
+    const bytesMatch = /^bytes(\d+)$/.exec(parameter.type);
+    if (bytesMatch) {
+        const bytes = toBytes(value);
+        if (bytes.length !== Number(bytesMatch[1])) {
+            throw new FireblocksError(`Invalid value for ${parameter.type}, expected ${bytesMatch[1]} bytes`);
+        }
+        return Buffer.concat([bytes, Buffer.alloc(WORD_SIZE - bytes.length)]);
+    }
+
+    const integerMatch = /^(u?)int(\d*)$/.exec(parameter.type);
+    if (integerMatch) {
+        return encodeInteger(value, Number(integerMatch[2] || 256), integerMatch[1] !== "u");
+    }
+
+    throw new FireblocksError(`Unsupported ABI type: ${parameter.type}`);
+}
+
+function encodeDynamicBytes(bytes: Buffer): Buffer {
+    const padding = (WORD_SIZE - bytes.length % WORD_SIZE) % WORD_SIZE;
+    return Buffer.concat([encodeInteger(bytes.length, 256, false), bytes, Buffer.alloc(padding)]);
+}
+
+function toBytes(value: string | Buffer | Uint8Array): Buffer {
+    return typeof value === "string" ? hexToBytes(value) : Buffer.from(value);
+}
+
+function decodeParameters(parameters: AbiParameter[], data: Buffer, offset: number): any[] {
+    let headOffset = offset;
+    return parameters.map(parameter => {
+        const value = isDynamic(parameter) ?
+            decodeParameter(parameter, data, offset + readLength(data, headOffset)) :
+            decodeParameter(parameter, data, headOffset);
+        headOffset += headSize(parameter);
+        return value;
+    });
+}
+
+function decodeParameter(parameter: AbiParameter, data: Buffer, offset: number): any {
+    const array = parseArrayType(parameter);
+    if (array) {
+        if (array.length === -1) {
+            const length = readLength(data, offset);
+            return decodeParameters(new Array(length).fill(array.element), data, offset + WORD_SIZE);
+        }
+        return decodeParameters(new Array(array.length).fill(array.element), data, offset);
+    }
+
+    if (parameter.type === "tuple") {
+        const components = parameter.components ?? [];
+        const values = decodeParameters(components, data, offset);
+        const tuple: { [name: string]: any } = {};
+        components.forEach((component, i) => tuple[component.name || i] = values[i]);
+        return tuple;
+    }
+
+    const word = readWord(data, offset);
+    switch (parameter.type) {
+        case "address":
+            return toChecksumAddress(word.slice(12).toString("hex"));
+        case "bool":
+            return bytesToBigInt(word) !== BigInt(0);
+        case "string":
+            return readDynamicBytes(data, offset).toString("utf8");
+        case "bytes":
+            return bytesToHex(readDynamicBytes(data, offset));
+    }
+
+    const bytesMatch = /^bytes(\d+)$/.exec(parameter.type);
+    if (bytesMatch) {
+        return bytesToHex(word.slice(0, Number(bytesMatch[1])));
+    }
+
+    const integerMatch = /^(u?)int(\d*)$/.exec(parameter.type);
+    if (integerMatch) {
+        const value = bytesToBigInt(word);
+        const signed = integerMatch[1] !== "u";
+        return (signed && word[0] >= 0x80 ? value - (BigInt(1) << BigInt(256)) : value).toString();
+    }
+
+    throw new FireblocksError(`Unsupported ABI type: ${parameter.type}`);
+}
+
+function readWord(data: Buffer, offset: number): Buffer {
+    if (offset + WORD_SIZE > data.length) {
+        throw new FireblocksError("Calldata is too short for its parameters");
+    }
+    return data.slice(offset, offset + WORD_SIZE);
+}
+
+function readLength(data: Buffer, offset: number): number {
+    const length = bytesToBigInt(readWord(data, offset));
+    if (length > BigInt(data.length)) {
+        throw new FireblocksError("Invalid offset or length in calldata");
+    }
+    return Number(length);
+}
+
+function readDynamicBytes(data: Buffer, offset: number): Buffer {
+    const length = readLength(data, offset);
+    if (offset + WORD_SIZE + length > data.length) {
+        throw new FireblocksError("Calldata is too short for its parameters");
+    }
+    return data.slice(offset + WORD_SIZE, offset + WORD_SIZE + length);
+}
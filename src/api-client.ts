@@ -1,70 +1,249 @@
 import { IAuthProvider } from "./iauth-provider";
-import { RequestOptions } from "./types";
-import axios, { AxiosInstance } from "axios";
+import { RequestOptions, ResponseValidationMode } from "./types";
+import { FireblocksApiError, ResponseValidationError, toFireblocksError } from "./errors";
+import { RequestContext, RequestHooks, sanitizeHeaders } from "./request-hooks";
+import { RateLimiter, RateLimitOptions } from "./rate-limiter";
+import { parseJsonWithDecimalAmounts, returnsTransactions } from "./decimal";
+import { RetryOptions, RetryPolicy, sleep } from "./retry";
+import { validateResponse } from "./response-validator";
+import axios, { AxiosAdapter, AxiosInstance, AxiosProxyConfig, AxiosResponse, Method } from "axios";
+import http from "http";
+import https from "https";
+import { v4 as uuid } from "uuid";
+
+const { version: SDK_VERSION } = require("../package.json");
+
+export interface ApiClientOptions {
+    /**
+     * Retry failed requests. When omitted every request is attempted once.
+     * POST requests are only retried when an idempotency key is sent with them
+     */
+    retry?: RetryOptions;
+    /**
+     * Generate an idempotency key for every POST request that is issued without one.
+     * The key is reused across the retries of the same call
+     */
+    autoIdempotencyKeys?: boolean;
+    /**
+     * The timeout of every request, in milliseconds. Can be overridden per request through RequestOptions.
+     * Applies to each attempt separately when retries are enabled. No timeout by default
+     */
+    timeoutMs?: number;
+    /**
+     * An HTTP(S) proxy to send the requests through
+     */
+    proxy?: AxiosProxyConfig;
+    /**
+     * Custom agents, e.g. for connection pooling or client certificates. Take precedence over keepAlive
+     */
+    httpAgent?: http.Agent;
+    httpsAgent?: https.Agent;
+    /**
+     * Reuse connections between requests
+     */
+    keepAlive?: boolean;
+    /**
+     * Appended to the SDK's User-Agent header, identifying your application
+     */
+    userAgent?: string;
+    /**
+     * Static headers added to every request
+     */
+    headers?: { [name: string]: string };
+    /**
+     * Callbacks invoked around every HTTP request, in the order given
+     */
+    hooks?: RequestHooks[];
+    /**
+     * Limits the rate and concurrency of the requests of all methods together.
+     * Pass the limits for POST, PUT and DELETE requests as rateLimit.writes to give them a separate budget
+     */
+    rateLimit?: RateLimitOptions & { writes?: RateLimitOptions };
+    /**
+     * Return the amount, fee, networkFee, netAmount, requestedAmount, serviceFee and amountUSD of transactions, and the amount and
+     * amountUSD of their destinations, as exact decimal strings instead of JavaScript numbers, which can not represent every amount
+     * of an asset with 18 decimals. Type the transactions as such with asDecimalTransaction()
+     */
+    decimalAmounts?: boolean;
+    /**
+     * Sends the requests through a custom axios adapter, e.g. the adapter of a FixtureRecorder or FixtureReplayer
+     */
+    adapter?: AxiosAdapter;
+    /**
+     * Check every response against the type the SDK declares for it, throwing a ResponseValidationError or reporting the issues
+     * to the onValidationIssues request hooks. Off by default
+     */
+    responseValidation?: ResponseValidationMode;
+}
+
+interface RequestConfig {
+    headers?: { [name: string]: string };
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
 
 export class ApiClient {
     private axiosInstance: AxiosInstance;
+    private retryPolicy: RetryPolicy;
+    private readLimiter?: RateLimiter;
+    private writeLimiter?: RateLimiter;
+
+    constructor(private authProvider: IAuthProvider, private apiBaseUrl: string, private options: ApiClientOptions = {}) {
+        const userAgent = `fireblocks-sdk-js/${SDK_VERSION}${options.userAgent ? ` ${options.userAgent}` : ""}`;
 
-    constructor(private authProvider: IAuthProvider, private apiBaseUrl: string) {
         this.axiosInstance = axios.create({
-            baseURL: this.apiBaseUrl
+            baseURL: this.apiBaseUrl,
+            timeout: options.timeoutMs,
+            proxy: options.proxy,
+            httpAgent: options.httpAgent ?? (options.keepAlive ? new http.Agent({ keepAlive: true }) : undefined),
+            httpsAgent: options.httpsAgent ?? (options.keepAlive ? new https.Agent({ keepAlive: true }) : undefined),
+            headers: {
+                ...options.headers,
+                "User-Agent": userAgent
+            },
+            adapter: options.adapter
         });
+        this.retryPolicy = options.retry ? new RetryPolicy(options.retry) : RetryPolicy.none();
+        if (options.rateLimit) {
+            this.readLimiter = new RateLimiter(options.rateLimit);
+            this.writeLimiter = options.rateLimit.writes ? new RateLimiter(options.rateLimit.writes) : this.readLimiter;
+        }
     }
 
-    public async issueGetRequest(path: string, pageMode: boolean = false) {
-        const token = this.authProvider.signJwt(path);
-        const res = await this.axiosInstance.get(path, {
-            headers: {
-                "X-API-Key": this.authProvider.getApiKey(),
-                "Authorization": `Bearer ${token}`
-            }
-        });
+    public async issueGetRequest(path: string, pageMode: boolean = false, requestOptions?: RequestOptions) {
+        const res = await this.issueRequest("GET", path, undefined, true, { timeoutMs: requestOptions?.timeoutMs, signal: requestOptions?.signal });
 
         if (pageMode) {
-            return {
+            return await this.validate("GET", path, {
                 transactions: res.data,
                 pageDetails: {
                     prevPage: res.headers["prev-page"] ? res.headers["prev-page"].toString() : "",
                     nextPage: res.headers["next-page"] ? res.headers["next-page"].toString() : "",
                 }
-            };
+            }, true);
         }
 
-        return res.data;
+        return await this.validate("GET", path, res.data);
     }
 
     public async issuePostRequest(path: string, body: any, requestOptions?: RequestOptions) {
-        const token = this.authProvider.signJwt(path, body);
+        const idempotencyKey = requestOptions?.idempotencyKey ?? (this.options.autoIdempotencyKeys ? uuid() : undefined);
+        const headers = idempotencyKey ? { "Idempotency-Key": idempotencyKey } : {};
 
-        const idempotencyKey = requestOptions?.idempotencyKey;
+        const res = await this.issueRequest("POST", path, body, !!idempotencyKey, { headers, timeoutMs: requestOptions?.timeoutMs, signal: requestOptions?.signal });
+        return await this.validate("POST", path, res.data);
+    }
 
-        return (await this.axiosInstance.post(path, body, {
-            headers: {
-                "X-API-Key": this.authProvider.getApiKey(),
-                "Authorization": `Bearer ${token}`
-            }
-        })).data;
+    public async issuePutRequest(path: string, body: any, requestOptions?: RequestOptions) {
+        const res = await this.issueRequest("PUT", path, body, true, { timeoutMs: requestOptions?.timeoutMs, signal: requestOptions?.signal });
+        return await this.validate("PUT", path, res.data);
     }
 
-    public async issuePutRequest(path: string, body: any) {
-        const token = this.authProvider.signJwt(path, body);
+    public async issueDeleteRequest(path: string, requestOptions?: RequestOptions) {
+        const res = await this.issueRequest("DELETE", path, undefined, true, { timeoutMs: requestOptions?.timeoutMs, signal: requestOptions?.signal });
+        return await this.validate("DELETE", path, res.data);
+    }
 
-        return (await this.axiosInstance.put(path, body, {
-            headers: {
-                "X-API-Key": this.authProvider.getApiKey(),
-                "Authorization": `Bearer ${token}`
+    private async validate(method: string, path: string, data: any, pageMode: boolean = false): Promise<any> {
+        const mode = this.options.responseValidation ?? ResponseValidationMode.OFF;
+        if (mode === ResponseValidationMode.OFF) {
+            return data;
+        }
+
+        const issues = validateResponse(method, path, data, pageMode, !!this.options.decimalAmounts);
+        if (issues.length === 0) {
+            return data;
+        }
+        if (mode === ResponseValidationMode.THROW) {
+            throw new ResponseValidationError(method, path, issues);
+        }
+
+        await this.runHooks(hook => hook.onValidationIssues?.({ method, path, data, issues }));
+        return data;
+    }
+
+    private async issueRequest(method: Method, path: string, body: any, retryable: boolean, config: RequestConfig = {}): Promise<AxiosResponse> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.issueSingleRequest(method, path, body, config, attempt);
+            } catch (error) {
+                if (!retryable || !this.retryPolicy.shouldRetry(error, attempt)) {
+                    throw error;
+                }
+                await sleep(this.retryPolicy.getDelayMs(error, attempt));
             }
-        })).data;
+        }
     }
 
-    public async issueDeleteRequest(path: string) {
-        const token = this.authProvider.signJwt(path);
+    /**
+     * Issues one attempt of a request. Only the signing and the HTTP call hold a rate limiter slot, the hooks run outside of it
+     * and their failures are reported as process warnings rather than failing the request
+     */
+    private async issueSingleRequest(method: Method, path: string, body: any, config: RequestConfig, attempt: number): Promise<AxiosResponse> {
+        const limiter = method === "GET" ? this.readLimiter : this.writeLimiter;
+        const context: RequestContext = {
+            method,
+            path,
+            headers: sanitizeHeaders({ ...config.headers, "X-API-Key": this.authProvider.getApiKey(), "Authorization": "" }),
+            body,
+            attempt
+        };
+        await this.runHooks(hook => hook.beforeRequest?.(context));
 
-        return (await this.axiosInstance.delete(path, {
-            headers: {
-                "X-API-Key": this.authProvider.getApiKey(),
-                "Authorization": `Bearer ${token}`
+        let start: number;
+        let res: AxiosResponse;
+        try {
+            const send = async () => {
+                // Signed on every attempt, a token can not be replayed as it carries a nonce and expires after 55 seconds
+                const token = await this.authProvider.signJwt(path, body);
+                start = Date.now();
+                return await this.axiosInstance.request({
+                    method,
+                    url: path,
+                    data: body,
+                    timeout: config.timeoutMs,
+                    signal: config.signal,
+                    transformResponse: this.options.decimalAmounts && returnsTransactions(method, path) ? [parseResponseWithDecimalAmounts] : undefined,
+                    headers: {
+                        ...config.headers,
+                        "X-API-Key": this.authProvider.getApiKey(),
+                        "Authorization": `Bearer ${token}`
+                    }
+                });
+            };
+            res = await (limiter ? limiter.schedule(send) : send());
+        } catch (err) {
+            const error = toFireblocksError(err, method, path);
+            const apiError = error instanceof FireblocksApiError ? error : undefined;
+            const errorContext = { ...context, error, status: apiError?.status, latencyMs: start ? Date.now() - start : 0, requestId: apiError?.requestId };
+            await this.runHooks(hook => hook.onError?.(errorContext));
+            throw error;
+        }
+
+        const responseContext = { ...context, status: res.status, latencyMs: Date.now() - start, requestId: res.headers["x-request-id"], data: res.data };
+        await this.runHooks(hook => hook.afterResponse?.(responseContext));
+        return res;
+    }
+
+    private async runHooks(call: (hook: RequestHooks) => void | Promise<void>) {
+        for (const hook of this.options.hooks ?? []) {
+            try {
+                await call(hook);
+            } catch (e) {
+                process.emitWarning(`A request hook failed: ${e?.message ?? e}`);
             }
-        })).data;
+        }
+    }
+}
+
+function parseResponseWithDecimalAmounts(data: any): any {
+    if (typeof data !== "string" || !data) {
+        return data;
+    }
+
+    try {
+        return parseJsonWithDecimalAmounts(data);
+    } catch (e) {
+        return data;
     }
 }
@@ -1,21 +1,66 @@
 import { IAuthProvider } from "./iauth-provider";
 import jwt from "jsonwebtoken";
-import crypto from "crypto";
+import crypto, { KeyObject } from "crypto";
+import fs from "fs";
 import { v4 as uuid } from "uuid";
 
+export interface JwtPayload {
+    uri: string;
+    nonce: string;
+    iat: number;
+    exp: number;
+    sub: string;
+    bodyHash: string;
+}
+
+/**
+ * Builds the claims of the JWT that authenticates a request
+ */
+export function createJwtPayload(path: string, bodyJson: any, apiKey: string): JwtPayload {
+    return {
+        uri: path,
+        nonce: uuid(),
+        iat: Math.floor(Date.now() / 1000),
+        exp: Math.floor(Date.now() / 1000) + 55,
+        sub: apiKey,
+        bodyHash: crypto.createHash("sha256").update(JSON.stringify(bodyJson || "")).digest().toString("hex")
+    };
+}
+
 export class ApiTokenProvider implements IAuthProvider {
+    private signingKey: jwt.Secret;
 
-    constructor(private privateKey: string, private apiKey: string) { }
+    /**
+     * @param privateKey The RSA private key, either PEM encoded or as a KeyObject
+     * @param apiKey Your api key
+     */
+    constructor(privateKey: string | KeyObject, private apiKey: string) {
+        // jsonwebtoken takes PEM keys only, a KeyObject (e.g. decrypted from an encrypted PEM) is exported once here
+        this.signingKey = typeof privateKey === "string" ? privateKey : privateKey.export({ type: "pkcs8", format: "pem" });
+    }
+
+    /**
+     * Creates a provider signing with a key read from a PEM file
+     * @param path The path of the PEM file
+     * @param apiKey Your api key
+     * @param passphrase The passphrase of an encrypted PEM file
+     */
+    static fromFile(path: string, apiKey: string, passphrase?: string): ApiTokenProvider {
+        return ApiTokenProvider.fromPem(fs.readFileSync(path, "utf8"), apiKey, passphrase);
+    }
+
+    /**
+     * Creates a provider signing with a PEM encoded key, which may be encrypted
+     * @param pem The PEM encoded private key
+     * @param apiKey Your api key
+     * @param passphrase The passphrase of an encrypted PEM
+     */
+    static fromPem(pem: string, apiKey: string, passphrase?: string): ApiTokenProvider {
+        return new ApiTokenProvider(crypto.createPrivateKey({ key: pem, passphrase }), apiKey);
+    }
 
     signJwt(path: string, bodyJson?: any): string {
-        const token =  jwt.sign({
-            uri: path,
-            nonce: uuid(),
-            iat: Math.floor(Date.now() / 1000),
-            exp: Math.floor(Date.now() / 1000) + 55,
-            sub: this.apiKey,
-            bodyHash: crypto.createHash("sha256").update(JSON.stringify(bodyJson || "")).digest().toString("hex")
-        } as any, this.privateKey, { algorithm: "RS256"});
+        const token =  jwt.sign(createJwtPayload(path, bodyJson, this.apiKey), this.signingKey, { algorithm: "RS256"});
 
         return token;
     }
@@ -0,0 +1,180 @@
+import { FireblocksSDK } from "./fireblocks-sdk";
+import { FireblocksError } from "./errors";
+import { addDecimals, normalizeDecimal, subtractDecimals } from "./decimal";
+import { toCsvLine } from "./csv";
+import {
+    AssetBalance,
+    AssetResponse,
+    BalanceAccountType,
+    BalanceChange,
+    BalanceSnapshot,
+    BalanceSnapshotAccount,
+    BalanceSnapshotDiff,
+    BalanceSnapshotOptions
+} from "./types";
+
+const BALANCE_FIELDS: (keyof AssetBalance)[] = ["total", "available", "pending", "locked", "allocated"];
+
+export type ExportFormat = "csv" | "json";
+
+/**
+ * Reads the balances of every vault account, exchange account, fiat account, internal wallet and off exchange account
+ */
+export async function takeBalanceSnapshot(sdk: FireblocksSDK, options: BalanceSnapshotOptions = {}): Promise<BalanceSnapshot> {
+    const accountTypes = options.accountTypes ?? Object.keys(BalanceAccountType).map(key => (BalanceAccountType as any)[key] as BalanceAccountType);
+    const snapshot: BalanceSnapshot = { takenAt: Date.now(), accounts: {} };
+    const add = (account: BalanceSnapshotAccount) => {
+        if (!options.includeZeroBalances) {
+            Object.keys(account.assets).filter(assetId => isZero(account.assets[assetId])).forEach(assetId => delete account.assets[assetId]);
+        }
+        snapshot.accounts[`${account.type}/${account.id}`] = account;
+    };
+    const includes = (type: BalanceAccountType) => accountTypes.indexOf(type) !== -1;
+
+    if (includes(BalanceAccountType.VAULT_ACCOUNT)) {
+        (await sdk.getVaultAccounts()).forEach(vault => add(fromAssetResponses(BalanceAccountType.VAULT_ACCOUNT, vault.id, vault.name, vault.assets)));
+    }
+    if (includes(BalanceAccountType.EXCHANGE_ACCOUNT)) {
+        (await sdk.getExchangeAccounts()).forEach(exchange => add(fromAssetResponses(BalanceAccountType.EXCHANGE_ACCOUNT, exchange.id, exchange.name, exchange.assets)));
+    }
+    if (includes(BalanceAccountType.FIAT_ACCOUNT)) {
+        (await sdk.getFiatAccounts()).forEach(fiat => add(fromAssetResponses(BalanceAccountType.FIAT_ACCOUNT, fiat.id, fiat.name, fiat.assets)));
+    }
+    if (includes(BalanceAccountType.INTERNAL_WALLET)) {
+        (await sdk.getInternalWallets()).forEach(wallet => {
+            const assets: { [assetId: string]: AssetBalance } = {};
+            wallet.assets.forEach(asset => assets[asset.id] = balance({ total: asset.balance, available: asset.balance }));
+            add({ type: BalanceAccountType.INTERNAL_WALLET, id: wallet.id, name: wallet.name, assets });
+        });
+    }
+    if (includes(BalanceAccountType.OFF_EXCHANGE_ACCOUNT)) {
+        (await sdk.getOffExchangeAccounts()).forEach(offExchange => {
+            const assets: { [assetId: string]: AssetBalance } = {};
+            Object.keys(offExchange.balance ?? {}).forEach(assetId => {
+                const { total, locked, pending, frozen } = offExchange.balance[assetId];
+                const lockedTotal = addDecimals(locked ?? 0, frozen ?? 0);
+                assets[assetId] = balance({ total, pending, locked: lockedTotal, available: subtractDecimals(total ?? 0, lockedTotal) });
+            });
+            add({ type: BalanceAccountType.OFF_EXCHANGE_ACCOUNT, id: offExchange.id, assets });
+        });
+    }
+
+    return snapshot;
+}
+
+/**
+ * Compares two snapshots, listing every account and asset whose balance changed between them
+ * @param includeUnchanged Also list the balances that did not change
+ */
+export function diffSnapshots(before: BalanceSnapshot, after: BalanceSnapshot, includeUnchanged: boolean = false): BalanceSnapshotDiff {
+    const changes: BalanceChange[] = [];
+    const accountKeys = union(Object.keys(before.accounts), Object.keys(after.accounts));
+
+    accountKeys.sort().forEach(accountKey => {
+        const beforeAccount = before.accounts[accountKey];
+        const afterAccount = after.accounts[accountKey];
+        const account = afterAccount ?? beforeAccount;
+
+        union(Object.keys(beforeAccount?.assets ?? {}), Object.keys(afterAccount?.assets ?? {})).sort().forEach(assetId => {
+            const beforeBalance = beforeAccount?.assets[assetId] ?? balance({});
+            const afterBalance = afterAccount?.assets[assetId] ?? balance({});
+            const change = {} as AssetBalance;
+            BALANCE_FIELDS.forEach(field => change[field] = subtractDecimals(afterBalance[field], beforeBalance[field]));
+
+            if (includeUnchanged || !isZero(change)) {
+                changes.push({
+                    accountType: account.type,
+                    accountId: account.id,
+                    accountName: account.name,
+                    assetId,
+                    before: beforeBalance,
+                    after: afterBalance,
+                    change
+                });
+            }
+        });
+    });
+
+    return { from: before.takenAt, to: after.takenAt, changes };
+}
+
+/**
+ * Exports a snapshot as JSON, or as CSV with a row per account and asset
+ */
+export function exportSnapshot(snapshot: BalanceSnapshot, format: ExportFormat): string {
+    if (format === "json") {
+        return JSON.stringify(snapshot, undefined, 2);
+    }
+    assertCsv(format);
+
+    const lines = [toCsvLine(["takenAt", "accountType", "accountId", "accountName", "assetId", ...BALANCE_FIELDS])];
+    Object.keys(snapshot.accounts).sort().forEach(accountKey => {
+        const account = snapshot.accounts[accountKey];
+        Object.keys(account.assets).sort().forEach(assetId => {
+            const assetBalance = account.assets[assetId];
+            lines.push(toCsvLine([new Date(snapshot.takenAt).toISOString(), account.type, account.id, account.name, assetId, ...BALANCE_FIELDS.map(field => assetBalance[field])]));
+        });
+    });
+    return lines.join("");
+}
+
+/**
+ * Exports a diff as JSON, or as CSV with a row per changed balance holding its before, after and change values
+ */
+export function exportSnapshotDiff(diff: BalanceSnapshotDiff, format: ExportFormat): string {
+    if (format === "json") {
+        return JSON.stringify(diff, undefined, 2);
+    }
+    assertCsv(format);
+
+    const header = ["accountType", "accountId", "accountName", "assetId"];
+    ["before", "after", "change"].forEach(prefix => BALANCE_FIELDS.forEach(field => header.push(`${prefix}.${field}`)));
+
+    return [
+        toCsvLine(header),
+        ...diff.changes.map(change => toCsvLine([
+            change.accountType,
+            change.accountId,
+            change.accountName,
+            change.assetId,
+            ...BALANCE_FIELDS.map(field => change.before[field]),
+            ...BALANCE_FIELDS.map(field => change.after[field]),
+            ...BALANCE_FIELDS.map(field => change.change[field])
+        ]))
+    ].join("");
+}
+
+function fromAssetResponses(type: BalanceAccountType, id: string, name: string, assetResponses: AssetResponse[] = []): BalanceSnapshotAccount {
+    const assets: { [assetId: string]: AssetBalance } = {};
+    assetResponses.forEach(asset => {
+        const total = asset.total ?? asset.balance;
+        assets[asset.id] = balance({
+            total,
+            available: asset.available ?? total,
+            pending: asset.pending,
+            locked: asset.lockedAmount,
+            allocated: (asset.allocatedBalances ?? []).reduce((sum, allocation) => addDecimals(sum, allocation.total ?? 0), "0")
+        });
+    });
+    return { type, id, name, assets };
+}
+
+function balance(values: { [field in keyof AssetBalance]?: number | string }): AssetBalance {
+    const result = {} as AssetBalance;
+    BALANCE_FIELDS.forEach(field => result[field] = normalizeDecimal(values[field] ?? 0));
+    return result;
+}
+
+function isZero(assetBalance: AssetBalance): boolean {
+    return BALANCE_FIELDS.every(field => assetBalance[field] === "0");
+}
+
+function union(a: string[], b: string[]): string[] {
+    return [...a, ...b.filter(item => a.indexOf(item) === -1)];
+}
+
+function assertCsv(format: string) {
+    if (format !== "csv") {
+        throw new FireblocksError(`Unsupported export format: ${format}`);
+    }
+}
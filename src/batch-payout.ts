@@ -0,0 +1,220 @@
+import crypto from "crypto";
+import { FireblocksSDK } from "./fireblocks-sdk";
+import { compareDecimals } from "./decimal";
+import { InvalidTransactionError, NotFoundError, TransactionFailedError } from "./errors";
+import { TransactionBuilder } from "./transaction-builder";
+import {
+    BatchPayoutOptions,
+    PayoutItem,
+    PayoutItemResult,
+    PayoutItemStatus,
+    PeerType,
+    TransactionArguments,
+    TransactionDestinationResponse,
+    TransactionResponse,
+    TransferPeerPath
+} from "./types";
+
+/**
+ * The UTXO based assets that support paying multiple destinations in one transaction
+ */
+export const MULTI_DESTINATION_ASSETS = [
+    "BTC", "BTC_TEST", "LTC", "LTC_TEST", "BCH", "BCH_TEST", "BSV", "BSV_TEST", "DASH", "DASH_TEST", "DOGE", "DOGE_TEST", "ZEC", "ZEC_TEST"
+];
+
+interface PayoutUnit {
+    externalTxId: string;
+    results: PayoutItemResult[];
+    /**
+     * Whether the unit is a chunk of a multi destination asset, whose externalTxId is derived from its position rather than its items
+     */
+    grouped: boolean;
+}
+
+/**
+ * Pays a batch of items from one source, grouping the items of multi destination assets into shared transactions.
+ * Every transaction gets an externalTxId derived from the batch id, so running a crashed batch again only submits what is missing
+ * @returns A result per item, in the order of the items
+ */
+export async function batchPayout(sdk: FireblocksSDK, source: string | TransferPeerPath, items: PayoutItem[], options: BatchPayoutOptions): Promise<PayoutItemResult[]> {
+    const results: PayoutItemResult[] = items.map((item, index) => ({ item, index, status: undefined }));
+
+    if (options.validateAddresses ?? true) {
+        await validateAddresses(sdk, results);
+    }
+
+    for (const unit of createUnits(results, options)) {
+        await submitUnit(sdk, source, unit, options);
+    }
+
+    if (options.waitForCompletion) {
+        await waitForCompletion(sdk, results, options);
+    }
+
+    return results;
+}
+
+async function validateAddresses(sdk: FireblocksSDK, results: PayoutItemResult[]) {
+    for (const result of results) {
+        const { destination, assetId } = result.item;
+        if (destination.type !== PeerType.ONE_TIME_ADDRESS || !destination.oneTimeAddress?.address) {
+            continue;
+        }
+
+        try {
+            const validation = await sdk.validateAddress(assetId, destination.oneTimeAddress.address);
+            if (!validation.isValid) {
+                fail(result, PayoutItemStatus.INVALID, `Invalid ${assetId} address ${destination.oneTimeAddress.address}`);
+            } else if (validation.requiresTag && !destination.oneTimeAddress.tag) {
+                fail(result, PayoutItemStatus.INVALID, `Address ${destination.oneTimeAddress.address} requires a tag`);
+            }
+        } catch (e) {
+            fail(result, PayoutItemStatus.FAILED, e.message);
+        }
+    }
+}
+
+/**
+ * Splits the items into transactions. Items of multi destination assets are chunked in the order of the batch, over all items,
+ * so that the same batch always produces the same externalTxIds
+ */
+function createUnits(results: PayoutItemResult[], options: BatchPayoutOptions): PayoutUnit[] {
+    const multiDestinationAssets = options.multiDestinationAssets ?? MULTI_DESTINATION_ASSETS;
+    const maxDestinations = options.maxDestinationsPerTransaction ?? 50;
+    const units: PayoutUnit[] = [];
+    const groups = new Map<string, PayoutItemResult[]>();
+
+    results.forEach(result => {
+        const assetId = result.item.assetId;
+        if (multiDestinationAssets.indexOf(assetId) === -1) {
+            units.push({ externalTxId: `${options.batchId}-${result.item.id ?? result.index}`, results: [result], grouped: false });
+            return;
+        }
+        groups.set(assetId, [...(groups.get(assetId) ?? []), result]);
+    });
+
+    groups.forEach((group, assetId) => {
+        for (let start = 0; start < group.length; start += maxDestinations) {
+            units.push({ externalTxId: `${options.batchId}-${assetId}-${start / maxDestinations}`, results: group.slice(start, start + maxDestinations), grouped: true });
+        }
+    });
+
+    return units.map(unit => ({ ...unit, results: unit.results.filter(result => !result.status) })).filter(unit => unit.results.length > 0);
+}
+
+async function submitUnit(sdk: FireblocksSDK, source: string | TransferPeerPath, unit: PayoutUnit, options: BatchPayoutOptions) {
+    unit.results.forEach(result => result.externalTxId = unit.externalTxId);
+
+    try {
+        const existing = await findTransaction(sdk, unit.externalTxId);
+        if (existing) {
+            const paid = unit.grouped ? findPaidResults(existing, unit.results) : unit.results;
+            paid.forEach(result => Object.assign(result, { status: PayoutItemStatus.ALREADY_SUBMITTED, txId: existing.id, transactionStatus: existing.status }));
+
+            // Items that were left out of the chunk's transaction, e.g. because their validation failed on an earlier run
+            const missing = unit.results.filter(result => paid.indexOf(result) === -1);
+            if (missing.length > 0) {
+                await submitUnit(sdk, source, { externalTxId: `${unit.externalTxId}-${hashItems(missing)}`, results: missing, grouped: true }, options);
+            }
+            return;
+        }
+
+        const transaction = await sdk.createTransaction(buildArguments(source, unit, options), { idempotencyKey: unit.externalTxId });
+        unit.results.forEach(result => Object.assign(result, { status: PayoutItemStatus.SUBMITTED, txId: transaction.id, transactionStatus: transaction.status }));
+    } catch (e) {
+        unit.results.forEach(result => fail(result, e instanceof InvalidTransactionError ? PayoutItemStatus.INVALID : PayoutItemStatus.FAILED, e.message));
+    }
+}
+
+function buildArguments(source: string | TransferPeerPath, unit: PayoutUnit, options: BatchPayoutOptions): TransactionArguments {
+    const [first] = unit.results;
+    const builder = new TransactionBuilder()
+        .asset(first.item.assetId)
+        .from(source)
+        .externalTxId(unit.externalTxId);
+
+    if (unit.results.length === 1) {
+        builder.to(first.item.destination).amount(first.item.amount);
+    } else {
+        unit.results.forEach(result => builder.addDestination(result.item.destination, result.item.amount));
+    }
+
+    const note = unit.results.length === 1 ? first.item.note ?? options.note : options.note;
+    if (note) {
+        builder.note(note);
+    }
+    if (options.feeLevel) {
+        builder.fee(options.feeLevel);
+    }
+
+    return builder.build();
+}
+
+/**
+ * Matches the items of a chunk to the destinations its existing transaction pays, by destination and amount
+ */
+function findPaidResults(transaction: TransactionResponse, results: PayoutItemResult[]): PayoutItemResult[] {
+    const destinations: TransactionDestinationResponse[] = transaction.destinations?.length ? [...transaction.destinations] :
+        [{ amount: transaction.amount, destination: transaction.destination, destinationAddress: transaction.destinationAddress }];
+
+    return results.filter(result => {
+        const index = destinations.findIndex(destination => paysItem(destination, result.item));
+        if (index === -1) {
+            return false;
+        }
+        destinations.splice(index, 1);
+        return true;
+    });
+}
+
+function paysItem(destination: TransactionDestinationResponse, item: PayoutItem): boolean {
+    // A destination without an amount can not be told apart from another one, so it pays none of the items
+    if (destination.amount === undefined || compareDecimals(destination.amount, item.amount) !== 0) {
+        return false;
+    }
+    if (item.destination.type === PeerType.ONE_TIME_ADDRESS) {
+        return !!destination.destinationAddress && destination.destinationAddress.toLowerCase() === item.destination.oneTimeAddress?.address.toLowerCase();
+    }
+    return destination.destination?.type === item.destination.type && destination.destination?.id === item.destination.id;
+}
+
+function hashItems(results: PayoutItemResult[]): string {
+    return crypto.createHash("sha256").update(results.map(result => String(result.item.id ?? result.index)).join(",")).digest("hex").slice(0, 12);
+}
+
+async function findTransaction(sdk: FireblocksSDK, externalTxId: string) {
+    try {
+        const transaction = await sdk.getTransactionByExternalTxId(externalTxId);
+        return transaction?.id ? transaction : undefined;
+    } catch (e) {
+        if (e instanceof NotFoundError) {
+            return undefined;
+        }
+        throw e;
+    }
+}
+
+async function waitForCompletion(sdk: FireblocksSDK, results: PayoutItemResult[], options: BatchPayoutOptions) {
+    const txIds = results.filter(result => result.txId).map(result => result.txId);
+
+    for (const txId of txIds.filter((id, index) => txIds.indexOf(id) === index)) {
+        const txResults = results.filter(result => result.txId === txId);
+        try {
+            const transaction = await sdk.waitForTransaction(txId, options.waitOptions);
+            txResults.forEach(result => result.transactionStatus = transaction.status);
+        } catch (e) {
+            txResults.forEach(result => {
+                result.error = e.message;
+                if (e instanceof TransactionFailedError) {
+                    result.status = PayoutItemStatus.FAILED;
+                    result.transactionStatus = e.status;
+                }
+            });
+        }
+    }
+}
+
+function fail(result: PayoutItemResult, status: PayoutItemStatus, error: string) {
+    result.status = status;
+    result.error = error;
+}
@@ -0,0 +1,15 @@
+/**
+ * Formats values as a CSV line terminated by CRLF, quoting fields as described in RFC 4180
+ */
+export function toCsvLine(values: any[]): string {
+    return `${values.map(escapeCsvField).join(",")}\r\n`;
+}
+
+function escapeCsvField(value: any): string {
+    if (value === undefined || value === null) {
+        return "";
+    }
+
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, "\"\"")}"` : text;
+}
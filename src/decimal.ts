@@ -0,0 +1,214 @@
+import { FireblocksError } from "./errors";
+import { DecimalTransactionResponse, TransactionResponse } from "./types";
+
+/**
+ * The amount fields of a transaction that are returned as exact decimal strings when decimalAmounts is enabled
+ */
+export const TRANSACTION_AMOUNT_FIELDS = ["amount", "fee", "networkFee", "netAmount", "requestedAmount", "serviceFee", "amountUSD"];
+
+/**
+ * The amount fields of each destination of a transaction that are returned as exact decimal strings when decimalAmounts is enabled
+ */
+export const DESTINATION_AMOUNT_FIELDS = ["amount", "amountUSD"];
+
+const TRANSACTIONS_PATH_PATTERN = /^\/v1\/transactions(\/external_tx_id)?(\/[^/?]+)?(\?.*)?$/;
+const NUMBER_PATTERN = /-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const DECIMAL_PATTERN = /^(-)?(\d+)(?:\.(\d+))?$/;
+
+/**
+ * The keys and array indices leading to a value in a JSON document
+ */
+export type JsonPath = (string | number)[];
+
+/**
+ * Whether a path into a transaction, or into a list of transactions, leads to one of its amounts
+ */
+export function isTransactionAmountPath(path: JsonPath): boolean {
+    const relative = typeof path[0] === "number" ? path.slice(1) : path;
+    if (relative.length === 1) {
+        return TRANSACTION_AMOUNT_FIELDS.indexOf(relative[0] as string) !== -1;
+    }
+
+    return relative.length === 3 && relative[0] === "destinations" && typeof relative[1] === "number"
+        && DESTINATION_AMOUNT_FIELDS.indexOf(relative[2] as string) !== -1;
+}
+
+/**
+ * Whether a request returns a transaction or a list of transactions, whose amounts are parsed as decimal strings when decimalAmounts is enabled
+ */
+export function returnsTransactions(method: string, path: string): boolean {
+    return method.toUpperCase() === "GET" && TRANSACTIONS_PATH_PATTERN.test(path) && !path.startsWith("/v1/transactions/validate_address");
+}
+
+/**
+ * Parses JSON, keeping the amounts as strings instead of rounding them to the nearest JavaScript number. Other numbers are parsed as usual
+ * @param isAmountPath Selects the amounts by their path. Defaults to the amounts of a transaction or of a list of transactions
+ */
+export function parseJsonWithDecimalAmounts(text: string, isAmountPath: (path: JsonPath) => boolean = isTransactionAmountPath): any {
+    const path: JsonPath = [];
+    const containers: ("object" | "array")[] = [];
+    let expectingKey = false;
+    let output = "";
+    let copiedUpTo = 0;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (c === "\"") {
+            const end = findStringEnd(text, i);
+            if (expectingKey) {
+                path[path.length - 1] = JSON.parse(text.substring(i, end + 1));
+                expectingKey = false;
+            }
+            i = end;
+        } else if (c === "{" || c === "[") {
+            containers.push(c === "{" ? "object" : "array");
+            path.push(c === "{" ? "" : 0);
+            expectingKey = c === "{";
+        } else if (c === "}" || c === "]") {
+            containers.pop();
+            path.pop();
+        } else if (c === ",") {
+            if (containers[containers.length - 1] === "object") {
+                expectingKey = true;
+            } else {
+                (path[path.length - 1] as number)++;
+            }
+        } else if (c === "-" || (c >= "0" && c <= "9")) {
+            NUMBER_PATTERN.lastIndex = i;
+            const number = NUMBER_PATTERN.exec(text)?.[0] ?? c;
+            if (isAmountPath(path)) {
+                output += `${text.substring(copiedUpTo, i)}"${normalizeDecimal(number)}"`;
+                copiedUpTo = i + number.length;
+            }
+            i += number.length - 1;
+        }
+    }
+
+    return JSON.parse(output + text.substring(copiedUpTo));
+}
+
+/**
+ * Returns a transaction with its amounts as exact decimal strings, typed as such.
+ * The amounts are only exact when the SDK is created with the decimalAmounts option, otherwise they were already rounded to JavaScript numbers
+ */
+export function asDecimalTransaction(transaction: TransactionResponse): DecimalTransactionResponse {
+    const toDecimal = (value: number | string) => typeof value === "number" || typeof value === "string" ? normalizeDecimal(value) : undefined;
+    return {
+        ...transaction,
+        amount: toDecimal(transaction.amount),
+        fee: toDecimal(transaction.fee),
+        networkFee: toDecimal(transaction.networkFee),
+        netAmount: toDecimal(transaction.netAmount),
+        requestedAmount: toDecimal(transaction.requestedAmount),
+        serviceFee: toDecimal(transaction.serviceFee),
+        amountUSD: toDecimal(transaction.amountUSD),
+        destinations: transaction.destinations?.map(destination => ({
+            ...destination,
+            amount: toDecimal(destination.amount),
+            amountUSD: toDecimal(destination.amountUSD)
+        }))
+    };
+}
+
+/**
+ * Converts a number or a numeric string, including exponent notation, to a plain decimal string
+ */
+export function normalizeDecimal(value: number | string): string {
+    const text = typeof value === "number" ? numberToPlainString(value) : value.trim();
+    const exponentMatch = /^(-?)(\d+)(?:\.(\d+))?[eE]([+-]?\d+)$/.exec(text);
+    const plain = exponentMatch ? shiftDecimalPoint(exponentMatch[1], exponentMatch[2], exponentMatch[3] ?? "", Number(exponentMatch[4])) : text;
+
+    const match = DECIMAL_PATTERN.exec(plain);
+    if (!match) {
+        throw new FireblocksError(`Invalid decimal amount: ${value}`);
+    }
+
+    const integer = match[2].replace(/^0+(?=\d)/, "");
+    const fraction = (match[3] ?? "").replace(/0+$/, "");
+    const sign = match[1] && (integer !== "0" || fraction) ? "-" : "";
+
+    return `${sign}${integer}${fraction ? `.${fraction}` : ""}`;
+}
+
+/**
+ * Converts an amount in human units (e.g. "1.5" ETH) to base units (e.g. "1500000000000000000" wei)
+ * @param amount The amount in human units
+ * @param decimals The number of decimals of the asset, as returned by getSupportedAssets
+ */
+export function toBaseUnits(amount: number | string, decimals: number): string {
+    const [integer, fraction = ""] = normalizeDecimal(amount).split(".");
+    if (fraction.length > decimals) {
+        throw new FireblocksError(`Amount ${amount} has more than ${decimals} decimals`);
+    }
+
+    return normalizeDecimal(`${integer}${fraction}${"0".repeat(decimals - fraction.length)}`);
+}
+
+/**
+ * Converts an amount in base units (e.g. "1500000000000000000" wei) to human units (e.g. "1.5" ETH)
+ * @param amount The amount in base units
+ * @param decimals The number of decimals of the asset, as returned by getSupportedAssets
+ */
+export function fromBaseUnits(amount: number | string, decimals: number): string {
+    const normalized = normalizeDecimal(amount);
+    if (normalized.indexOf(".") !== -1) {
+        throw new FireblocksError(`Amount ${amount} in base units must be an integer`);
+    }
+
+    const negative = normalized.startsWith("-");
+    return normalizeDecimal(shiftDecimalPoint(negative ? "-" : "", negative ? normalized.substring(1) : normalized, "", -decimals));
+}
+
+export function addDecimals(a: number | string, b: number | string): string {
+    const scale = Math.max(countDecimals(a), countDecimals(b));
+    return fromBaseUnits((BigInt(toBaseUnits(a, scale)) + BigInt(toBaseUnits(b, scale))).toString(), scale);
+}
+
+export function subtractDecimals(a: number | string, b: number | string): string {
+    const scale = Math.max(countDecimals(a), countDecimals(b));
+    return fromBaseUnits((BigInt(toBaseUnits(a, scale)) - BigInt(toBaseUnits(b, scale))).toString(), scale);
+}
+
+/**
+ * Returns a negative number if a < b, zero if they are equal and a positive number if a > b
+ */
+export function compareDecimals(a: number | string, b: number | string): number {
+    const difference = subtractDecimals(a, b);
+    return difference === "0" ? 0 : difference.startsWith("-") ? -1 : 1;
+}
+
+function findStringEnd(text: string, start: number): number {
+    for (let i = start + 1; i < text.length; i++) {
+        if (text[i] === "\\") {
+            i++;
+        } else if (text[i] === "\"") {
+            return i;
+        }
+    }
+    return text.length;
+}
+
+function countDecimals(value: number | string): number {
+    const fraction = normalizeDecimal(value).split(".")[1];
+    return fraction ? fraction.length : 0;
+}
+
+function numberToPlainString(value: number): string {
+    if (!isFinite(value)) {
+        throw new FireblocksError(`Invalid decimal amount: ${value}`);
+    }
+    return value.toString();
+}
+
+function shiftDecimalPoint(sign: string, integer: string, fraction: string, exponent: number): string {
+    const digits = integer + fraction;
+    const pointIndex = integer.length + exponent;
+
+    if (pointIndex <= 0) {
+        return `${sign}0.${"0".repeat(-pointIndex)}${digits}`;
+    }
+    if (pointIndex >= digits.length) {
+        return `${sign}${digits}${"0".repeat(pointIndex - digits.length)}`;
+    }
+    return `${sign}${digits.substring(0, pointIndex)}.${digits.substring(pointIndex)}`;
+}
@@ -0,0 +1,179 @@
+import { EventEmitter } from "events";
+import { FireblocksSDK } from "./fireblocks-sdk";
+import { TransactionWatcher } from "./transaction-watcher";
+import { FAILED_TRANSACTION_STATUSES } from "./transaction-waiter";
+import {
+    DepositAddressResponse,
+    DepositEvent,
+    DepositEventType,
+    DepositMonitorOptions,
+    PeerType,
+    TransactionResponse,
+    TransactionStatus,
+    TransactionWatchEvent
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface DepositState {
+    seen: boolean;
+    confirmed: boolean;
+    failed: boolean;
+    thresholdSet: boolean;
+    lastUpdated: number;
+}
+
+/**
+ * Monitors the incoming transfers of a vault account, emitting "seen" when a deposit first appears, "confirmed" once it reaches
+ * the confirmations its asset requires and "failed" if it fails. Events are delivered at least once: a listener that throws
+ * stops the poll and the deposit is processed again by the next one, and a restarted monitor may repeat the events of the
+ * deposits it was processing, so credit deposits idempotently by transaction id
+ */
+export class DepositMonitor extends EventEmitter {
+    private readonly watcher: TransactionWatcher;
+    private readonly deposits = new Map<string, DepositState>();
+    private readonly addresses = new Map<string, DepositAddressResponse[]>();
+
+    constructor(private readonly sdk: FireblocksSDK, private readonly options: DepositMonitorOptions) {
+        super();
+        this.watcher = new TransactionWatcher(sdk, {
+            destType: PeerType.VAULT_ACCOUNT,
+            destId: options.vaultAccountId,
+            assets: options.assets?.join(",")
+        }, {
+            pollIntervalMs: options.pollIntervalMs,
+            checkpointStore: options.checkpointStore,
+            startAt: options.startAt,
+            onEvent: event => this.handle(event)
+        });
+        this.watcher.on("error", e => this.emitError(e));
+    }
+
+    public start(): this {
+        this.watcher.start();
+        return this;
+    }
+
+    /**
+     * Stops polling, resolving once the deposits already fetched were processed
+     */
+    public async stop() {
+        await this.watcher.stop();
+    }
+
+    private async handle({ transaction, previousStatus }: TransactionWatchEvent) {
+        let state = this.deposits.get(transaction.id);
+        if (!state && previousStatus !== undefined && FAILED_TRANSACTION_STATUSES.indexOf(previousStatus) !== -1) {
+            // Already failed, the failure was reported when the deposit was last seen
+            return;
+        }
+        if (!state) {
+            state = { seen: previousStatus !== undefined, confirmed: false, failed: false, thresholdSet: false, lastUpdated: 0 };
+            this.deposits.set(transaction.id, state);
+        }
+        state.lastUpdated = transaction.lastUpdated;
+        this.forgetSettledDeposits(transaction.lastUpdated);
+        if (state.confirmed) {
+            // Already confirmed, e.g. a completed deposit getting more confirmations
+            return;
+        }
+
+        const requiredConfirmations = this.options.requiredConfirmations?.[transaction.assetId];
+        const failed = FAILED_TRANSACTION_STATUSES.indexOf(transaction.status) !== -1;
+
+        if (!state.seen) {
+            await this.emitDeposit(DepositEventType.SEEN, transaction, requiredConfirmations);
+            state.seen = true;
+
+            if (this.options.setConfirmationThreshold && requiredConfirmations !== undefined && !failed && transaction.status !== TransactionStatus.COMPLETED) {
+                try {
+                    await this.sdk.setConfirmationThresholdForTxId(transaction.id, requiredConfirmations);
+                    state.thresholdSet = true;
+                } catch (e) {
+                    // The deposit is then confirmed by counting its confirmations
+                    this.emitError(e);
+                }
+            }
+        }
+
+        // The flags are only set once the event was emitted, a listener that throws has the deposit processed again by the next poll
+        if (failed && !state.failed) {
+            await this.emitDeposit(DepositEventType.FAILED, transaction, requiredConfirmations);
+            state.failed = true;
+        } else if (!failed && this.isConfirmed(transaction, state, requiredConfirmations)) {
+            await this.emitDeposit(DepositEventType.CONFIRMED, transaction, requiredConfirmations);
+            state.confirmed = true;
+        }
+    }
+
+    /**
+     * Forgets the deposits that were confirmed or failed a day before the latest update
+     */
+    private forgetSettledDeposits(now: number) {
+        this.deposits.forEach((state, txId) => {
+            if ((state.confirmed || state.failed) && state.lastUpdated < now - DAY_MS) {
+                this.deposits.delete(txId);
+            }
+        });
+    }
+
+    /**
+     * A deposit is confirmed once it has the confirmations its asset requires, or once its transaction completes
+     * when its asset has no requirement or the requirement was set as the transaction's confirmation threshold
+     */
+    private isConfirmed(transaction: TransactionResponse, state: DepositState, requiredConfirmations: number | undefined): boolean {
+        const completed = transaction.status === TransactionStatus.COMPLETED;
+        if (requiredConfirmations === undefined || state.thresholdSet) {
+            return completed || (requiredConfirmations !== undefined && (transaction.numOfConfirmations ?? 0) >= requiredConfirmations);
+        }
+        return (completed || transaction.status === TransactionStatus.CONFIRMING) && (transaction.numOfConfirmations ?? 0) >= requiredConfirmations;
+    }
+
+    private async emitDeposit(type: DepositEventType, transaction: TransactionResponse, requiredConfirmations: number | undefined) {
+        const address = await this.findAddress(transaction);
+        const event: DepositEvent = {
+            type,
+            transaction,
+            vaultAccountId: this.options.vaultAccountId,
+            assetId: transaction.assetId,
+            amount: transaction.amount,
+            address: transaction.destinationAddress,
+            tag: transaction.destinationTag || undefined,
+            customerRefId: address?.customerRefId,
+            confirmations: transaction.numOfConfirmations ?? 0,
+            requiredConfirmations
+        };
+        this.emit(type, event);
+    }
+
+    /**
+     * Finds the deposit address that received a transaction, reloading the addresses of its asset once when it is not known yet.
+     * Returns undefined, reporting the error, when the addresses can not be loaded
+     */
+    private async findAddress(transaction: TransactionResponse): Promise<DepositAddressResponse | undefined> {
+        if (!transaction.destinationAddress) {
+            return undefined;
+        }
+
+        const find = () => this.addresses.get(transaction.assetId)?.find(address =>
+            address.address.toLowerCase() === transaction.destinationAddress.toLowerCase() &&
+            (!transaction.destinationTag || !address.tag || address.tag === transaction.destinationTag));
+
+        if (!find()) {
+            try {
+                this.addresses.set(transaction.assetId, await this.sdk.getDepositAddresses(this.options.vaultAccountId, transaction.assetId));
+            } catch (e) {
+                // The event is emitted without a customerRefId rather than lost
+                this.emitError(e);
+                return undefined;
+            }
+        }
+        return find();
+    }
+
+    private emitError(e: any) {
+        if (this.listenerCount("error") > 0) {
+            this.emit("error", e);
+        }
+    }
+}
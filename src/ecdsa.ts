@@ -0,0 +1,199 @@
+/**
+ * Minimal ECDSA over secp256k1 and secp256r1, operating on pre-hashed messages as signed by the RAW operation.
+ * Only verification and public key recovery are implemented, which involve no secrets
+ */
+import { FireblocksError } from "./errors";
+
+export interface Curve {
+    p: bigint;
+    a: bigint;
+    b: bigint;
+    n: bigint;
+    g: Point;
+}
+
+export interface Point {
+    x: bigint;
+    y: bigint;
+}
+
+export interface EcdsaSignature {
+    r: bigint;
+    s: bigint;
+}
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const TWO = BigInt(2);
+const THREE = BigInt(3);
+const FOUR = BigInt(4);
+
+export const SECP256K1: Curve = {
+    p: BigInt("0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffefffffc2f"),
+    a: ZERO,
+    b: BigInt(7),
+    n: BigInt("0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141"),
+    g: {
+        x: BigInt("0x79be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798"),
+        y: BigInt("0x483ada7726a3c4655da4fbfc0e1108a8fd17b448a68554199c47d08ffb10d4b8")
+    }
+};
+
+export const SECP256R1: Curve = {
+    p: BigInt("0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff"),
+    a: BigInt("0xffffffff00000001000000000000000000000000fffffffffffffffffffffffc"),
+    b: BigInt("0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b"),
+    n: BigInt("0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551"),
+    g: {
+        x: BigInt("0x6b17d1f2e12c4247f8bce6e563a440f277037d812deb33a0f4a13945d898c296"),
+        y: BigInt("0x4fe342e2fe1a7f9b8ee7eb4a7c0f9e162bce33576b315ececbb6406837bf51f5")
+    }
+};
+
+export function bytesToBigInt(bytes: Buffer): bigint {
+    return bytes.length === 0 ? ZERO : BigInt(`0x${bytes.toString("hex")}`);
+}
+
+export function bigIntToBytes(value: bigint, length: number = 32): Buffer {
+    const hex = value.toString(16);
+    return Buffer.from(`${"0".repeat(Math.max(0, length * 2 - hex.length))}${hex}`, "hex");
+}
+
+/**
+ * Parses a SEC1 encoded public key, either compressed (33 bytes) or uncompressed (65 bytes)
+ */
+export function decodePublicKey(curve: Curve, encoded: Buffer): Point {
+    if (encoded.length === 65 && encoded[0] === 4) {
+        return { x: bytesToBigInt(encoded.slice(1, 33)), y: bytesToBigInt(encoded.slice(33)) };
+    }
+    if (encoded.length === 33 && (encoded[0] === 2 || encoded[0] === 3)) {
+        return decompress(curve, bytesToBigInt(encoded.slice(1)), encoded[0] === 3);
+    }
+    throw new FireblocksError("Invalid public key encoding");
+}
+
+/**
+ * Encodes a point as a SEC1 public key
+ */
+export function encodePublicKey(point: Point, compressed: boolean): Buffer {
+    if (compressed) {
+        return Buffer.concat([Buffer.from([point.y % TWO === ONE ? 3 : 2]), bigIntToBytes(point.x)]);
+    }
+    return Buffer.concat([Buffer.from([4]), bigIntToBytes(point.x), bigIntToBytes(point.y)]);
+}
+
+export function verify(curve: Curve, digest: Buffer, signature: EcdsaSignature, publicKey: Point): boolean {
+    const { r, s } = signature;
+    if (r <= ZERO || r >= curve.n || s <= ZERO || s >= curve.n) {
+        return false;
+    }
+
+    const w = modInverse(s, curve.n);
+    const z = digestToScalar(curve, digest);
+    const point = add(curve, multiply(curve, curve.g, mod(z * w, curve.n)), multiply(curve, publicKey, mod(r * w, curve.n)));
+
+    return !!point && mod(point.x, curve.n) === r;
+}
+
+/**
+ * Recovers the public key that produced a signature
+ * @param recoveryId The parity of the y coordinate of the signature's R point (0 or 1)
+ */
+export function recoverPublicKey(curve: Curve, digest: Buffer, signature: EcdsaSignature, recoveryId: number): Point | undefined {
+    const { r, s } = signature;
+    if (r <= ZERO || r >= curve.n || s <= ZERO || s >= curve.n) {
+        return undefined;
+    }
+
+    const R = decompress(curve, r, (recoveryId & 1) === 1);
+    const z = digestToScalar(curve, digest);
+    const rInverse = modInverse(r, curve.n);
+    const sR = multiply(curve, R, s);
+    const zG = multiply(curve, curve.g, mod(-z, curve.n));
+
+    return multiply(curve, add(curve, sR, zG), rInverse);
+}
+
+function decompress(curve: Curve, x: bigint, odd: boolean): Point {
+    const rhs = mod(x * x * x + curve.a * x + curve.b, curve.p);
+    // Both curves have p = 3 mod 4, so the square root is rhs ^ ((p + 1) / 4)
+    const y = modPow(rhs, (curve.p + ONE) / FOUR, curve.p);
+    if (mod(y * y, curve.p) !== rhs) {
+        throw new FireblocksError("Point is not on the curve");
+    }
+    return { x, y: (y % TWO === ONE) === odd ? y : curve.p - y };
+}
+
+function digestToScalar(curve: Curve, digest: Buffer): bigint {
+    return mod(bytesToBigInt(digest.slice(0, 32)), curve.n);
+}
+
+function add(curve: Curve, p1: Point | undefined, p2: Point | undefined): Point | undefined {
+    if (!p1) {
+        return p2;
+    }
+    if (!p2) {
+        return p1;
+    }
+    if (p1.x === p2.x && mod(p1.y + p2.y, curve.p) === ZERO) {
+        return undefined;
+    }
+
+    const slope = p1.x === p2.x ?
+        mod((THREE * p1.x * p1.x + curve.a) * modInverse(TWO * p1.y, curve.p), curve.p) :
+        mod((p2.y - p1.y) * modInverse(p2.x - p1.x, curve.p), curve.p);
+    const x = mod(slope * slope - p1.x - p2.x, curve.p);
+    const y = mod(slope * (p1.x - x) - p1.y, curve.p);
+
+    return { x, y };
+}
+
+function multiply(curve: Curve, point: Point | undefined, scalar: bigint): Point | undefined {
+    let result: Point | undefined;
+    let addend = point;
+    let k = scalar;
+
+    while (k > ZERO) {
+        if (k & ONE) {
+            result = add(curve, result, addend);
+        }
+        addend = add(curve, addend, addend);
+        k >>= ONE;
+    }
+
+    return result;
+}
+
+function mod(value: bigint, modulus: bigint): bigint {
+    const result = value % modulus;
+    return result >= ZERO ? result : result + modulus;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = ONE;
+    let b = mod(base, modulus);
+    let e = exponent;
+
+    while (e > ZERO) {
+        if (e & ONE) {
+            result = mod(result * b, modulus);
+        }
+        b = mod(b * b, modulus);
+        e >>= ONE;
+    }
+
+    return result;
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+    let [oldR, r] = [mod(value, modulus), modulus];
+    let [oldS, s] = [ONE, ZERO];
+
+    while (r !== ZERO) {
+        const quotient = oldR / r;
+        [oldR, r] = [r, oldR - quotient * r];
+        [oldS, s] = [s, oldS - quotient * s];
+    }
+
+    return mod(oldS, modulus);
+}
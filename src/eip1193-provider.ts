@@ -0,0 +1,231 @@
+import { EventEmitter } from "events";
+import axios from "axios";
+import { FireblocksSDK } from "./fireblocks-sdk";
+import { InvalidTransactionError, ProviderRpcError } from "./errors";
+import { FeeLevel, PeerType, TransactionOperation, TransactionStatus, WaitForTransactionOptions } from "./types";
+import { TransactionBuilder } from "./transaction-builder";
+import { fromBaseUnits } from "./decimal";
+import { hexToBytes, toChecksumAddress } from "./ethereum";
+
+/**
+ * The decimals of the base asset of every EVM chain
+ */
+const EVM_BASE_ASSET_DECIMALS = 18;
+const GWEI_DECIMALS = 9;
+
+const UNAUTHORIZED = 4100;
+const UNSUPPORTED_METHOD = 4200;
+const INVALID_PARAMS = -32602;
+const INTERNAL_ERROR = -32603;
+
+export interface RequestArguments {
+    method: string;
+    params?: any[] | object;
+}
+
+export interface Eip1193ProviderOptions {
+    /**
+     * The vault accounts whose deposit addresses are exposed as accounts
+     */
+    vaultAccountIds: string[];
+    /**
+     * The base asset of the chain, e.g. ETH or MATIC_POLYGON
+     */
+    assetId: string;
+    /**
+     * The JSON-RPC endpoint read-only calls are proxied to
+     */
+    rpcUrl: string;
+    /**
+     * Answer eth_chainId locally instead of asking the RPC endpoint
+     */
+    chainId?: number;
+    /**
+     * The fee level of transactions that specify no gas price. Defaults to MEDIUM
+     */
+    feeLevel?: FeeLevel;
+    note?: string;
+    waitOptions?: WaitForTransactionOptions;
+    rpcTimeoutMs?: number;
+}
+
+interface Account {
+    vaultAccountId: string;
+    addressIndex: number;
+}
+
+/**
+ * An EIP-1193 provider backed by Fireblocks vault accounts, usable with ethers' Web3Provider and web3.js.
+ * Accounts, transactions and signatures go through Fireblocks, every other call is proxied to the RPC endpoint
+ */
+export class FireblocksEip1193Provider extends EventEmitter {
+    private accounts: Promise<Map<string, Account>>;
+    private rpcId = 0;
+
+    constructor(private readonly sdk: FireblocksSDK, private readonly options: Eip1193ProviderOptions) {
+        super();
+    }
+
+    public async request(args: RequestArguments): Promise<any> {
+        const params: any[] = Array.isArray(args.params) ? args.params : args.params ? [args.params] : [];
+
+        try {
+            switch (args.method) {
+                case "eth_accounts":
+                case "eth_requestAccounts":
+                    return Array.from((await this.getAccounts()).keys()).map(toChecksumAddress);
+                case "eth_coinbase":
+                    return Array.from((await this.getAccounts()).keys()).map(toChecksumAddress)[0];
+                case "eth_chainId":
+                    return this.options.chainId !== undefined ? `0x${this.options.chainId.toString(16)}` : await this.proxy(args.method, params);
+                case "net_version":
+                    return this.options.chainId !== undefined ? String(this.options.chainId) : await this.proxy(args.method, params);
+                case "eth_sendTransaction":
+                    return await this.sendTransaction(params[0]);
+                case "personal_sign":
+                    return await this.personalSign(params[0], params[1]);
+                case "eth_signTypedData_v4":
+                    return await this.signTypedData(params[0], params[1]);
+                case "eth_sign":
+                case "eth_signTransaction":
+                case "eth_sendRawTransaction":
+                case "eth_signTypedData":
+                case "eth_signTypedData_v3":
+                    throw new ProviderRpcError(`${args.method} is not supported by Fireblocks vault accounts`, UNSUPPORTED_METHOD);
+                default:
+                    return await this.proxy(args.method, params);
+            }
+        } catch (e) {
+            if (e instanceof ProviderRpcError) {
+                throw e;
+            }
+            throw new ProviderRpcError(e.message, e instanceof InvalidTransactionError ? INVALID_PARAMS : INTERNAL_ERROR, undefined, e);
+        }
+    }
+
+    /**
+     * Forgets the cached accounts, so that addresses added to the vault accounts are picked up
+     */
+    public refreshAccounts() {
+        this.accounts = undefined;
+    }
+
+    private getAccounts(): Promise<Map<string, Account>> {
+        if (!this.accounts) {
+            this.accounts = this.loadAccounts();
+            this.accounts.catch(() => {
+                this.accounts = undefined;
+            });
+        }
+        return this.accounts;
+    }
+
+    private async loadAccounts(): Promise<Map<string, Account>> {
+        const accounts = new Map<string, Account>();
+        for (const vaultAccountId of this.options.vaultAccountIds) {
+            const addresses = await this.sdk.getDepositAddresses(vaultAccountId, this.options.assetId);
+            addresses.forEach(address => accounts.set(address.address.toLowerCase(), { vaultAccountId, addressIndex: address.bip44AddressIndex ?? 0 }));
+        }
+        return accounts;
+    }
+
+    private async getAccount(address: string | undefined): Promise<Account> {
+        const accounts = await this.getAccounts();
+        const account = address ? accounts.get(address.toLowerCase()) : accounts.values().next().value;
+        if (!account) {
+            throw new ProviderRpcError(`Address ${address} is not a deposit address of the configured vault accounts`, UNAUTHORIZED);
+        }
+        return account;
+    }
+
+    private async sendTransaction(tx: any): Promise<string> {
+        if (!tx?.to) {
+            throw new ProviderRpcError("Contract deployment is not supported, a to address is required", UNSUPPORTED_METHOD);
+        }
+
+        const account = await this.getAccount(tx.from);
+        const data = tx.data ?? tx.input;
+        const isContractCall = !!data && data !== "0x";
+        const builder = new TransactionBuilder(isContractCall ? TransactionOperation.CONTRACT_CALL : TransactionOperation.TRANSFER)
+            .asset(this.options.assetId)
+            .from({ type: PeerType.VAULT_ACCOUNT, id: account.vaultAccountId })
+            .toOneTimeAddress(tx.to)
+            .amount(fromBaseUnits(BigInt(tx.value ?? 0).toString(), EVM_BASE_ASSET_DECIMALS));
+
+        if (isContractCall) {
+            builder.contractCallData(data);
+        }
+        if (this.options.note) {
+            builder.note(this.options.note);
+        }
+
+        const gasLimit = tx.gas ?? tx.gasLimit;
+        if (tx.gasPrice !== undefined) {
+            builder.fee({ gasPrice: toGwei(tx.gasPrice) });
+        } else if (tx.maxPriorityFeePerGas !== undefined) {
+            builder.fee({ priorityFee: toGwei(tx.maxPriorityFeePerGas), ...(tx.maxFeePerGas !== undefined ? { maxFee: toGwei(tx.maxFeePerGas) } : {}) });
+        } else {
+            builder.fee(this.options.feeLevel ?? FeeLevel.MEDIUM);
+        }
+        if (gasLimit !== undefined) {
+            builder.fee({ gasLimit: BigInt(gasLimit).toString() });
+        }
+
+        const { id } = await this.sdk.createTransaction(builder.build());
+
+        let transaction = await this.sdk.waitForTransaction(id, { ...this.options.waitOptions, targetStatuses: [TransactionStatus.BROADCASTING, TransactionStatus.CONFIRMING] });
+        if (!transaction.txHash) {
+            transaction = await this.sdk.waitForTransaction(id, { ...this.options.waitOptions, targetStatuses: [TransactionStatus.CONFIRMING] });
+        }
+        if (!transaction.txHash) {
+            throw new ProviderRpcError(`Transaction ${id} reached status ${transaction.status} without a transaction hash`, INTERNAL_ERROR);
+        }
+
+        return transaction.txHash.startsWith("0x") ? transaction.txHash : `0x${transaction.txHash}`;
+    }
+
+    private async personalSign(message: string, address: string): Promise<string> {
+        const account = await this.getAccount(address);
+        const bytes = /^0x([0-9a-fA-F]{2})*$/.test(message) ? hexToBytes(message) : Buffer.from(message, "utf8");
+        const { signature } = await this.sdk.signEthereumMessage(account.vaultAccountId, this.options.assetId, bytes, {
+            addressIndex: account.addressIndex,
+            note: this.options.note,
+            waitOptions: this.options.waitOptions
+        });
+        return signature;
+    }
+
+    private async signTypedData(address: string, typedData: string | object): Promise<string> {
+        const account = await this.getAccount(address);
+        const { signature } = await this.sdk.signTypedData(account.vaultAccountId, this.options.assetId, typeof typedData === "string" ? JSON.parse(typedData) : typedData, {
+            addressIndex: account.addressIndex,
+            note: this.options.note,
+            waitOptions: this.options.waitOptions
+        });
+        return signature;
+    }
+
+    private async proxy(method: string, params: any[]): Promise<any> {
+        const id = ++this.rpcId;
+        let response;
+        try {
+            response = await axios.post(this.options.rpcUrl, { jsonrpc: "2.0", id, method, params }, { timeout: this.options.rpcTimeoutMs });
+        } catch (e) {
+            const error = e.response?.data?.error;
+            if (error) {
+                throw new ProviderRpcError(error.message, error.code, error.data, e);
+            }
+            throw new ProviderRpcError(`${method} failed: ${e.message}`, INTERNAL_ERROR, undefined, e);
+        }
+
+        const { result, error } = response.data;
+        if (error) {
+            throw new ProviderRpcError(error.message, error.code, error.data);
+        }
+        return result;
+    }
+}
+
+function toGwei(wei: string | number): string {
+    return fromBaseUnits(BigInt(wei).toString(), GWEI_DECIMALS);
+}
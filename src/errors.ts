@@ -0,0 +1,241 @@
+import axios, { AxiosError } from "axios";
+import { TransactionResponse, TransactionStatus, ValidationIssue } from "./types";
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class FireblocksError extends Error {
+    constructor(message: string, public readonly cause?: any) {
+        super(message);
+        this.name = this.constructor.name;
+    }
+}
+
+export interface FireblocksApiErrorDetails {
+    status?: number;
+    code?: number;
+    method?: string;
+    path?: string;
+    requestId?: string;
+    responseData?: any;
+    retryAfterMs?: number;
+}
+
+/**
+ * Thrown when a request to the Fireblocks API fails
+ */
+export class FireblocksApiError extends FireblocksError {
+    /**
+     * The HTTP status code, if a response was received
+     */
+    public readonly status?: number;
+    /**
+     * The Fireblocks error code from the response body
+     */
+    public readonly code?: number;
+    public readonly method?: string;
+    public readonly path?: string;
+    /**
+     * The value of the x-request-id response header, useful when contacting Fireblocks support
+     */
+    public readonly requestId?: string;
+    public readonly responseData?: any;
+    /**
+     * The delay requested by the Retry-After header, in milliseconds
+     */
+    public readonly retryAfterMs?: number;
+
+    constructor(message: string, details: FireblocksApiErrorDetails = {}, cause?: any) {
+        super(message, cause);
+        this.status = details.status;
+        this.code = details.code;
+        this.method = details.method;
+        this.path = details.path;
+        this.requestId = details.requestId;
+        this.responseData = details.responseData;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+/**
+ * 400 and 422 responses - the request was rejected as invalid
+ */
+export class ValidationError extends FireblocksApiError { }
+
+/**
+ * 401 and 403 responses - the API key or JWT was rejected
+ */
+export class AuthenticationError extends FireblocksApiError { }
+
+/**
+ * 404 responses
+ */
+export class NotFoundError extends FireblocksApiError { }
+
+/**
+ * 429 responses
+ */
+export class RateLimitError extends FireblocksApiError { }
+
+/**
+ * 5xx responses
+ */
+export class ServerError extends FireblocksApiError { }
+
+/**
+ * The request did not receive a response (connection refused, socket reset, DNS failure etc.)
+ */
+export class NetworkError extends FireblocksApiError { }
+
+/**
+ * The request did not receive a response in time
+ */
+export class TimeoutError extends NetworkError { }
+
+/**
+ * Parses a Retry-After header value (either seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const seconds = Number(value);
+    if (!isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(value);
+    if (!isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Converts any error raised while issuing a request into a FireblocksError
+ */
+export function toFireblocksError(err: any, method: string, path: string): FireblocksError {
+    if (err instanceof FireblocksError) {
+        return err;
+    }
+
+    if (axios.isCancel(err)) {
+        return new AbortedError(`${method} ${path} was aborted`, err);
+    }
+
+    if (!err?.isAxiosError) {
+        return new FireblocksError(`${method} ${path} failed: ${err?.message ?? err}`, err);
+    }
+
+    const axiosError = err as AxiosError;
+    const response = axiosError.response;
+
+    if (!response) {
+        const details = { method, path };
+        if (axiosError.code === "ECONNABORTED" || axiosError.code === "ETIMEDOUT") {
+            return new TimeoutError(`${method} ${path} timed out: ${axiosError.message}`, details, err);
+        }
+        return new NetworkError(`${method} ${path} failed: ${axiosError.message}`, details, err);
+    }
+
+    const data = response.data;
+    const status = response.status;
+    const details: FireblocksApiErrorDetails = {
+        status,
+        code: typeof data?.code === "number" ? data.code : undefined,
+        method,
+        path,
+        requestId: response.headers?.["x-request-id"],
+        responseData: data,
+        retryAfterMs: parseRetryAfter(response.headers?.["retry-after"])
+    };
+    const message = `${method} ${path} failed with status ${status}: ${data?.message ?? axiosError.message}`;
+
+    if (status === 400 || status === 422) {
+        return new ValidationError(message, details, err);
+    }
+    if (status === 401 || status === 403) {
+        return new AuthenticationError(message, details, err);
+    }
+    if (status === 404) {
+        return new NotFoundError(message, details, err);
+    }
+    if (status === 429) {
+        return new RateLimitError(message, details, err);
+    }
+    if (status >= 500) {
+        return new ServerError(message, details, err);
+    }
+
+    return new FireblocksApiError(message, details, err);
+}
+
+/**
+ * Thrown when a transaction that is waited for ends unsuccessfully
+ */
+export class TransactionFailedError extends FireblocksError {
+    public readonly txId: string;
+    public readonly status: TransactionStatus;
+    public readonly subStatus?: string;
+
+    constructor(message: string, public readonly transaction: TransactionResponse) {
+        super(message);
+        this.txId = transaction.id;
+        this.status = transaction.status;
+        this.subStatus = transaction.subStatus;
+    }
+}
+
+/**
+ * Thrown when waiting for an operation exceeds its overall timeout
+ */
+export class WaitTimeoutError extends FireblocksError { }
+
+/**
+ * Thrown when an operation is cancelled through its AbortSignal
+ */
+export class AbortedError extends FireblocksError { }
+
+/**
+ * Thrown when an incoming webhook fails verification
+ */
+export class WebhookVerificationError extends FireblocksError { }
+
+/**
+ * Thrown by TransactionBuilder.build() when the transaction arguments are invalid
+ */
+export class InvalidTransactionError extends FireblocksError {
+    constructor(public readonly errors: string[]) {
+        super(`Invalid transaction: ${errors.join("; ")}`);
+    }
+}
+
+/**
+ * Thrown when a signature returned by Fireblocks does not verify against its public key
+ */
+export class SignatureVerificationError extends FireblocksError { }
+
+/**
+ * An EIP-1193 provider error, carrying a JSON-RPC error code
+ */
+export class ProviderRpcError extends FireblocksError {
+    constructor(message: string, public readonly code: number, public readonly data?: any, cause?: any) {
+        super(message, cause);
+    }
+}
+
+/**
+ * Thrown by a FixtureReplayer when a request matches no recorded fixture
+ */
+export class FixtureNotFoundError extends FireblocksError { }
+
+/**
+ * Thrown when a response does not match the type the SDK declares for it and response validation is set to throw
+ */
+export class ResponseValidationError extends FireblocksError {
+    constructor(public readonly method: string, public readonly path: string, public readonly issues: ValidationIssue[]) {
+        super(`${method} ${path} returned an unexpected response: ${issues.map(issue => issue.message).join("; ")}`);
+    }
+}
@@ -0,0 +1,191 @@
+import { FireblocksError } from "./errors";
+import { keccak256 } from "./keccak";
+import { bigIntToBytes, bytesToBigInt, decodePublicKey, EcdsaSignature, encodePublicKey, recoverPublicKey, SECP256K1 } from "./ecdsa";
+import { TypedData, TypedDataDomain, TypedDataField } from "./types";
+
+const EIP712_DOMAIN_FIELDS: TypedDataField[] = [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+    { name: "salt", type: "bytes32" }
+];
+
+/**
+ * Converts a hex string, with or without a 0x prefix, to bytes
+ */
+export function hexToBytes(hex: string): Buffer {
+    const stripped = hex.startsWith("0x") || hex.startsWith("0X") ? hex.substring(2) : hex;
+    if (!/^[0-9a-fA-F]*$/.test(stripped) || stripped.length % 2 !== 0) {
+        throw new FireblocksError(`Invalid hex string: ${hex}`);
+    }
+    return Buffer.from(stripped, "hex");
+}
+
+export function bytesToHex(bytes: Buffer): string {
+    return `0x${bytes.toString("hex")}`;
+}
+
+/**
+ * Returns the EIP-55 mixed case checksum encoding of an address
+ */
+export function toChecksumAddress(address: string): string {
+    const bytes = hexToBytes(address);
+    if (bytes.length !== 20) {
+        throw new FireblocksError(`Invalid address: ${address}`);
+    }
+
+    const lower = bytes.toString("hex");
+    const hash = keccak256(lower).toString("hex");
+    return `0x${lower.split("").map((char, i) => parseInt(hash[i], 16) >= 8 ? char.toUpperCase() : char).join("")}`;
+}
+
+/**
+ * Derives the Ethereum address of a secp256k1 public key, either compressed or uncompressed and hex encoded or raw
+ */
+export function publicKeyToAddress(publicKey: string | Buffer): string {
+    const point = decodePublicKey(SECP256K1, typeof publicKey === "string" ? hexToBytes(publicKey) : publicKey);
+    return toChecksumAddress(keccak256(encodePublicKey(point, false).slice(1)).slice(12).toString("hex"));
+}
+
+/**
+ * Hashes a message the way personal_sign does, prefixing it with "\x19Ethereum Signed Message:\n" and its length
+ * @param message A UTF-8 string, or raw bytes
+ */
+export function hashPersonalMessage(message: string | Buffer): Buffer {
+    const bytes = typeof message === "string" ? Buffer.from(message, "utf8") : message;
+    return keccak256(Buffer.concat([Buffer.from(`\x19Ethereum Signed Message:\n${bytes.length}`, "utf8"), bytes]));
+}
+
+/**
+ * Hashes EIP-712 typed data into the digest signed by eth_signTypedData_v4
+ */
+export function hashTypedData(typedData: TypedData): Buffer {
+    const types = { EIP712Domain: domainFields(typedData.domain), ...typedData.types };
+    return keccak256(Buffer.concat([
+        Buffer.from([0x19, 0x01]),
+        hashStruct(types, "EIP712Domain", typedData.domain),
+        hashStruct(types, typedData.primaryType, typedData.message)
+    ]));
+}
+
+/**
+ * Encodes an ECDSA signature as the 65 bytes r, s, v Ethereum signature, with v being 27 or 28
+ */
+export function toEthereumSignature(signature: EcdsaSignature, recoveryId: number): string {
+    return bytesToHex(Buffer.concat([bigIntToBytes(signature.r), bigIntToBytes(signature.s), Buffer.from([normalizeRecoveryId(recoveryId) + 27])]));
+}
+
+/**
+ * Recovers the checksummed address that produced a 65 bytes Ethereum signature over a digest
+ */
+export function recoverAddress(digest: Buffer, signature: string): string {
+    const bytes = hexToBytes(signature);
+    if (bytes.length !== 65) {
+        throw new FireblocksError("An Ethereum signature must be 65 bytes long");
+    }
+
+    const point = recoverPublicKey(SECP256K1, digest, { r: bytesToBigInt(bytes.slice(0, 32)), s: bytesToBigInt(bytes.slice(32, 64)) }, normalizeRecoveryId(bytes[64]));
+    if (!point) {
+        throw new FireblocksError("Invalid Ethereum signature");
+    }
+    return publicKeyToAddress(encodePublicKey(point, false));
+}
+
+function normalizeRecoveryId(v: number): number {
+    return v >= 27 ? v - 27 : v;
+}
+
+function domainFields(domain: TypedDataDomain): TypedDataField[] {
+    return EIP712_DOMAIN_FIELDS.filter(field => (domain as any)[field.name] !== undefined);
+}
+
+function hashStruct(types: { [typeName: string]: TypedDataField[] }, typeName: string, data: { [field: string]: any }): Buffer {
+    const fields = types[typeName];
+    if (!fields) {
+        throw new FireblocksError(`Unknown EIP-712 type: ${typeName}`);
+    }
+
+    const typeHash = keccak256(encodeType(types, typeName));
+    return keccak256(Buffer.concat([typeHash, ...fields.map(field => encodeValue(types, field.type, data[field.name]))]));
+}
+
+function encodeType(types: { [typeName: string]: TypedDataField[] }, typeName: string): string {
+    const dependencies = findDependencies(types, typeName, []).filter(dependency => dependency !== typeName).sort();
+    return [typeName, ...dependencies]
+        .map(name => `${name}(${types[name].map(field => `${field.type} ${field.name}`).join(",")})`)
+        .join("");
+}
+
+function findDependencies(types: { [typeName: string]: TypedDataField[] }, typeName: string, found: string[]): string[] {
+    const baseType = typeName.replace(/\[\d*\]$/, "");
+    if (baseType !== typeName) {
+        return findDependencies(types, baseType, found);
+    }
+    if (!types[typeName] || found.indexOf(typeName) !== -1) {
+        return found;
+    }
+
+    found.push(typeName);
+    types[typeName].forEach(field => findDependencies(types, field.type, found));
+    return found;
+}
+
+function encodeValue(types: { [typeName: string]: TypedDataField[] }, type: string, value: any): Buffer {
+    if (value === undefined) {
+        throw new FireblocksError(`Missing EIP-712 value of type ${type}`);
+    }
+
+    const arrayMatch = /^(.*)\[(\d*)\]$/.exec(type);
+    if (arrayMatch) {
+        if (!Array.isArray(value) || (arrayMatch[2] && value.length !== Number(arrayMatch[2]))) {
+            throw new FireblocksError(`Invalid EIP-712 value of type ${type}`);
+        }
+        return keccak256(Buffer.concat(value.map(item => encodeValue(types, arrayMatch[1], item))));
+    }
+
+    if (types[type]) {
+        return hashStruct(types, type, value);
+    }
+
+    switch (type) {
+        case "string":
+            return keccak256(Buffer.from(value, "utf8"));
+        case "bytes":
+            return keccak256(typeof value === "string" ? hexToBytes(value) : Buffer.from(value));
+        case "bool":
+            return encodeInteger(value === true || value === "true" ? 1 : 0, 256, false);
+        case "address":
+            return encodeInteger(bytesToBigInt(hexToBytes(value)), 160, false);
+    }
+
+    const bytesMatch = /^bytes(\d+)$/.exec(type);
+    if (bytesMatch) {
+        const bytes = typeof value === "string" ? hexToBytes(value) : Buffer.from(value);
+        if (bytes.length > Number(bytesMatch[1])) {
+            throw new FireblocksError(`Invalid EIP-712 value of type ${type}`);
+        }
+        return Buffer.concat([bytes, Buffer.alloc(32 - bytes.length)]);
+    }
+
+    const integerMatch = /^(u?)int(\d*)$/.exec(type);
+    if (integerMatch) {
+        return encodeInteger(value, Number(integerMatch[2] || 256), integerMatch[1] !== "u");
+    }
+
+    throw new FireblocksError(`Unsupported EIP-712 type: ${type}`);
+}
+
+/**
+ * Encodes an integer as a 32 bytes big endian word, in two's complement if signed
+ */
+export function encodeInteger(value: number | string | bigint, bits: number, signed: boolean): Buffer {
+    const integer = BigInt(value);
+    const limit = BigInt(1) << BigInt(signed ? bits - 1 : bits);
+    const min = signed ? -limit : BigInt(0);
+    if (integer < min || integer >= limit) {
+        throw new FireblocksError(`Value ${value} does not fit in ${signed ? "int" : "uint"}${bits}`);
+    }
+
+    return bigIntToBytes(integer < BigInt(0) ? (BigInt(1) << BigInt(256)) + integer : integer);
+}
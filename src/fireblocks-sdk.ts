@@ -1,6 +1,19 @@
-import { ApiClient } from "./api-client";
+import { ApiClient, ApiClientOptions } from "./api-client";
 import { ApiTokenProvider } from "./api-token-provider";
+import { FireblocksError, SignatureVerificationError } from "./errors";
 import { IAuthProvider } from "./iauth-provider";
+import { waitForTransaction } from "./transaction-waiter";
+import { fromBaseUnits, toBaseUnits } from "./decimal";
+import { parseEcdsaSignature, verifySignedMessage } from "./raw-signing";
+import { encodeFunctionCall } from "./abi";
+import { TransactionBuilder } from "./transaction-builder";
+import { batchPayout } from "./batch-payout";
+import { takeBalanceSnapshot } from "./balance-snapshot";
+import { exportTransactions } from "./transaction-exporter";
+import { TransactionWatcher } from "./transaction-watcher";
+import { DepositMonitor } from "./deposit-monitor";
+import { Writable } from "stream";
+import { hashPersonalMessage, hashTypedData, publicKeyToAddress, recoverAddress, toEthereumSignature } from "./ethereum";
 import {
     VaultAccountResponse,
     CreateTransactionResponse,
@@ -39,49 +52,181 @@ import {
     User,
     TransactionPageResponse,
     TransactionPageFilter,
+    TransactionIteratorOptions,
+    PageDirection,
+    WaitForTransactionOptions,
     InternalWalletAsset,
     ExternalWalletAsset,
-    OffExchangeEntityResponse
+    OffExchangeEntityResponse,
+    FireblocksEnvironment,
+    PeerType,
+    RawMessage,
+    SignedMessageResponse,
+    SigningAlgorithm,
+    SignRawMessagesOptions,
+    TransactionOperation,
+    PublicKeyInfoResponse,
+    TypedData,
+    TypedMessage,
+    TypedMessageType,
+    SignTypedMessageOptions,
+    EthereumSignature,
+    ContractCallArgs,
+    ContractCallResponse,
+    PayoutItem,
+    PayoutItemResult,
+    BatchPayoutOptions,
+    TransferPeerPath,
+    BalanceSnapshot,
+    BalanceSnapshotOptions,
+    TransactionExportOptions,
+    TransactionExportSummary,
+    TransactionWatchFilter,
+    TransactionWatchOptions,
+    DepositMonitorOptions
 } from "./types";
 
 export * from "./types";
+export * from "./errors";
+export { IAuthProvider } from "./iauth-provider";
+export { ApiTokenProvider } from "./api-token-provider";
+export * from "./remote-signer-auth-provider";
+export { RetryOptions } from "./retry";
+export * from "./request-hooks";
+export { normalizeDecimal, toBaseUnits, fromBaseUnits, addDecimals, subtractDecimals, compareDecimals, asDecimalTransaction } from "./decimal";
+export { RateLimitOptions } from "./rate-limiter";
+export { isTerminalTransactionStatus } from "./transaction-waiter";
+export * from "./transaction-builder";
+export * from "./webhook-handler";
+export * from "./webhook-middleware";
+export * from "./webhook-test-signer";
+export { verifySignedMessage } from "./raw-signing";
+export { hashPersonalMessage, hashTypedData, publicKeyToAddress, recoverAddress, toChecksumAddress } from "./ethereum";
+export * from "./abi";
+export * from "./eip1193-provider";
+export { MULTI_DESTINATION_ASSETS } from "./batch-payout";
+export { diffSnapshots, exportSnapshot, exportSnapshotDiff, ExportFormat } from "./balance-snapshot";
+export { DEFAULT_TRANSACTION_EXPORT_COLUMNS } from "./transaction-exporter";
+export * from "./transaction-watcher";
+export * from "./deposit-monitor";
+export * from "./mock-server";
+export * from "./fixtures";
+export { validateResponse } from "./response-validator";
 import queryString from "query-string";
 
+export const FIREBLOCKS_API_URLS: { [environment in FireblocksEnvironment]: string } = {
+    [FireblocksEnvironment.PRODUCTION]: "https://api.fireblocks.io",
+    [FireblocksEnvironment.SANDBOX]: "https://sandbox-api.fireblocks.io"
+};
+
+export interface SDKOptions extends ApiClientOptions {
+    /**
+     * Selects the API server when no apiBaseUrl is given. Defaults to production
+     */
+    environment?: FireblocksEnvironment;
+}
+
+export interface FireblocksSDKConfig extends SDKOptions {
+    /**
+     * Your api key. This is a uuid you received from Fireblocks
+     */
+    apiKey: string;
+    /**
+     * A string representation of your private key. Not needed when an authProvider is given
+     */
+    privateKey?: string;
+    /**
+     * The fireblocks server URL. Takes precedence over the environment
+     */
+    apiBaseUrl?: string;
+    /**
+     * A custom authentication provider to use instead of signing with the private key
+     */
+    authProvider?: IAuthProvider;
+}
+
 export class FireblocksSDK {
 
     private authProvider: IAuthProvider;
     private apiBaseUrl: string;
     private apiClient: ApiClient;
+    private supportedAssets?: Promise<AssetTypeResponse[]>;
 
+    /**
+     * Creates a new Fireblocks API Client
+     * @param config The credentials and options of the client
+     */
+    constructor(config: FireblocksSDKConfig);
     /**
      * Creates a new Fireblocks API Client
      * @param privateKey A string representation of your private key
      * @param apiKey Your api key. This is a uuid you received from Fireblocks
      * @param apiBaseUrl The fireblocks server URL. Leave empty to use the default server
+     * @param authProvider A custom authentication provider to use instead of signing with the private key
+     * @param sdkOptions Additional options, e.g. the retry policy
+     */
+    constructor(privateKey: string, apiKey: string, apiBaseUrl?: string, authProvider?: IAuthProvider, sdkOptions?: SDKOptions);
+    constructor(privateKeyOrConfig: string | FireblocksSDKConfig, apiKey?: string, apiBaseUrl?: string, authProvider?: IAuthProvider, sdkOptions: SDKOptions = {}) {
+        const config: FireblocksSDKConfig = privateKeyOrConfig && typeof privateKeyOrConfig === "object" ?
+            privateKeyOrConfig :
+            { ...sdkOptions, privateKey: privateKeyOrConfig as string, apiKey, apiBaseUrl, authProvider };
+
+        this.authProvider = config.authProvider ?? new ApiTokenProvider(config.privateKey, config.apiKey);
+        this.apiBaseUrl = config.apiBaseUrl || FIREBLOCKS_API_URLS[config.environment ?? FireblocksEnvironment.PRODUCTION];
+        this.apiClient = new ApiClient(this.authProvider, this.apiBaseUrl, config);
+    }
+
+    /**
+     * Gets all assets that are currently supported by Fireblocks
+     * @param requestOptions Request options such as a timeout
+     */
+    public async getSupportedAssets(requestOptions?: RequestOptions): Promise<AssetTypeResponse[]> {
+        return await this.apiClient.issueGetRequest("/v1/supported_assets", false, requestOptions);
+    }
+
+    /**
+     * Gets the number of decimals of an asset. The supported assets are fetched once and cached
+     * @param assetId The ID of the asset
      */
-    constructor(privateKey: string, apiKey: string, apiBaseUrl: string = "https://api.fireblocks.io", authProvider: IAuthProvider = undefined) {
-        this.authProvider = authProvider ?? new ApiTokenProvider(privateKey, apiKey);
+    public async getAssetDecimals(assetId: string): Promise<number> {
+        if (!this.supportedAssets) {
+            this.supportedAssets = this.getSupportedAssets();
+            this.supportedAssets.catch(() => this.supportedAssets = undefined);
+        }
 
-        if (apiBaseUrl) {
-            this.apiBaseUrl = apiBaseUrl;
+        const asset = (await this.supportedAssets).find(a => a.id === assetId);
+        if (asset?.decimals === undefined) {
+            throw new FireblocksError(`The number of decimals of ${assetId} is unknown`);
         }
 
-        this.apiClient = new ApiClient(this.authProvider, this.apiBaseUrl);
+        return asset.decimals;
     }
 
     /**
-     * Gets all assets that are currently supported by Fireblocks
+     * Converts an amount of an asset from human units (e.g. "1.5" ETH) to base units (e.g. "1500000000000000000" wei)
+     * @param assetId The ID of the asset
+     * @param amount The amount in human units
      */
-    public async getSupportedAssets(): Promise<AssetTypeResponse[]> {
-        return await this.apiClient.issueGetRequest("/v1/supported_assets");
+    public async toBaseUnits(assetId: string, amount: number | string): Promise<string> {
+        return toBaseUnits(amount, await this.getAssetDecimals(assetId));
+    }
+
+    /**
+     * Converts an amount of an asset from base units (e.g. "1500000000000000000" wei) to human units (e.g. "1.5" ETH)
+     * @param assetId The ID of the asset
+     * @param amount The amount in base units
+     */
+    public async fromBaseUnits(assetId: string, amount: number | string): Promise<string> {
+        return fromBaseUnits(amount, await this.getAssetDecimals(assetId));
     }
 
     /**
      * Gets all vault accounts for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getVaultAccounts(filter?: VaultAccountsFilter): Promise<VaultAccountResponse[]> {
+    public async getVaultAccounts(filter?: VaultAccountsFilter, requestOptions?: RequestOptions): Promise<VaultAccountResponse[]> {
         const url = `/v1/vault/accounts?${queryString.stringify(filter)}`;
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
@@ -93,39 +238,53 @@ export class FireblocksSDK {
         return await this.getVaultAccountById(vaultAccountId);
     }
 
+    /**
+     * Reads the balances of every vault account, exchange account, fiat account, internal wallet and off exchange account
+     * into one structure keyed by account and asset. Compare two snapshots with diffSnapshots
+     * @param options.accountTypes The account types to include, defaults to all
+     * @param options.includeZeroBalances Include assets whose balances are all zero
+     */
+    public async takeBalanceSnapshot(options?: BalanceSnapshotOptions): Promise<BalanceSnapshot> {
+        return await takeBalanceSnapshot(this, options);
+    }
+
     /**
      * Gets a single vault account
      * @param vaultAccountId The vault account ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getVaultAccountById(vaultAccountId: string): Promise<VaultAccountResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}`);
+    public async getVaultAccountById(vaultAccountId: string, requestOptions?: RequestOptions): Promise<VaultAccountResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}`, false, requestOptions);
     }
 
     /**
      * Gets a single vault account asset
      * @param vaultAccountId The vault account ID
      * @param assetId The ID of the asset to get
+     * @param requestOptions Request options such as a timeout
      */
-    public async getVaultAccountAsset(vaultAccountId: string, assetId: string): Promise<AssetResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}`);
+    public async getVaultAccountAsset(vaultAccountId: string, assetId: string, requestOptions?: RequestOptions): Promise<AssetResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}`, false, requestOptions);
     }
 
     /**
      * Gets deposit addresses for an asset in a vault account
      * @param vaultAccountId The vault account ID
      * @param assetId The ID of the asset for which to get the deposit address
+     * @param requestOptions Request options such as a timeout
      */
-    public async getDepositAddresses(vaultAccountId: string, assetId: string): Promise<DepositAddressResponse[]> {
-        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses`);
+    public async getDepositAddresses(vaultAccountId: string, assetId: string, requestOptions?: RequestOptions): Promise<DepositAddressResponse[]> {
+        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses`, false, requestOptions);
     }
 
     /**
      * Gets utxo list for an asset in a vault account
      * @param vaultAccountId The vault account ID
      * @param assetId The ID of the asset for which to get the utxo list
+     * @param requestOptions Request options such as a timeout
      */
-    public async getUnspentInputs(vaultAccountId: string, assetId: string): Promise<DepositAddressResponse[]> {
-        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/unspent_inputs`);
+    public async getUnspentInputs(vaultAccountId: string, assetId: string, requestOptions?: RequestOptions): Promise<DepositAddressResponse[]> {
+        return await this.apiClient.issueGetRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/unspent_inputs`, false, requestOptions);
     }
 
     /**
@@ -134,12 +293,13 @@ export class FireblocksSDK {
      * @param assetId The ID of the asset for which to generate the deposit address
      * @param description A description for the new address
      * @param customerRefId A customer reference ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async generateNewAddress(vaultAccountId: string, assetId: string, description?: string, customerRefId?: string): Promise<GenerateAddressResponse> {
+    public async generateNewAddress(vaultAccountId: string, assetId: string, description?: string, customerRefId?: string, requestOptions?: RequestOptions): Promise<GenerateAddressResponse> {
         return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses`, {
             description,
             customerRefId
-        });
+        }, requestOptions);
     }
 
     /**
@@ -149,8 +309,9 @@ export class FireblocksSDK {
      * @param address The address for which to set the description
      * @param tag The XRP tag, or EOS memo, for which to set the description
      * @param description The description to set
+     * @param requestOptions Request options such as a timeout
      */
-    public async setAddressDescription(vaultAccountId: string, assetId: string, address: string, tag?: string, description?: string): Promise<GenerateAddressResponse> {
+    public async setAddressDescription(vaultAccountId: string, assetId: string, address: string, tag?: string, description?: string, requestOptions?: RequestOptions): Promise<GenerateAddressResponse> {
         let addressId = address;
         if (tag && tag.length > 0) {
             addressId = `${address}:${tag}`;
@@ -158,28 +319,31 @@ export class FireblocksSDK {
 
         return await this.apiClient.issuePutRequest(
             `/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses/${addressId}`,
-            {description: description || ""});
+            {description: description || ""}, requestOptions);
     }
 
     /**
      * Gets all network connections
+     * @param requestOptions Request options such as a timeout
      */
-    public async getNetworkConnections(): Promise<NetworkConnectionResponse[]> {
-        return await this.apiClient.issueGetRequest("/v1/network_connections");
+    public async getNetworkConnections(requestOptions?: RequestOptions): Promise<NetworkConnectionResponse[]> {
+        return await this.apiClient.issueGetRequest("/v1/network_connections", false, requestOptions);
     }
 
     /**
      * Gets a single network connection by id
+     * @param requestOptions Request options such as a timeout
      */
-    public async getNetworkConnectionById(connectionId: string): Promise<NetworkConnectionResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/network_connections/${connectionId}`);
+    public async getNetworkConnectionById(connectionId: string, requestOptions?: RequestOptions): Promise<NetworkConnectionResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/network_connections/${connectionId}`, false, requestOptions);
     }
 
     /**
      * Gets all exchange accounts for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getExchangeAccounts(): Promise<ExchangeResponse[]> {
-        return await this.apiClient.issueGetRequest("/v1/exchange_accounts");
+    public async getExchangeAccounts(requestOptions?: RequestOptions): Promise<ExchangeResponse[]> {
+        return await this.apiClient.issueGetRequest("/v1/exchange_accounts", false, requestOptions);
     }
 
     /**
@@ -194,9 +358,10 @@ export class FireblocksSDK {
     /**
      * Gets a single exchange account by ID
      * @param exchangeAccountId The exchange account ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getExchangeAccountById(exchangeAccountId: string): Promise<ExchangeResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/exchange_accounts/${exchangeAccountId}`);
+    public async getExchangeAccountById(exchangeAccountId: string, requestOptions?: RequestOptions): Promise<ExchangeResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/exchange_accounts/${exchangeAccountId}`, false, requestOptions);
     }
 
     /**
@@ -205,14 +370,15 @@ export class FireblocksSDK {
      * @param subaccountId The ID of the subaccount in the exchange
      * @param assetId The asset to transfer
      * @param amount The amount to transfer
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async transferToSubaccount(exchangeAccountId: string, subaccountId: string, assetId: string, amount: number): Promise<OperationSuccessResponse> {
+    public async transferToSubaccount(exchangeAccountId: string, subaccountId: string, assetId: string, amount: number | string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         const body = {
             subaccountId,
             amount
         };
 
-        return await this.apiClient.issuePostRequest(`/v1/exchange_accounts/${exchangeAccountId}/${assetId}/transfer_to_subaccount`, body);
+        return await this.apiClient.issuePostRequest(`/v1/exchange_accounts/${exchangeAccountId}/${assetId}/transfer_to_subaccount`, body, requestOptions);
     }
 
     /**
@@ -221,55 +387,60 @@ export class FireblocksSDK {
      * @param subaccountId The ID of the subaccount in the exchange
      * @param assetId The asset to transfer
      * @param amount The amount to transfer
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async transferFromSubaccount(exchangeAccountId: string, subaccountId: string, assetId: string, amount: number): Promise<OperationSuccessResponse> {
+    public async transferFromSubaccount(exchangeAccountId: string, subaccountId: string, assetId: string, amount: number | string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         const body = {
             subaccountId,
             amount
         };
 
-        return await this.apiClient.issuePostRequest(`/v1/exchange_accounts/${exchangeAccountId}/${assetId}/transfer_from_subaccount`, body);
+        return await this.apiClient.issuePostRequest(`/v1/exchange_accounts/${exchangeAccountId}/${assetId}/transfer_from_subaccount`, body, requestOptions);
     }
 
     /**
      * Gets all fiat accounts for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getFiatAccounts(): Promise<FiatAccountResponse[]> {
-        return await this.apiClient.issueGetRequest("/v1/fiat_accounts");
+    public async getFiatAccounts(requestOptions?: RequestOptions): Promise<FiatAccountResponse[]> {
+        return await this.apiClient.issueGetRequest("/v1/fiat_accounts", false, requestOptions);
     }
 
     /**
      * Gets a single fiat account by ID
      * @param accountId The fiat account ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getFiatAccountById(accountId: string): Promise<FiatAccountResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/fiat_accounts/${accountId}`);
+    public async getFiatAccountById(accountId: string, requestOptions?: RequestOptions): Promise<FiatAccountResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/fiat_accounts/${accountId}`, false, requestOptions);
     }
 
     /**
      * Redeem from a fiat account to a linked DDA
      * @param accountId The fiat account ID in Fireblocks
      * @param amount The amount to transfer
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async redeemToLinkedDDA(accountId: string, amount: number): Promise<OperationSuccessResponse> {
+    public async redeemToLinkedDDA(accountId: string, amount: number | string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         const body = {
             amount
         };
 
-        return await this.apiClient.issuePostRequest(`/v1/fiat_accounts/${accountId}/redeem_to_linked_dda`, body);
+        return await this.apiClient.issuePostRequest(`/v1/fiat_accounts/${accountId}/redeem_to_linked_dda`, body, requestOptions);
     }
 
     /**
      * Deposit to a fiat account from a linked DDA
      * @param accountId The fiat account ID in Fireblocks
      * @param amount The amount to transfer
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async depositFromLinkedDDA(accountId: string, amount: number): Promise<OperationSuccessResponse> {
+    public async depositFromLinkedDDA(accountId: string, amount: number | string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         const body = {
             amount
         };
 
-        return await this.apiClient.issuePostRequest(`/v1/fiat_accounts/${accountId}/deposit_from_linked_dda`, body);
+        return await this.apiClient.issuePostRequest(`/v1/fiat_accounts/${accountId}/deposit_from_linked_dda`, body, requestOptions);
     }
 
     /**
@@ -279,98 +450,300 @@ export class FireblocksSDK {
      * @param filter.status Only gets transactions with the spcified status
      * @param filter.limit Limit the amount of returned results. If not specified, a limit of 200 results will be used
      * @param filter.orderBy Determines the order of the results
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransactions(filter: TransactionFilter): Promise<TransactionResponse[]> {
-        return await this.apiClient.issueGetRequest(`/v1/transactions?${queryString.stringify(filter)}`);
+    public async getTransactions(filter: TransactionFilter, requestOptions?: RequestOptions): Promise<TransactionResponse[]> {
+        return await this.apiClient.issueGetRequest(`/v1/transactions?${queryString.stringify(filter)}`, false, requestOptions);
     }
 
     /**
      * Gets a list of transactions per page matching the given filter or path
      * @param pageFilter Get transactions matching pageFilter params
      * @param nextOrPreviousPath Get transactions from each of pageDetails paths
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransactionsWithPageInfo(pageFilter?: TransactionPageFilter, nextOrPreviousPath?: string): Promise<TransactionPageResponse> {
+    public async getTransactionsWithPageInfo(pageFilter?: TransactionPageFilter, nextOrPreviousPath?: string, requestOptions?: RequestOptions): Promise<TransactionPageResponse> {
         if (pageFilter) {
-            return await this.apiClient.issueGetRequest(`/v1/transactions?${queryString.stringify(pageFilter)}`, true);
+            return await this.apiClient.issueGetRequest(`/v1/transactions?${queryString.stringify(pageFilter)}`, true, requestOptions);
         } else if (nextOrPreviousPath) {
             const index = nextOrPreviousPath.indexOf("/v1/");
             const path = nextOrPreviousPath.substring(index, nextOrPreviousPath.length);
-            return await this.apiClient.issueGetRequest(path, true);
+            return await this.apiClient.issueGetRequest(path, true, requestOptions);
         }
 
         return {transactions: [], pageDetails: { prevPage:  "", nextPage: "" }};
     }
 
+    /**
+     * Iterates over all the pages of transactions matching the given filter, following the page cursors until exhausted
+     * @param pageFilter Get transactions matching pageFilter params
+     * @param options.direction Follow the next-page (default) or prev-page cursor
+     * @param options.maxItems Stop after this many transactions were returned
+     */
+    public async *iterateTransactionPages(pageFilter: TransactionPageFilter = {}, options: TransactionIteratorOptions = {}): AsyncIterable<TransactionPageResponse> {
+        let remaining = options.maxItems ?? Infinity;
+        if (remaining <= 0) {
+            return;
+        }
+        let page = await this.getTransactionsWithPageInfo(pageFilter);
+
+        while (true) {
+            if (page.transactions.length > remaining) {
+                page = {...page, transactions: page.transactions.slice(0, remaining)};
+            }
+            remaining -= page.transactions.length;
+
+            if (page.transactions.length > 0) {
+                yield page;
+            }
+
+            const cursor = options.direction === PageDirection.PREV ? page.pageDetails.prevPage : page.pageDetails.nextPage;
+            if (!cursor || remaining <= 0) {
+                return;
+            }
+            page = await this.getTransactionsWithPageInfo(undefined, cursor);
+        }
+    }
+
+    /**
+     * Iterates over all the transactions matching the given filter, following the page cursors until exhausted
+     * @param pageFilter Get transactions matching pageFilter params
+     * @param options.direction Follow the next-page (default) or prev-page cursor
+     * @param options.maxItems Stop after this many transactions were returned
+     */
+    public async *iterateTransactions(pageFilter: TransactionPageFilter = {}, options: TransactionIteratorOptions = {}): AsyncIterable<TransactionResponse> {
+        for await (const page of this.iterateTransactionPages(pageFilter, options)) {
+            yield* page.transactions;
+        }
+    }
+
+    /**
+     * Streams the transactions matching a filter to a writable as CSV or JSON Lines, one page at a time. The output is not ended
+     * @param output Any Node writable, e.g. a file stream
+     * @param options.format CSV or JSON Lines
+     * @param options.columns The columns to write, as paths into the transaction or computed values
+     * @param options.chunkMs Query the time range of the filter in windows of this many milliseconds
+     */
+    public async exportTransactions(output: Writable, options: TransactionExportOptions): Promise<TransactionExportSummary> {
+        return await exportTransactions(this, output, options);
+    }
+
+    /**
+     * Watches the transactions matching a filter by polling, as an alternative to webhooks. Call stop() on the returned watcher when done
+     * @param filter The transactions to watch
+     * @param options.pollIntervalMs The delay between polls
+     * @param options.checkpointStore Persists the watermark so that a restarted watcher resumes without gaps
+     */
+    public watchTransactions(filter: TransactionWatchFilter = {}, options: TransactionWatchOptions = {}): TransactionWatcher {
+        return new TransactionWatcher(this, filter, options).start();
+    }
+
+    /**
+     * Monitors the deposits into a vault account, emitting "seen", "confirmed" and "failed" events. Call stop() on the returned monitor when done
+     * @param options.vaultAccountId The vault account receiving the deposits
+     * @param options.requiredConfirmations The confirmations a deposit needs, per asset
+     * @param options.setConfirmationThreshold Set the required confirmations as the confirmation threshold of every new deposit
+     */
+    public monitorDeposits(options: DepositMonitorOptions): DepositMonitor {
+        return new DepositMonitor(this, options).start();
+    }
+
     /**
      * Gets a transaction matching the external transaction id provided
      * @param externalTxId
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransactionByExternalTxId(externalTxId: string): Promise<TransactionResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/transactions/external_tx_id/${externalTxId}`);
+    public async getTransactionByExternalTxId(externalTxId: string, requestOptions?: RequestOptions): Promise<TransactionResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/transactions/external_tx_id/${externalTxId}`, false, requestOptions);
     }
 
     /**
      * Gets all internal wallets for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getInternalWallets(): Promise<WalletContainerResponse<InternalWalletAsset>[]> {
-        return await this.apiClient.issueGetRequest("/v1/internal_wallets");
+    public async getInternalWallets(requestOptions?: RequestOptions): Promise<WalletContainerResponse<InternalWalletAsset>[]> {
+        return await this.apiClient.issueGetRequest("/v1/internal_wallets", false, requestOptions);
     }
 
     /**
      * Gets a single internal wallet
      * @param walletId The internal wallet ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getInternalWallet(walletId: string): Promise<WalletContainerResponse<InternalWalletAsset>> {
-        return await this.apiClient.issueGetRequest(`/v1/internal_wallets/${walletId}`);
+    public async getInternalWallet(walletId: string, requestOptions?: RequestOptions): Promise<WalletContainerResponse<InternalWalletAsset>> {
+        return await this.apiClient.issueGetRequest(`/v1/internal_wallets/${walletId}`, false, requestOptions);
     }
 
     /**
      * Gets a single internal wallet asset
      * @param walletId The internal wallet ID
      * @param assetId The asset ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getInternalWalletAsset(walletId: string, assetId: string): Promise<InternalWalletAsset> {
-        return await this.apiClient.issueGetRequest(`/v1/internal_wallets/${walletId}/${assetId}`);
+    public async getInternalWalletAsset(walletId: string, assetId: string, requestOptions?: RequestOptions): Promise<InternalWalletAsset> {
+        return await this.apiClient.issueGetRequest(`/v1/internal_wallets/${walletId}/${assetId}`, false, requestOptions);
     }
 
     /**
      * Gets all external wallets for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getExternalWallets(): Promise<WalletContainerResponse<ExternalWalletAsset>[]> {
-        return await this.apiClient.issueGetRequest("/v1/external_wallets");
+    public async getExternalWallets(requestOptions?: RequestOptions): Promise<WalletContainerResponse<ExternalWalletAsset>[]> {
+        return await this.apiClient.issueGetRequest("/v1/external_wallets", false, requestOptions);
     }
 
     /**
      * Gets a single external wallet
      * @param walletId The external wallet ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getExternalWallet(walletId: string): Promise<WalletContainerResponse<ExternalWalletAsset>> {
-        return await this.apiClient.issueGetRequest(`/v1/external_wallets/${walletId}`);
+    public async getExternalWallet(walletId: string, requestOptions?: RequestOptions): Promise<WalletContainerResponse<ExternalWalletAsset>> {
+        return await this.apiClient.issueGetRequest(`/v1/external_wallets/${walletId}`, false, requestOptions);
     }
 
     /**
      * Gets a single external wallet asset
      * @param walletId The external wallet ID
      * @param assetId The asset ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async getExternalWalletAsset(walletId: string, assetId: string): Promise<ExternalWalletAsset> {
-        return await this.apiClient.issueGetRequest(`/v1/external_wallets/${walletId}/${assetId}`);
+    public async getExternalWalletAsset(walletId: string, assetId: string, requestOptions?: RequestOptions): Promise<ExternalWalletAsset> {
+        return await this.apiClient.issueGetRequest(`/v1/external_wallets/${walletId}/${assetId}`, false, requestOptions);
     }
 
     /**
      * Gets detailed information for a single transaction
      * @param txId The transaction id to query
+     * @param requestOptions Request options such as a timeout
+     */
+    public async getTransactionById(txId: string, requestOptions?: RequestOptions): Promise<TransactionResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/transactions/${txId}`, false, requestOptions);
+    }
+
+    /**
+     * Polls a transaction until it completes or reaches one of the target statuses
+     * @param txId The transaction id to wait for
+     * @param options.targetStatuses Resolve once the transaction reaches one of these statuses
+     * @param options.timeoutMs Give up after this many milliseconds
+     * @param options.signal Stop waiting when aborted
+     * @param options.onStatusChange Called every time a new status of the transaction is observed
+     * @throws TransactionFailedError if the transaction ends unsuccessfully
+     */
+    public async waitForTransaction(txId: string, options?: WaitForTransactionOptions): Promise<TransactionResponse> {
+        return await waitForTransaction((id, signal) => this.getTransactionById(id, { signal }), txId, options);
+    }
+
+    /**
+     * Signs raw messages from a vault account, waits for the RAW transaction to complete and returns the signatures
+     * @param vaultAccountId The vault account to sign with
+     * @param assetId The asset whose key signs the messages
+     * @param messages The messages to sign, either hex encoded contents or raw messages with derivation details
+     * @param algorithm The signing algorithm
+     * @param options.verify Verify every signature against its public key, defaults to true
+     * @throws SignatureVerificationError if a returned signature does not verify
+     */
+    public async signRawMessages(vaultAccountId: string, assetId: string, messages: (RawMessage | string)[], algorithm?: SigningAlgorithm, options: SignRawMessagesOptions = {}): Promise<SignedMessageResponse[]> {
+        const { id } = await this.createTransaction({
+            operation: TransactionOperation.RAW,
+            assetId,
+            source: { type: PeerType.VAULT_ACCOUNT, id: vaultAccountId },
+            note: options.note,
+            extraParameters: {
+                rawMessageData: {
+                    messages: messages.map(message => typeof message === "string" ? { content: message } : message),
+                    algorithm
+                }
+            }
+        }, options.requestOptions);
+
+        const transaction = await this.waitForTransaction(id, options.waitOptions);
+        const signedMessages = transaction.signedMessages ?? [];
+
+        if (options.verify ?? true) {
+            signedMessages.forEach(signedMessage => {
+                if (!verifySignedMessage(signedMessage, algorithm)) {
+                    throw new SignatureVerificationError(`Signature of message ${signedMessage.content} in transaction ${id} does not verify against public key ${signedMessage.publicKey}`);
+                }
+            });
+        }
+
+        return signedMessages;
+    }
+
+    /**
+     * Signs a message with personal_sign semantics from a vault account, returning a 65 bytes Ethereum signature
+     * @param vaultAccountId The vault account to sign with
+     * @param assetId An EVM based asset, e.g. ETH
+     * @param message A UTF-8 string, or raw bytes
+     * @param options.verify Check that the signature recovers to the address of the vault account, defaults to true
+     * @throws SignatureVerificationError if the signature does not recover to the vault account's address
+     */
+    public async signEthereumMessage(vaultAccountId: string, assetId: string, message: string | Buffer, options: SignTypedMessageOptions = {}): Promise<EthereumSignature> {
+        const bytes = typeof message === "string" ? Buffer.from(message, "utf8") : message;
+        return await this.signTypedMessage(vaultAccountId, assetId, { type: TypedMessageType.ETH_MESSAGE, content: bytes.toString("hex") }, hashPersonalMessage(bytes), options);
+    }
+
+    /**
+     * Signs EIP-712 typed data from a vault account, returning a 65 bytes Ethereum signature
+     * @param vaultAccountId The vault account to sign with
+     * @param assetId An EVM based asset, e.g. ETH
+     * @param typedData The domain, types, primary type and message to sign
+     * @param options.verify Check that the signature recovers to the address of the vault account, defaults to true
+     * @throws SignatureVerificationError if the signature does not recover to the vault account's address
      */
-    public async getTransactionById(txId: string): Promise<TransactionResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/transactions/${txId}`);
+    public async signTypedData(vaultAccountId: string, assetId: string, typedData: TypedData, options: SignTypedMessageOptions = {}): Promise<EthereumSignature> {
+        return await this.signTypedMessage(vaultAccountId, assetId, { type: TypedMessageType.EIP712, content: typedData }, hashTypedData(typedData), options);
+    }
+
+    private async signTypedMessage(vaultAccountId: string, assetId: string, message: TypedMessage, digest: Buffer, options: SignTypedMessageOptions): Promise<EthereumSignature> {
+        const addressIndex = options.addressIndex ?? 0;
+        const { id } = await this.createTransaction({
+            operation: TransactionOperation.TYPED_MESSAGE,
+            assetId,
+            source: { type: PeerType.VAULT_ACCOUNT, id: vaultAccountId },
+            note: options.note,
+            extraParameters: {
+                rawMessageData: {
+                    messages: [{ ...message, index: addressIndex }]
+                }
+            }
+        }, options.requestOptions);
+
+        const transaction = await this.waitForTransaction(id, options.waitOptions);
+        const signedMessage = transaction.signedMessages?.[0];
+        const signature = signedMessage && parseEcdsaSignature(signedMessage.signature);
+        if (!signature || signedMessage.signature.v === undefined) {
+            throw new SignatureVerificationError(`Transaction ${id} did not return an ECDSA signature`);
+        }
+
+        const ethereumSignature = toEthereumSignature(signature, signedMessage.signature.v);
+        const address = recoverAddress(digest, ethereumSignature);
+
+        if (options.verify ?? true) {
+            const { publicKey } = await this.getPublicKeyInfoForVaultAccount({ vaultAccountId: Number(vaultAccountId), assetId, change: 0, addressIndex, compressed: true });
+            const expectedAddress = publicKeyToAddress(publicKey);
+            if (address !== expectedAddress) {
+                throw new SignatureVerificationError(`Signature of transaction ${id} recovers to ${address} instead of the vault account address ${expectedAddress}`);
+            }
+        }
+
+        return {
+            signature: ethereumSignature,
+            r: `0x${ethereumSignature.substring(2, 66)}`,
+            s: `0x${ethereumSignature.substring(66, 130)}`,
+            v: parseInt(ethereumSignature.substring(130), 16),
+            address,
+            txId: id
+        };
     }
 
     /**
      * Cancels the selected transaction
      * @param txId The transaction id to cancel
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async cancelTransactionById(txId: string): Promise<CancelTransactionResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/transactions/${txId}/cancel`, {});
+    public async cancelTransactionById(txId: string, requestOptions?: RequestOptions): Promise<CancelTransactionResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/transactions/${txId}/cancel`, {}, requestOptions);
     }
 
     /**
@@ -378,8 +751,9 @@ export class FireblocksSDK {
      * @param name A name for the new vault account
      * @param hiddenOnUI If true, the created account and all related transactions will not be shown on Fireblocks console
      * @param customerRefId A customer reference ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createVaultAccount(name: string, hiddenOnUI?: boolean, customerRefId?: string, autoFuel?: boolean): Promise<VaultAccountResponse> {
+    public async createVaultAccount(name: string, hiddenOnUI?: boolean, customerRefId?: string, autoFuel?: boolean, requestOptions?: RequestOptions): Promise<VaultAccountResponse> {
         const body = {
             name,
             customerRefId,
@@ -387,81 +761,88 @@ export class FireblocksSDK {
             autoFuel: autoFuel || false
         };
 
-        return await this.apiClient.issuePostRequest("/v1/vault/accounts", body);
+        return await this.apiClient.issuePostRequest("/v1/vault/accounts", body, requestOptions);
     }
 
     /**
      * Hides a vault account in Fireblocks console
      * @param vaultAccountId The vault account ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async hideVaultAccount(vaultAccountId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/hide`, {});
+    public async hideVaultAccount(vaultAccountId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/hide`, {}, requestOptions);
     }
 
     /**
      * Reveals a hidden vault account in Fireblocks console
      * @param vaultAccountId The vault account ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async unhideVaultAccount(vaultAccountId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/unhide`, {});
+    public async unhideVaultAccount(vaultAccountId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/unhide`, {}, requestOptions);
     }
 
     /**
      * Sets autoFuel to true/false for a vault account
      * @param vaultAccountId The vault account ID
      * @param autoFuel The new value for the autoFuel flag
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setAutoFuel(vaultAccountId: string, autoFuel: boolean): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/set_auto_fuel`, {autoFuel});
+    public async setAutoFuel(vaultAccountId: string, autoFuel: boolean, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/set_auto_fuel`, {autoFuel}, requestOptions);
     }
 
     /**
      * Updates a vault account
      * @param name A new name for the vault account
+     * @param requestOptions Request options such as a timeout
      */
-    public async updateVaultAccount(vaultAccountId: string, name: string): Promise<VaultAccountResponse> {
+    public async updateVaultAccount(vaultAccountId: string, name: string, requestOptions?: RequestOptions): Promise<VaultAccountResponse> {
         const body = {
             name: name
         };
 
-        return await this.apiClient.issuePutRequest(`/v1/vault/accounts/${vaultAccountId}`, body);
+        return await this.apiClient.issuePutRequest(`/v1/vault/accounts/${vaultAccountId}`, body, requestOptions);
     }
 
     /**
      * Creates a new asset within an existing vault account
      * @param vaultAccountId The vault account ID
      * @param assetId The asset to add
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createVaultAsset(vaultAccountId: string, assetId: string): Promise<CreateVaultAssetResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}`, {});
+    public async createVaultAsset(vaultAccountId: string, assetId: string, requestOptions?: RequestOptions): Promise<CreateVaultAssetResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}`, {}, requestOptions);
     }
 
     /**
      * Creates a new external wallet
      * @param name A name for the new external wallet
      * @param customerRefId A customer reference ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createExternalWallet(name: string, customerRefId?: string): Promise<WalletContainerResponse<ExternalWalletAsset>> {
+    public async createExternalWallet(name: string, customerRefId?: string, requestOptions?: RequestOptions): Promise<WalletContainerResponse<ExternalWalletAsset>> {
         const body = {
             name,
             customerRefId
         };
 
-        return await this.apiClient.issuePostRequest("/v1/external_wallets", body);
+        return await this.apiClient.issuePostRequest("/v1/external_wallets", body, requestOptions);
     }
 
     /**
      * Creates a new internal wallet
      * @param name A name for the new internal wallet
      * @param customerRefId A customer reference ID
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createInternalWallet(name: string, customerRefId?: string): Promise<WalletContainerResponse<InternalWalletAsset>> {
+    public async createInternalWallet(name: string, customerRefId?: string, requestOptions?: RequestOptions): Promise<WalletContainerResponse<InternalWalletAsset>> {
         const body = {
             name,
             customerRefId
         };
 
-        return await this.apiClient.issuePostRequest("/v1/internal_wallets", body);
+        return await this.apiClient.issuePostRequest("/v1/internal_wallets", body, requestOptions);
     }
 
     /**
@@ -470,15 +851,16 @@ export class FireblocksSDK {
      * @param assetId The asset to add
      * @param address The wallet address
      * @param tag (for ripple only) The ripple account tag
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createExternalWalletAsset(walletId: string, assetId: string, address: string, tag?: string): Promise<ExternalWalletAsset> {
+    public async createExternalWalletAsset(walletId: string, assetId: string, address: string, tag?: string, requestOptions?: RequestOptions): Promise<ExternalWalletAsset> {
         const path = `/v1/external_wallets/${walletId}/${assetId}`;
 
         const body = {
             address: address,
             tag: tag
         };
-        return await this.apiClient.issuePostRequest(path, body);
+        return await this.apiClient.issuePostRequest(path, body, requestOptions);
     }
 
     /**
@@ -487,15 +869,16 @@ export class FireblocksSDK {
      * @param assetId The asset to add
      * @param address The wallet address
      * @param tag (for ripple only) The ripple account tag
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async createInternalWalletAsset(walletId: string, assetId: string, address: string, tag?: string): Promise<InternalWalletAsset> {
+    public async createInternalWalletAsset(walletId: string, assetId: string, address: string, tag?: string, requestOptions?: RequestOptions): Promise<InternalWalletAsset> {
         const path = `/v1/internal_wallets/${walletId}/${assetId}`;
 
         const body = {
             address: address,
             tag: tag
         };
-        return await this.apiClient.issuePostRequest(path, body);
+        return await this.apiClient.issuePostRequest(path, body, requestOptions);
     }
 
     /**
@@ -505,57 +888,115 @@ export class FireblocksSDK {
         return await this.apiClient.issuePostRequest("/v1/transactions", transactionArguments, requestOptions);
     }
 
+    /**
+     * Encodes a contract function call from its ABI, estimates its fee and submits it as a CONTRACT_CALL transaction
+     * @param args.contractAddress The contract address, or args.destination for a whitelisted contract wallet
+     * @param args.method The name of the function, or its signature for overloaded functions
+     * @param args.value The amount of the base asset sent with the call
+     * @param requestOptions Request options such as an idempotency key
+     */
+    public async callContract(args: ContractCallArgs, requestOptions?: RequestOptions): Promise<ContractCallResponse> {
+        if (!args.destination === !args.contractAddress) {
+            throw new FireblocksError("Either contractAddress or destination is required");
+        }
+
+        const contractCallData = encodeFunctionCall(args.abi, args.method, args.args);
+        const builder = new TransactionBuilder(TransactionOperation.CONTRACT_CALL)
+            .asset(args.assetId)
+            .from(args.vaultAccountId)
+            .amount(args.value ?? "0")
+            .contractCallData(contractCallData);
+
+        if (args.destination) {
+            builder.to(args.destination);
+        } else {
+            builder.toOneTimeAddress(args.contractAddress);
+        }
+        if (args.feeLevel) {
+            builder.fee(args.feeLevel);
+        }
+        if (args.note) {
+            builder.note(args.note);
+        }
+        if (args.externalTxId) {
+            builder.externalTxId(args.externalTxId);
+        }
+
+        const transactionArguments = builder.build();
+        const feeEstimate = await this.estimateFeeForTransaction(transactionArguments);
+        const transaction = await this.createTransaction(transactionArguments, requestOptions);
+
+        return { ...transaction, contractCallData, feeEstimate };
+    }
+
+    /**
+     * Pays a batch of items from one source, with a result per item.
+     * Items are validated with validateAddress, and items of multi destination assets share transactions.
+     * Every transaction gets an externalTxId derived from options.batchId, so running a crashed batch again only submits what is missing
+     * @param source A vault account ID, or any source peer
+     * @param items The payouts
+     * @param options.batchId Identifies the batch across runs
+     */
+    public async batchPayout(source: string | TransferPeerPath, items: PayoutItem[], options: BatchPayoutOptions): Promise<PayoutItemResult[]> {
+        return await batchPayout(this, source, items, options);
+    }
+
     /**
      * Estimates the fee for a transaction request
      */
-    public async estimateFeeForTransaction(transactionArguments: TransactionArguments): Promise<EstimateTransactionFeeResponse> {
-        return await this.apiClient.issuePostRequest("/v1/transactions/estimate_fee", transactionArguments);
+    public async estimateFeeForTransaction(transactionArguments: TransactionArguments, requestOptions?: RequestOptions): Promise<EstimateTransactionFeeResponse> {
+        return await this.apiClient.issuePostRequest("/v1/transactions/estimate_fee", transactionArguments, requestOptions);
     }
 
     /**
      * Gets the estimated fees for an asset
+     * @param requestOptions Request options such as a timeout
      */
-    public async getFeeForAsset(asset: string): Promise<EstimateFeeResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/estimate_network_fee?assetId=${asset}`);
+    public async getFeeForAsset(asset: string, requestOptions?: RequestOptions): Promise<EstimateFeeResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/estimate_network_fee?assetId=${asset}`, false, requestOptions);
     }
 
     /**
      * Creates a new transfer ticket
      */
-    public async createTransferTicket(options: CreateTransferTicketArgs): Promise<CreateTransferTicketResponse> {
-        return await this.apiClient.issuePostRequest("/v1/transfer_tickets", options);
+    public async createTransferTicket(options: CreateTransferTicketArgs, requestOptions?: RequestOptions): Promise<CreateTransferTicketResponse> {
+        return await this.apiClient.issuePostRequest("/v1/transfer_tickets", options, requestOptions);
     }
 
     /**
      * Gets all transfer tickets
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransferTickets(): Promise<TransferTicketResponse[]> {
-        return await this.apiClient.issueGetRequest("/v1/transfer_tickets");
+    public async getTransferTickets(requestOptions?: RequestOptions): Promise<TransferTicketResponse[]> {
+        return await this.apiClient.issueGetRequest("/v1/transfer_tickets", false, requestOptions);
     }
 
     /**
      * Get a transfer ticket by ticket ID
      * @param ticketId
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransferTicketById(ticketId: string): Promise<TransferTicketResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/transfer_tickets/${ticketId}`);
+    public async getTransferTicketById(ticketId: string, requestOptions?: RequestOptions): Promise<TransferTicketResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/transfer_tickets/${ticketId}`, false, requestOptions);
     }
 
     /**
      * Get a term of transfer ticket
      * @param ticketId
      * @param termId
+     * @param requestOptions Request options such as a timeout
      */
-    public async getTransferTicketTerm(ticketId: string, termId: string): Promise<TermResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/transfer_tickets/${ticketId}/${termId}`);
+    public async getTransferTicketTerm(ticketId: string, termId: string, requestOptions?: RequestOptions): Promise<TermResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/transfer_tickets/${ticketId}/${termId}`, false, requestOptions);
     }
 
     /**
      * Cancel the transfer ticket
      * @param ticketId
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async cancelTransferTicket(ticketId: string) {
-        return await this.apiClient.issuePostRequest(`/v1/transfer_tickets/${ticketId}/cancel`, {});
+    public async cancelTransferTicket(ticketId: string, requestOptions?: RequestOptions) {
+        return await this.apiClient.issuePostRequest(`/v1/transfer_tickets/${ticketId}/cancel`, {}, requestOptions);
     }
 
     /**
@@ -563,71 +1004,79 @@ export class FireblocksSDK {
      * @param ticketId
      * @param termId
      * @param options
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async executeTransferTicketTerm(ticketId: string, termId: string, options: ExecuteTermArgs) {
+    public async executeTransferTicketTerm(ticketId: string, termId: string, options: ExecuteTermArgs, requestOptions?: RequestOptions) {
         return await this.apiClient.issuePostRequest(`/v1/transfer_tickets/${ticketId}/${termId}/transfer`,
-            options);
+            options, requestOptions);
     }
 
     /**
      * Deletes a single internal wallet
      * @param walletId The internal wallet ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async deleteInternalWallet(walletId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issueDeleteRequest(`/v1/internal_wallets/${walletId}`);
+    public async deleteInternalWallet(walletId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issueDeleteRequest(`/v1/internal_wallets/${walletId}`, requestOptions);
     }
 
     /**
      * Deletes a single internal wallet asset
      * @param walletId The internal wallet ID
      * @param assetId The asset ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async deleteInternalWalletAsset(walletId: string, assetId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issueDeleteRequest(`/v1/internal_wallets/${walletId}/${assetId}`);
+    public async deleteInternalWalletAsset(walletId: string, assetId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issueDeleteRequest(`/v1/internal_wallets/${walletId}/${assetId}`, requestOptions);
     }
 
     /**
      * Deletes a single external wallet
      * @param walletId The external wallet ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async deleteExternalWallet(walletId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issueDeleteRequest(`/v1/external_wallets/${walletId}`);
+    public async deleteExternalWallet(walletId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issueDeleteRequest(`/v1/external_wallets/${walletId}`, requestOptions);
     }
 
     /**
      * Deletes a single external wallet asset
      * @param walletId The external wallet ID
      * @param assetId The asset ID
+     * @param requestOptions Request options such as a timeout
      */
-    public async deleteExternalWalletAsset(walletId: string, assetId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issueDeleteRequest(`/v1/external_wallets/${walletId}/${assetId}`);
+    public async deleteExternalWalletAsset(walletId: string, assetId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issueDeleteRequest(`/v1/external_wallets/${walletId}/${assetId}`, requestOptions);
     }
 
     /**
      * Sets a customer reference ID
      * @param vaultAccountId The vault account ID
      * @param customerRefId The customer reference ID to set
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setCustomerRefIdForVaultAccount(vaultAccountId: string, customerRefId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/set_customer_ref_id`, {customerRefId});
+    public async setCustomerRefIdForVaultAccount(vaultAccountId: string, customerRefId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/set_customer_ref_id`, {customerRefId}, requestOptions);
     }
 
     /**
      * Sets a customer reference ID
      * @param walletId The ID of the internal wallet
      * @param customerRefId The customer reference ID to set
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setCustomerRefIdForInternalWallet(walletId: string, customerRefId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/internal_wallets/${walletId}/set_customer_ref_id`, {customerRefId});
+    public async setCustomerRefIdForInternalWallet(walletId: string, customerRefId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/internal_wallets/${walletId}/set_customer_ref_id`, {customerRefId}, requestOptions);
     }
 
     /**
      * Sets a customer reference ID
      * @param walletId The ID of the external wallet
      * @param customerRefId The customer reference ID to set
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setCustomerRefIdForExternalWallet(walletId: string, customerRefId: string): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/external_wallets/${walletId}/set_customer_ref_id`, {customerRefId});
+    public async setCustomerRefIdForExternalWallet(walletId: string, customerRefId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/external_wallets/${walletId}/set_customer_ref_id`, {customerRefId}, requestOptions);
     }
 
     /**
@@ -637,39 +1086,43 @@ export class FireblocksSDK {
      * @param address The address
      * @param tag The XRP tag, or EOS memo
      * @param customerRefId The customer reference ID to set
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setCustomerRefIdForAddress(vaultAccountId: string, assetId: string, address: string, tag?: string, customerRefId?: string): Promise<OperationSuccessResponse> {
+    public async setCustomerRefIdForAddress(vaultAccountId: string, assetId: string, address: string, tag?: string, customerRefId?: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         let addressId = address;
         if (tag && tag.length > 0) {
             addressId = `${address}:${tag}`;
         }
 
-        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses/${addressId}/set_customer_ref_id`, {customerRefId});
+        return await this.apiClient.issuePostRequest(`/v1/vault/accounts/${vaultAccountId}/${assetId}/addresses/${addressId}/set_customer_ref_id`, {customerRefId}, requestOptions);
     }
 
     /**
      * Set the required number of confirmations for transaction
      * @param txId
      * @param requiredConfirmationsNumber
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setConfirmationThresholdForTxId(txId: string, requiredConfirmationsNumber: number): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/transactions/${txId}/set_confirmation_threshold`, {numOfConfirmations: requiredConfirmationsNumber});
+    public async setConfirmationThresholdForTxId(txId: string, requiredConfirmationsNumber: number, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/transactions/${txId}/set_confirmation_threshold`, {numOfConfirmations: requiredConfirmationsNumber}, requestOptions);
     }
 
     /**
      * Set the required number of confirmations for transactions by tx hash
      * @param txHash
      * @param requiredConfirmationsNumber
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async setConfirmationThresholdForTxHash(txHash: string, requiredConfirmationsNumber: number): Promise<OperationSuccessResponse> {
-        return await this.apiClient.issuePostRequest(`/v1/txHash/${txHash}/set_confirmation_threshold`, {numOfConfirmations: requiredConfirmationsNumber});
+    public async setConfirmationThresholdForTxHash(txHash: string, requiredConfirmationsNumber: number, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return await this.apiClient.issuePostRequest(`/v1/txHash/${txHash}/set_confirmation_threshold`, {numOfConfirmations: requiredConfirmationsNumber}, requestOptions);
     }
 
     /**
      * Get the public key information
      * @param args
+     * @param requestOptions Request options such as a timeout
      */
-    public async getPublicKeyInfo(args: PublicKeyInfoArgs) {
+    public async getPublicKeyInfo(args: PublicKeyInfoArgs, requestOptions?: RequestOptions) {
         let url = `/v1/vault/public_key_info`;
         if (args.algorithm) {
             url += `?algorithm=${args.algorithm}`;
@@ -680,7 +1133,7 @@ export class FireblocksSDK {
         if (args.compressed) {
             url += `&compressed=${args.compressed}`;
         }
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
@@ -690,10 +1143,11 @@ export class FireblocksSDK {
      * @param vaultAccountId
      * @param asset
      * @param args
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async allocateFundsToPrivateLedger(vaultAccountId: string, asset: string, args: AllocateFundsRequest) {
+    public async allocateFundsToPrivateLedger(vaultAccountId: string, asset: string, args: AllocateFundsRequest, requestOptions?: RequestOptions) {
         const url = `/v1/vault/accounts/${vaultAccountId}/${asset}/lock_allocation`;
-        return await this.apiClient.issuePostRequest(url, args);
+        return await this.apiClient.issuePostRequest(url, args, requestOptions);
     }
 
     /**
@@ -701,143 +1155,157 @@ export class FireblocksSDK {
      * @param vaultAccountId
      * @param asset
      * @param args
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async deallocateFundsFromPrivateLedger(vaultAccountId: string, asset: string, args: DeallocateFundsRequest) {
+    public async deallocateFundsFromPrivateLedger(vaultAccountId: string, asset: string, args: DeallocateFundsRequest, requestOptions?: RequestOptions) {
         const url = `/v1/vault/accounts/${vaultAccountId}/${asset}/release_allocation`;
-        return await this.apiClient.issuePostRequest(url, args);
+        return await this.apiClient.issuePostRequest(url, args, requestOptions);
     }
 
     /**
      * Get the public key information for a vault account
      * @param args
+     * @param requestOptions Request options such as a timeout
      */
-    public async getPublicKeyInfoForVaultAccount(args: PublicKeyInfoForVaultAccountArgs) {
+    public async getPublicKeyInfoForVaultAccount(args: PublicKeyInfoForVaultAccountArgs, requestOptions?: RequestOptions): Promise<PublicKeyInfoResponse> {
         let url = `/v1/vault/accounts/${args.vaultAccountId}/${args.assetId}/${args.change}/${args.addressIndex}/public_key_info`;
         if (args.compressed) {
             url += `?compressed=${args.compressed}`;
         }
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Get configuration and status of the Gas Station account
+     * @param requestOptions Request options such as a timeout
      */
-    public async getGasStationInfo(): Promise<GasStationInfo> {
+    public async getGasStationInfo(requestOptions?: RequestOptions): Promise<GasStationInfo> {
         const url = `/v1/gas_station`;
 
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Set configuration of the Gas Station account
+     * @param requestOptions Request options such as a timeout
      */
-    public async setGasStationConfiguration(gasThreshold: string, gasCap: string, maxGasPrice?: string): Promise<OperationSuccessResponse> {
+    public async setGasStationConfiguration(gasThreshold: string, gasCap: string, maxGasPrice?: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
         const url = `/v1/gas_station/configuration`;
 
         const body = {gasThreshold, gasCap, maxGasPrice};
 
-        return await this.apiClient.issuePutRequest(url, body);
+        return await this.apiClient.issuePutRequest(url, body, requestOptions);
     }
 
     /**
      * Drop an ETH based transaction
      */
-    public async dropTransaction(txId: string, feeLevel?: string, requestedFee?: string) {
+    public async dropTransaction(txId: string, feeLevel?: string, requestedFee?: string, requestOptions?: RequestOptions) {
         const url = `/v1/transactions/${txId}/drop`;
 
         const body = {feeLevel, requestedFee};
 
-        return await this.apiClient.issuePostRequest(url, body);
+        return await this.apiClient.issuePostRequest(url, body, requestOptions);
     }
 
     /**
      * Get max spendable amount per asset and vault
+     * @param requestOptions Request options such as a timeout
      */
-    public async getMaxSpendableAmount(vaultAccountId: string, assetId: string, manualSigning?: Boolean): Promise<MaxSpendableAmountResponse> {
+    public async getMaxSpendableAmount(vaultAccountId: string, assetId: string, manualSigning?: Boolean, requestOptions?: RequestOptions): Promise<MaxSpendableAmountResponse> {
         let url = `/v1/vault/accounts/${vaultAccountId}/${assetId}/max_spendable_amount`;
 
         if (manualSigning) {
             url += `?manualSigning=${manualSigning}`;
         }
 
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Get all vault assets balance overview
+     * @param requestOptions Request options such as a timeout
      */
-    public async getVaultAssetsBalance(filter: VaultBalancesFilter): Promise<AssetResponse[]> {
+    public async getVaultAssetsBalance(filter: VaultBalancesFilter, requestOptions?: RequestOptions): Promise<AssetResponse[]> {
         const url = `/v1/vault/assets?${queryString.stringify(filter)}`;
 
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Get vault balance overview per asset
+     * @param requestOptions Request options such as a timeout
      */
-    public async getVaultBalanceByAsset(assetId: string): Promise<AssetResponse> {
+    public async getVaultBalanceByAsset(assetId: string, requestOptions?: RequestOptions): Promise<AssetResponse> {
         const url = `/v1/vault/assets/${assetId}`;
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Get address validation info
+     * @param requestOptions Request options such as a timeout
      */
-    public async validateAddress(assetId: string, address: string): Promise<ValidateAddressResponse> {
+    public async validateAddress(assetId: string, address: string, requestOptions?: RequestOptions): Promise<ValidateAddressResponse> {
         const url = `/v1/transactions/validate_address/${assetId}/${address}`;
-        return await this.apiClient.issueGetRequest(url);
+        return await this.apiClient.issueGetRequest(url, false, requestOptions);
     }
 
     /**
      * Unfreezes the selected transaction
      * @param txId The transaction id to unfreeze
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async unfreezeTransactionById(txId: string): Promise<OperationSuccessResponse> {
-        return this.apiClient.issuePostRequest(`/v1/transactions/${txId}/unfreeze`, {});
+    public async unfreezeTransactionById(txId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return this.apiClient.issuePostRequest(`/v1/transactions/${txId}/unfreeze`, {}, requestOptions);
     }
 
     /**
      * Freezes the selected transaction
      * @param txId The transaction id to freeze
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async freezeTransactionById(txId: string): Promise<OperationSuccessResponse> {
-        return this.apiClient.issuePostRequest(`/v1/transactions/${txId}/freeze`, {});
+    public async freezeTransactionById(txId: string, requestOptions?: RequestOptions): Promise<OperationSuccessResponse> {
+        return this.apiClient.issuePostRequest(`/v1/transactions/${txId}/freeze`, {}, requestOptions);
     }
 
     /**
      * Resend failed webhooks
      */
-    public async resendWebhooks(): Promise<ResendWebhooksResponse> {
-        return await this.apiClient.issuePostRequest("/v1/webhooks/resend", {});
+    public async resendWebhooks(requestOptions?: RequestOptions): Promise<ResendWebhooksResponse> {
+        return await this.apiClient.issuePostRequest("/v1/webhooks/resend", {}, requestOptions);
     }
 
     /**
      * Gets all Users for your tenant
+     * @param requestOptions Request options such as a timeout
      */
-    public async getUsers(): Promise<User[]> {
-        return await this.apiClient.issueGetRequest("/v1/users");
+    public async getUsers(requestOptions?: RequestOptions): Promise<User[]> {
+        return await this.apiClient.issueGetRequest("/v1/users", false, requestOptions);
     }
 
     /**
      * Get off exchange accounts
+     * @param requestOptions Request options such as a timeout
      */
-    public async getOffExchangeAccounts(): Promise<OffExchangeEntityResponse[]> {
-        return await this.apiClient.issueGetRequest(`/v1/off_exchange_accounts`);
+    public async getOffExchangeAccounts(requestOptions?: RequestOptions): Promise<OffExchangeEntityResponse[]> {
+        return await this.apiClient.issueGetRequest(`/v1/off_exchange_accounts`, false, requestOptions);
     }
 
     /**
      * Get off exchange account by virtual account id
      * @param id the ID of the off exchange
+     * @param requestOptions Request options such as a timeout
      */
-    public async getOffExchangeAccountById(id: string): Promise<OffExchangeEntityResponse> {
-        return await this.apiClient.issueGetRequest(`/v1/off_exchange_accounts/${id}`);
+    public async getOffExchangeAccountById(id: string, requestOptions?: RequestOptions): Promise<OffExchangeEntityResponse> {
+        return await this.apiClient.issueGetRequest(`/v1/off_exchange_accounts/${id}`, false, requestOptions);
     }
 
     /**
      * Settle off exchange account by virtual account id
      * @param id the ID of the off exchange
+     * @param requestOptions Request options such as an idempotency key
      */
-    public async settleOffExchangeAccountById(id: string): Promise<void> {
-        return await this.apiClient.issuePostRequest(`/v1/off_exchange_accounts/${id}/settle`, {});
+    public async settleOffExchangeAccountById(id: string, requestOptions?: RequestOptions): Promise<void> {
+        return await this.apiClient.issuePostRequest(`/v1/off_exchange_accounts/${id}/settle`, {}, requestOptions);
     }
 }
@@ -0,0 +1,211 @@
+import fs from "fs";
+import crypto from "crypto";
+import axios, { AxiosAdapter, AxiosRequestConfig, AxiosResponse } from "axios";
+import { FixtureNotFoundError } from "./errors";
+import { parseJsonWithDecimalAmounts, returnsTransactions } from "./decimal";
+
+const REDACTED = "[REDACTED]";
+const DEFAULT_REDACTED_HEADERS = ["authorization", "x-api-key", "set-cookie"];
+
+/**
+ * A recorded request and the response it got
+ */
+export interface Fixture {
+    method: string;
+    path: string;
+    /**
+     * The SHA-256 of the redacted request body, as hashed into the JWT
+     */
+    bodyHash: string;
+    request: {
+        headers: { [name: string]: string };
+        body?: any;
+    };
+    response: {
+        status: number;
+        headers: { [name: string]: string };
+        data: any;
+    };
+}
+
+export interface FixtureFile {
+    version: 1;
+    fixtures: Fixture[];
+}
+
+export interface FixtureOptions {
+    /**
+     * Names of body fields redacted at any depth of requests and responses, e.g. customerRefId or address.
+     * Redacted request fields are ignored when matching, so they may differ between recording and replay
+     */
+    redactFields?: string[];
+    /**
+     * Headers redacted in addition to authorization, x-api-key and set-cookie
+     */
+    redactHeaders?: string[];
+}
+
+/**
+ * Records every request made through an ApiClient and the response it got. Pass its adapter as the adapter option of the SDK
+ */
+export class FixtureRecorder {
+    public readonly fixtures: Fixture[] = [];
+
+    constructor(private readonly options: FixtureOptions = {}, private readonly transport: AxiosAdapter = axios.defaults.adapter) {
+    }
+
+    public readonly adapter: AxiosAdapter = async config => {
+        let response: AxiosResponse;
+        try {
+            response = await this.transport(config);
+        } catch (e) {
+            if (e.response) {
+                this.record(config, e.response);
+            }
+            throw e;
+        }
+        this.record(config, response);
+        return response;
+    }
+
+    public toJSON(): FixtureFile {
+        return { version: 1, fixtures: this.fixtures };
+    }
+
+    /**
+     * Writes the recorded fixtures to a JSON file
+     */
+    public save(file: string) {
+        fs.writeFileSync(file, `${JSON.stringify(this.toJSON(), undefined, 2)}\n`);
+    }
+
+    private record(config: AxiosRequestConfig, response: AxiosResponse) {
+        const body = redact(parseBody(config.data), this.options.redactFields);
+        this.fixtures.push({
+            method: config.method.toUpperCase(),
+            path: config.url,
+            bodyHash: hashBody(body),
+            request: {
+                headers: redactHeaders(config.headers, this.options.redactHeaders),
+                body
+            },
+            response: {
+                status: response.status,
+                headers: redactHeaders(response.headers, this.options.redactHeaders),
+                data: this.redactResponseData(config, response.data)
+            }
+        });
+    }
+
+    /**
+     * Keeps the response body as received unless fields are to be redacted from it. A redacted body of transactions is parsed keeping
+     * their amounts as exact decimal strings, so they are replayed as strings
+     */
+    private redactResponseData(config: AxiosRequestConfig, data: any): any {
+        if (!this.options.redactFields?.length || typeof data !== "string" || !data) {
+            return data;
+        }
+
+        try {
+            const parsed = returnsTransactions(config.method, config.url) ? parseJsonWithDecimalAmounts(data) : JSON.parse(data);
+            return redact(parsed, this.options.redactFields);
+        } catch (e) {
+            return data;
+        }
+    }
+}
+
+/**
+ * Answers the requests of an ApiClient from recorded fixtures, matching on method, path and body hash, without network access.
+ * Requests matching several fixtures get them in recording order, the last one repeating
+ */
+export class FixtureReplayer {
+    private readonly used = new Set<Fixture>();
+
+    constructor(private readonly fixtureFile: FixtureFile | Fixture[], private readonly options: FixtureOptions = {}) {
+    }
+
+    /**
+     * Loads fixtures saved by FixtureRecorder.save()
+     * @param options The options the fixtures were recorded with
+     */
+    public static load(file: string, options?: FixtureOptions): FixtureReplayer {
+        return new FixtureReplayer(JSON.parse(fs.readFileSync(file, "utf8")), options);
+    }
+
+    public readonly adapter: AxiosAdapter = async config => {
+        const method = config.method.toUpperCase();
+        const bodyHash = hashBody(redact(parseBody(config.data), this.options.redactFields));
+        const candidates = this.fixtures.filter(fixture => fixture.method === method && fixture.path === config.url && fixture.bodyHash === bodyHash);
+        if (candidates.length === 0) {
+            throw new FixtureNotFoundError(`No fixture matches ${method} ${config.url} with body hash ${bodyHash}`);
+        }
+
+        const fixture = candidates.find(candidate => !this.used.has(candidate)) ?? candidates[candidates.length - 1];
+        this.used.add(fixture);
+
+        const response: AxiosResponse = {
+            status: fixture.response.status,
+            statusText: "",
+            headers: { ...fixture.response.headers },
+            data: typeof fixture.response.data === "string" ? fixture.response.data : JSON.stringify(fixture.response.data),
+            config,
+            request: {}
+        };
+
+        const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+        if (!validateStatus(response.status)) {
+            throw Object.assign(new Error(`Request failed with status code ${response.status}`), { config, response, isAxiosError: true, toJSON: () => ({}) });
+        }
+        return response;
+    }
+
+    /**
+     * The fixtures no request has matched yet, to assert that a test made every recorded call
+     */
+    public unused(): Fixture[] {
+        return this.fixtures.filter(fixture => !this.used.has(fixture));
+    }
+
+    private get fixtures(): Fixture[] {
+        return Array.isArray(this.fixtureFile) ? this.fixtureFile : this.fixtureFile.fixtures;
+    }
+}
+
+function parseBody(data: any): any {
+    if (typeof data !== "string" || !data) {
+        return data;
+    }
+
+    try {
+        return JSON.parse(data);
+    } catch (e) {
+        return data;
+    }
+}
+
+function hashBody(body: any): string {
+    return crypto.createHash("sha256").update(JSON.stringify(body ?? "")).digest("hex");
+}
+
+function redact(value: any, fields: string[] = []): any {
+    if (fields.length === 0 || !value || typeof value !== "object") {
+        return value;
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => redact(item, fields));
+    }
+
+    const result: { [key: string]: any } = {};
+    Object.keys(value).forEach(key => result[key] = fields.indexOf(key) !== -1 ? REDACTED : redact(value[key], fields));
+    return result;
+}
+
+function redactHeaders(headers: { [name: string]: any } = {}, extra: string[] = []): { [name: string]: string } {
+    const redacted = [...DEFAULT_REDACTED_HEADERS, ...extra.map(name => name.toLowerCase())];
+    const result: { [name: string]: string } = {};
+    Object.keys(headers).filter(name => typeof headers[name] !== "object" || Array.isArray(headers[name])).forEach(name => {
+        result[name] = redacted.indexOf(name.toLowerCase()) !== -1 ? REDACTED : String(headers[name]);
+    });
+    return result;
+}
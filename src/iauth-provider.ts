@@ -1,5 +1,8 @@
 export interface IAuthProvider {
-    signJwt(path: string, bodyJson?: any): string;
+    /**
+     * Signs the JWT sent with a request. May resolve asynchronously, e.g. when the key is held by an HSM, a KMS or a separate signing process
+     */
+    signJwt(path: string, bodyJson?: any): string | Promise<string>;
 
     getApiKey(): string;
 }
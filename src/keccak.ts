@@ -0,0 +1,89 @@
+/**
+ * Keccak-256 as used by Ethereum. It differs from the standardized SHA3-256 provided by Node only in its padding
+ */
+
+const RATE = 136;
+const KECCAK_PADDING = 0x01;
+const MASK = BigInt("0xffffffffffffffff");
+
+const ROUND_CONSTANTS = [
+    "0x0000000000000001", "0x0000000000008082", "0x800000000000808a", "0x8000000080008000",
+    "0x000000000000808b", "0x0000000080000001", "0x8000000080008081", "0x8000000000008009",
+    "0x000000000000008a", "0x0000000000000088", "0x0000000080008009", "0x000000008000000a",
+    "0x000000008000808b", "0x800000000000008b", "0x8000000000008089", "0x8000000000008003",
+    "0x8000000000008002", "0x8000000000000080", "0x000000000000800a", "0x800000008000000a",
+    "0x8000000080008081", "0x8000000000008080", "0x0000000080000001", "0x8000000080008008"
+].map(constant => BigInt(constant));
+
+/**
+ * The rotation offset of every lane, indexed by x + 5y
+ */
+const ROTATIONS = [0, 1, 62, 28, 27, 36, 44, 6, 55, 20, 3, 10, 43, 25, 39, 41, 45, 15, 21, 8, 18, 2, 61, 56, 14];
+
+export function keccak256(data: Buffer | string): Buffer {
+    return sponge(typeof data === "string" ? Buffer.from(data, "utf8") : data, KECCAK_PADDING);
+}
+
+function sponge(data: Buffer, padding: number): Buffer {
+    const blockCount = Math.floor(data.length / RATE) + 1;
+    const padded = Buffer.alloc(blockCount * RATE);
+    data.copy(padded);
+    padded[data.length] ^= padding;
+    padded[padded.length - 1] ^= 0x80;
+
+    const state: bigint[] = new Array(25).fill(BigInt(0));
+    for (let offset = 0; offset < padded.length; offset += RATE) {
+        for (let lane = 0; lane < RATE / 8; lane++) {
+            state[lane] ^= padded.readBigUInt64LE(offset + lane * 8);
+        }
+        permute(state);
+    }
+
+    const output = Buffer.alloc(32);
+    for (let lane = 0; lane < 4; lane++) {
+        output.writeBigUInt64LE(state[lane], lane * 8);
+    }
+    return output;
+}
+
+function permute(state: bigint[]) {
+    const c: bigint[] = new Array(5);
+    const b: bigint[] = new Array(25);
+
+    for (const roundConstant of ROUND_CONSTANTS) {
+        // Theta
+        for (let x = 0; x < 5; x++) {
+            c[x] = state[x] ^ state[x + 5] ^ state[x + 10] ^ state[x + 15] ^ state[x + 20];
+        }
+        for (let x = 0; x < 5; x++) {
+            const d = c[(x + 4) % 5] ^ rotateLeft(c[(x + 1) % 5], 1);
+            for (let y = 0; y < 25; y += 5) {
+                state[x + y] ^= d;
+            }
+        }
+
+        // Rho and pi
+        for (let x = 0; x < 5; x++) {
+            for (let y = 0; y < 5; y++) {
+                b[y + 5 * ((2 * x + 3 * y) % 5)] = rotateLeft(state[x + 5 * y], ROTATIONS[x + 5 * y]);
+            }
+        }
+
+        // Chi
+        for (let y = 0; y < 25; y += 5) {
+            for (let x = 0; x < 5; x++) {
+                state[x + y] = b[x + y] ^ ((b[(x + 1) % 5 + y] ^ MASK) & b[(x + 2) % 5 + y]);
+            }
+        }
+
+        // Iota
+        state[0] ^= roundConstant;
+    }
+}
+
+function rotateLeft(value: bigint, bits: number): bigint {
+    if (bits === 0) {
+        return value;
+    }
+    return ((value << BigInt(bits)) | (value >> BigInt(64 - bits))) & MASK;
+}
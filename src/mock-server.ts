@@ -0,0 +1,762 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { URLSearchParams } from "url";
+import crypto, { KeyObject } from "crypto";
+import jwt from "jsonwebtoken";
+import { v4 as uuid } from "uuid";
+import { JwtPayload } from "./api-token-provider";
+import { addDecimals, compareDecimals, normalizeDecimal, subtractDecimals } from "./decimal";
+import { FAILED_TRANSACTION_STATUSES, isTerminalTransactionStatus } from "./transaction-waiter";
+import { sleep } from "./retry";
+import {
+    AssetResponse,
+    CreateTransferTicketArgs,
+    DepositAddressResponse,
+    ExchangeResponse,
+    ExecuteTermArgs,
+    ExternalWalletAsset,
+    InternalWalletAsset,
+    PeerType,
+    TransactionArguments,
+    TransactionOperation,
+    TransactionResponse,
+    TransactionStatus,
+    TransferTicketResponse,
+    TransferTicketStatus,
+    TransferTicketTermStatus,
+    VaultAccountResponse,
+    WalletContainerResponse
+} from "./types";
+
+export const DEFAULT_MOCK_STATUS_PROGRESSION = [
+    TransactionStatus.SUBMITTED,
+    TransactionStatus.PENDING_SIGNATURE,
+    TransactionStatus.BROADCASTING,
+    TransactionStatus.CONFIRMING,
+    TransactionStatus.COMPLETED
+];
+
+export interface MockServerOptions {
+    /**
+     * The api keys the server accepts, with the public keys verifying their JWTs. Any api key is accepted without verification if omitted
+     */
+    apiKeys?: { [apiKey: string]: string | KeyObject };
+    /**
+     * The statuses every new transaction goes through. Defaults to DEFAULT_MOCK_STATUS_PROGRESSION
+     */
+    statusProgression?: TransactionStatus[];
+    /**
+     * Advance transactions to their next status every this many milliseconds.
+     * Transactions only advance through advanceTransaction() if omitted
+     */
+    statusIntervalMs?: number;
+    /**
+     * A delay added to every response, in milliseconds
+     */
+    latencyMs?: number;
+}
+
+/**
+ * Makes the matching requests fail with the given status and body, or adds latency to them when status is omitted
+ */
+export interface MockFaultRule {
+    method?: string;
+    /**
+     * A path prefix or a pattern the request path must match
+     */
+    path?: string | RegExp;
+    status?: number;
+    body?: any;
+    latencyMs?: number;
+    /**
+     * The number of requests the rule applies to. Applies to every matching request if omitted
+     */
+    times?: number;
+}
+
+interface MockTransaction extends TransactionResponse {
+    operation: TransactionOperation;
+    customerRefId?: string;
+}
+
+interface RouteContext {
+    params: { [name: string]: string };
+    query: URLSearchParams;
+    body: any;
+}
+
+interface Route {
+    method: string;
+    pattern: RegExp;
+    names: string[];
+    handler: (context: RouteContext) => any;
+}
+
+class MockApiError extends Error {
+    constructor(public readonly status: number, message: string, public readonly code: number = status) {
+        super(message);
+    }
+}
+
+/**
+ * A stateful, in-memory HTTP server implementing the vault account, transaction, wallet, exchange account and transfer ticket routes of
+ * the Fireblocks API, for running code built on the SDK offline. Transactions move funds between vault accounts once they complete
+ */
+export class MockFireblocksServer {
+    private readonly server: http.Server;
+    private readonly routes: Route[] = [];
+    private readonly vaultAccounts = new Map<string, VaultAccountResponse>();
+    private readonly addresses = new Map<string, DepositAddressResponse[]>();
+    private readonly transactions = new Map<string, MockTransaction>();
+    private readonly internalWallets = new Map<string, WalletContainerResponse<InternalWalletAsset>>();
+    private readonly externalWallets = new Map<string, WalletContainerResponse<ExternalWalletAsset>>();
+    private readonly exchangeAccounts = new Map<string, ExchangeResponse>();
+    private readonly transferTickets = new Map<string, TransferTicketResponse>();
+    private readonly idempotentResponses = new Map<string, { status: number, body: any }>();
+    private faults: MockFaultRule[] = [];
+    private nextVaultAccountId = 0;
+    private baseUrl: string;
+
+    constructor(private readonly options: MockServerOptions = {}) {
+        this.server = http.createServer((req, res) => this.handle(req, res));
+        this.registerRoutes();
+    }
+
+    /**
+     * Starts listening on localhost
+     * @param port Defaults to a free port
+     * @returns The base URL to pass to the SDK
+     */
+    public listen(port: number = 0): Promise<string> {
+        return new Promise((resolve, reject) => {
+            this.server.once("error", reject);
+            this.server.listen(port, "127.0.0.1", () => {
+                this.server.removeListener("error", reject);
+                this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+                resolve(this.baseUrl);
+            });
+        });
+    }
+
+    public close(): Promise<void> {
+        return new Promise((resolve, reject) => this.server.close(err => err ? reject(err) : resolve()));
+    }
+
+    public get url(): string {
+        return this.baseUrl;
+    }
+
+    /**
+     * Creates a vault account holding the given balances
+     */
+    public addVaultAccount(name: string, balances: { [assetId: string]: number | string } = {}, customerRefId?: string): VaultAccountResponse {
+        const vaultAccount = this.createVaultAccount(name, false, customerRefId, false);
+        Object.keys(balances).forEach(assetId => this.setBalance(vaultAccount.id, assetId, balances[assetId]));
+        return vaultAccount;
+    }
+
+    /**
+     * Sets the total and available balance of a vault asset, creating the asset if needed
+     */
+    public setBalance(vaultAccountId: string, assetId: string, amount: number | string) {
+        const asset = this.getOrCreateVaultAsset(this.getVaultAccount(vaultAccountId), assetId);
+        asset.total = asset.balance = asset.available = normalizeDecimal(amount);
+    }
+
+    public addExchangeAccount(name: string, type: string, balances: { [assetId: string]: number | string } = {}): ExchangeResponse {
+        const exchangeAccount: ExchangeResponse = {
+            id: uuid(),
+            type,
+            name,
+            isSubaccount: false,
+            status: "APPROVED",
+            assets: Object.keys(balances).map(assetId => createAsset(assetId, balances[assetId]))
+        };
+        this.exchangeAccounts.set(exchangeAccount.id, exchangeAccount);
+        return exchangeAccount;
+    }
+
+    /**
+     * Makes matching requests fail or slow down, until the rule is used up or clearFaults() is called
+     */
+    public injectFault(rule: MockFaultRule) {
+        this.faults.push({ ...rule });
+    }
+
+    public clearFaults() {
+        this.faults = [];
+    }
+
+    /**
+     * Moves a transaction to the given status, or to the next status of the progression
+     */
+    public advanceTransaction(txId: string, status?: TransactionStatus): TransactionResponse {
+        const transaction = this.getTransaction(txId);
+        const progression = this.options.statusProgression ?? DEFAULT_MOCK_STATUS_PROGRESSION;
+        this.setStatus(transaction, status ?? progression[Math.min(progression.indexOf(transaction.status) + 1, progression.length - 1)]);
+        return transaction;
+    }
+
+    public getTransactions(): TransactionResponse[] {
+        return Array.from(this.transactions.values());
+    }
+
+    private async handle(req: IncomingMessage, res: ServerResponse) {
+        const path = req.url;
+        const method = req.method;
+        const send = (status: number, body: any) => {
+            res.statusCode = status;
+            res.setHeader("Content-Type", "application/json");
+            res.setHeader("X-Request-ID", uuid());
+            res.end(body === undefined ? "" : JSON.stringify(body));
+        };
+
+        try {
+            const rawBody = await readBody(req);
+            const fault = this.takeFault(method, path);
+            const latencyMs = (this.options.latencyMs ?? 0) + (fault?.latencyMs ?? 0);
+            if (latencyMs > 0) {
+                await sleep(latencyMs);
+            }
+
+            this.authenticate(req, rawBody);
+
+            if (fault?.status) {
+                return send(fault.status, fault.body ?? { message: "Injected error", code: fault.status });
+            }
+
+            const idempotencyKey = req.headers["idempotency-key"] as string;
+            if (idempotencyKey && this.idempotentResponses.has(idempotencyKey)) {
+                const previous = this.idempotentResponses.get(idempotencyKey);
+                return send(previous.status, previous.body);
+            }
+
+            this.progressTransactions();
+            const result = this.route(method, path, parseBody(rawBody), res);
+            if (idempotencyKey && method === "POST") {
+                this.idempotentResponses.set(idempotencyKey, { status: 200, body: result });
+            }
+            send(200, result);
+        } catch (e) {
+            if (e instanceof MockApiError) {
+                send(e.status, { message: e.message, code: e.code });
+            } else {
+                send(500, { message: e.message, code: 500 });
+            }
+        }
+    }
+
+    private takeFault(method: string, path: string): MockFaultRule | undefined {
+        const fault = this.faults.find(rule =>
+            (!rule.method || rule.method.toUpperCase() === method) &&
+            (!rule.path || (typeof rule.path === "string" ? path.startsWith(rule.path) : rule.path.test(path))));
+
+        if (fault && fault.times !== undefined && --fault.times <= 0) {
+            this.faults.splice(this.faults.indexOf(fault), 1);
+        }
+        return fault;
+    }
+
+    /**
+     * Verifies the JWT the way the API does: signed by the api key's key, not expired, and bound to the request's path and body
+     */
+    private authenticate(req: IncomingMessage, rawBody: string) {
+        if (!this.options.apiKeys) {
+            return;
+        }
+
+        const apiKey = req.headers["x-api-key"] as string;
+        const publicKey = apiKey && this.options.apiKeys[apiKey];
+        if (!publicKey) {
+            throw new MockApiError(401, "Unauthorized: unknown api key", -7);
+        }
+
+        const token = (req.headers.authorization ?? "").replace(/^Bearer /, "");
+        let payload: JwtPayload;
+        try {
+            payload = jwt.verify(token, publicKey as any, { algorithms: ["RS256"] }) as JwtPayload;
+        } catch (e) {
+            throw new MockApiError(401, `Unauthorized: ${e.message}`, -7);
+        }
+
+        const bodyHash = crypto.createHash("sha256").update(rawBody || JSON.stringify("")).digest("hex");
+        if (payload.sub !== apiKey) {
+            throw new MockApiError(401, "Unauthorized: the JWT was issued for another api key", -7);
+        }
+        if (payload.uri !== req.url) {
+            throw new MockApiError(401, `Unauthorized: the JWT was signed for ${payload.uri}`, -7);
+        }
+        if (payload.bodyHash !== bodyHash) {
+            throw new MockApiError(401, "Unauthorized: the JWT body hash does not match the body", -7);
+        }
+    }
+
+    private route(method: string, url: string, body: any, res: ServerResponse): any {
+        const [path, queryString] = url.split("?");
+        const pathRoutes = this.routes.filter(route => route.pattern.test(path));
+        const route = pathRoutes.find(candidate => candidate.method === method);
+        if (!route) {
+            throw pathRoutes.length > 0 ? new MockApiError(405, `${method} is not allowed on ${path}`) : new MockApiError(404, `No route for ${path}`);
+        }
+
+        const match = route.pattern.exec(path);
+        const params: { [name: string]: string } = {};
+        route.names.forEach((name, i) => params[name] = decodeURIComponent(match[i + 1]));
+
+        const query = new URLSearchParams(queryString ?? "");
+        const result = route.handler({ params, query, body: body ?? {} });
+        if (result && result.nextPage !== undefined && result.items) {
+            if (result.nextPage) {
+                res.setHeader("next-page", `${this.baseUrl}${result.nextPage}`);
+            }
+            return result.items;
+        }
+        return result;
+    }
+
+    private on(method: string, path: string, handler: (context: RouteContext) => any) {
+        const names: string[] = [];
+        const pattern = new RegExp(`^${path.replace(/:(\w+)/g, (match, name) => {
+            names.push(name);
+            return "([^/]+)";
+        })}$`);
+        this.routes.push({ method, pattern, names, handler });
+    }
+
+    private registerRoutes() {
+        // Vault accounts
+        this.on("GET", "/v1/vault/accounts", ({ query }) => this.listVaultAccounts(query));
+        this.on("POST", "/v1/vault/accounts", ({ body }) => this.createVaultAccount(body.name, body.hiddenOnUI, body.customerRefId, body.autoFuel));
+        this.on("GET", "/v1/vault/accounts/:id", ({ params }) => this.getVaultAccount(params.id));
+        this.on("PUT", "/v1/vault/accounts/:id", ({ params, body }) => Object.assign(this.getVaultAccount(params.id), { name: body.name }));
+        this.on("POST", "/v1/vault/accounts/:id/hide", ({ params }) => this.updateVaultAccount(params.id, { hiddenOnUI: true }));
+        this.on("POST", "/v1/vault/accounts/:id/unhide", ({ params }) => this.updateVaultAccount(params.id, { hiddenOnUI: false }));
+        this.on("POST", "/v1/vault/accounts/:id/set_auto_fuel", ({ params, body }) => this.updateVaultAccount(params.id, { autoFuel: body.autoFuel }));
+        this.on("POST", "/v1/vault/accounts/:id/set_customer_ref_id", ({ params, body }) => this.updateVaultAccount(params.id, { customerRefId: body.customerRefId }));
+        this.on("POST", "/v1/vault/accounts/:id/:assetId", ({ params }) => this.createVaultAsset(params.id, params.assetId));
+        this.on("GET", "/v1/vault/accounts/:id/:assetId", ({ params }) => this.getVaultAsset(params.id, params.assetId));
+        this.on("GET", "/v1/vault/accounts/:id/:assetId/addresses", ({ params }) => {
+            this.getVaultAsset(params.id, params.assetId);
+            return this.addresses.get(`${params.id}/${params.assetId}`) ?? [];
+        });
+        this.on("POST", "/v1/vault/accounts/:id/:assetId/addresses", ({ params, body }) => {
+            this.getVaultAsset(params.id, params.assetId);
+            return this.createAddress(params.id, params.assetId, body.description, body.customerRefId);
+        });
+
+        // Transactions
+        this.on("GET", "/v1/transactions", ({ query }) => this.listTransactions(query));
+        this.on("POST", "/v1/transactions", ({ body }) => this.createTransaction(body));
+        this.on("GET", "/v1/transactions/external_tx_id/:externalTxId", ({ params }) => {
+            const transaction = this.getTransactions().find(candidate => candidate.externalTxId === params.externalTxId);
+            if (!transaction) {
+                throw new MockApiError(404, `No transaction with external id ${params.externalTxId}`);
+            }
+            return transaction;
+        });
+        this.on("GET", "/v1/transactions/:id", ({ params }) => this.getTransaction(params.id));
+        this.on("GET", "/v1/transactions/validate_address/:assetId/:address", () => ({ isValid: true, isActive: true, requiresTag: false }));
+        this.on("POST", "/v1/transactions/:id/set_confirmation_threshold", ({ params }) => {
+            this.getTransaction(params.id);
+            return { success: true };
+        });
+        this.on("POST", "/v1/transactions/:id/cancel", ({ params }) => {
+            const transaction = this.getTransaction(params.id);
+            if (isTerminalTransactionStatus(transaction.status) || transaction.status === TransactionStatus.BROADCASTING) {
+                throw new MockApiError(400, `Transaction ${params.id} can not be cancelled in status ${transaction.status}`);
+            }
+            this.setStatus(transaction, TransactionStatus.CANCELLED);
+            return { success: true };
+        });
+
+        // Internal and external wallets
+        this.registerWalletRoutes("/v1/internal_wallets", this.internalWallets, (assetId, address, tag) => ({ id: assetId, status: "APPROVED", address, tag, balance: "0" }));
+        this.registerWalletRoutes("/v1/external_wallets", this.externalWallets, (assetId, address, tag) => ({ id: assetId, status: "APPROVED", address, tag }));
+
+        // Exchange accounts
+        this.on("GET", "/v1/exchange_accounts", () => Array.from(this.exchangeAccounts.values()));
+        this.on("GET", "/v1/exchange_accounts/:id", ({ params }) => getOrThrow(this.exchangeAccounts, params.id, "Exchange account"));
+
+        // Transfer tickets
+        this.on("GET", "/v1/transfer_tickets", () => Array.from(this.transferTickets.values()));
+        this.on("POST", "/v1/transfer_tickets", ({ body }) => this.createTransferTicket(body));
+        this.on("GET", "/v1/transfer_tickets/:id", ({ params }) => getOrThrow(this.transferTickets, params.id, "Transfer ticket"));
+        this.on("POST", "/v1/transfer_tickets/:id/cancel", ({ params }) => {
+            getOrThrow(this.transferTickets, params.id, "Transfer ticket").status = TransferTicketStatus.CANCELED;
+            return { success: true };
+        });
+        this.on("GET", "/v1/transfer_tickets/:id/:termId", ({ params }) => this.getTerm(params.id, params.termId));
+        this.on("POST", "/v1/transfer_tickets/:id/:termId/transfer", ({ params, body }) => this.executeTerm(params.id, params.termId, body));
+    }
+
+    private registerWalletRoutes<T extends ExternalWalletAsset>(
+        prefix: string,
+        wallets: Map<string, WalletContainerResponse<T>>,
+        createWalletAsset: (assetId: string, address: string, tag?: string) => T) {
+
+        this.on("GET", prefix, () => Array.from(wallets.values()));
+        this.on("POST", prefix, ({ body }) => {
+            const wallet: WalletContainerResponse<T> = { id: uuid(), name: body.name, customerRefId: body.customerRefId, assets: [] };
+            wallets.set(wallet.id, wallet);
+            return wallet;
+        });
+        this.on("GET", `${prefix}/:id`, ({ params }) => getOrThrow(wallets, params.id, "Wallet"));
+        this.on("DELETE", `${prefix}/:id`, ({ params }) => {
+            getOrThrow(wallets, params.id, "Wallet");
+            wallets.delete(params.id);
+            return { success: true };
+        });
+        this.on("POST", `${prefix}/:id/set_customer_ref_id`, ({ params, body }) => {
+            getOrThrow(wallets, params.id, "Wallet").customerRefId = body.customerRefId;
+            return { success: true };
+        });
+        this.on("POST", `${prefix}/:id/:assetId`, ({ params, body }) => {
+            const wallet = getOrThrow(wallets, params.id, "Wallet");
+            if (wallet.assets.some(asset => asset.id === params.assetId)) {
+                throw new MockApiError(400, `Wallet ${params.id} already holds ${params.assetId}`);
+            }
+            const asset = createWalletAsset(params.assetId, body.address, body.tag);
+            wallet.assets.push(asset);
+            return asset;
+        });
+        this.on("GET", `${prefix}/:id/:assetId`, ({ params }) => this.getWalletAsset(getOrThrow(wallets, params.id, "Wallet"), params.assetId));
+        this.on("DELETE", `${prefix}/:id/:assetId`, ({ params }) => {
+            const wallet = getOrThrow(wallets, params.id, "Wallet");
+            wallet.assets.splice(wallet.assets.indexOf(this.getWalletAsset(wallet, params.assetId)), 1);
+            return { success: true };
+        });
+    }
+
+    private listVaultAccounts(query: URLSearchParams): VaultAccountResponse[] {
+        const namePrefix = query.get("namePrefix");
+        const nameSuffix = query.get("nameSuffix");
+        const assetId = query.get("assetId");
+        const minAmountThreshold = query.get("minAmountThreshold");
+
+        return Array.from(this.vaultAccounts.values()).filter(vaultAccount =>
+            (!namePrefix || vaultAccount.name.startsWith(namePrefix)) &&
+            (!nameSuffix || vaultAccount.name.endsWith(nameSuffix)) &&
+            (!assetId || vaultAccount.assets.some(asset => asset.id === assetId &&
+                (!minAmountThreshold || compareDecimals(asset.total, minAmountThreshold) >= 0))));
+    }
+
+    private createVaultAccount(name: string, hiddenOnUI: boolean, customerRefId: string, autoFuel: boolean): VaultAccountResponse {
+        const vaultAccount: VaultAccountResponse = { id: String(this.nextVaultAccountId++), name, hiddenOnUI: !!hiddenOnUI, customerRefId, autoFuel: !!autoFuel, assets: [] };
+        this.vaultAccounts.set(vaultAccount.id, vaultAccount);
+        return vaultAccount;
+    }
+
+    private getVaultAccount(vaultAccountId: string): VaultAccountResponse {
+        return getOrThrow(this.vaultAccounts, vaultAccountId, "Vault account");
+    }
+
+    private updateVaultAccount(vaultAccountId: string, update: Partial<VaultAccountResponse>) {
+        Object.assign(this.getVaultAccount(vaultAccountId), update);
+        return { success: true };
+    }
+
+    private getVaultAsset(vaultAccountId: string, assetId: string): AssetResponse {
+        const asset = this.getVaultAccount(vaultAccountId).assets.find(candidate => candidate.id === assetId);
+        if (!asset) {
+            throw new MockApiError(404, `Vault account ${vaultAccountId} has no ${assetId} wallet`);
+        }
+        return asset;
+    }
+
+    private getOrCreateVaultAsset(vaultAccount: VaultAccountResponse, assetId: string): AssetResponse {
+        let asset = vaultAccount.assets.find(candidate => candidate.id === assetId);
+        if (!asset) {
+            asset = createAsset(assetId, 0);
+            vaultAccount.assets.push(asset);
+            this.createAddress(vaultAccount.id, assetId);
+        }
+        return asset;
+    }
+
+    private createVaultAsset(vaultAccountId: string, assetId: string) {
+        const vaultAccount = this.getVaultAccount(vaultAccountId);
+        if (vaultAccount.assets.some(asset => asset.id === assetId)) {
+            throw new MockApiError(400, `Vault account ${vaultAccountId} already has a ${assetId} wallet`);
+        }
+
+        this.getOrCreateVaultAsset(vaultAccount, assetId);
+        const [address] = this.addresses.get(`${vaultAccountId}/${assetId}`);
+        return { id: vaultAccountId, address: address.address, legacyAddress: "", tag: "", eosAccountName: "" };
+    }
+
+    private createAddress(vaultAccountId: string, assetId: string, description?: string, customerRefId?: string): DepositAddressResponse {
+        const key = `${vaultAccountId}/${assetId}`;
+        const addresses = this.addresses.get(key) ?? [];
+        const address: DepositAddressResponse = {
+            assetId,
+            address: `0x${crypto.randomBytes(20).toString("hex")}`,
+            description,
+            customerRefId,
+            type: addresses.length === 0 ? "Permanent" : "Deposit",
+            addressFormat: "",
+            bip44AddressIndex: addresses.length
+        };
+        this.addresses.set(key, [...addresses, address]);
+        return address;
+    }
+
+    private getWalletAsset<T extends ExternalWalletAsset>(wallet: WalletContainerResponse<T>, assetId: string): T {
+        const asset = wallet.assets.find(candidate => candidate.id === assetId);
+        if (!asset) {
+            throw new MockApiError(404, `Wallet ${wallet.id} has no ${assetId} asset`);
+        }
+        return asset;
+    }
+
+    private listTransactions(query: URLSearchParams) {
+        const orderBy = query.get("orderBy") === "lastUpdated" ? "lastUpdated" : "createdAt";
+        const filters: { [name: string]: (transaction: MockTransaction, value: string) => boolean } = {
+            after: (transaction, value) => transaction[orderBy] >= Number(value),
+            before: (transaction, value) => transaction[orderBy] <= Number(value),
+            status: (transaction, value) => transaction.status === value,
+            txHash: (transaction, value) => transaction.txHash === value,
+            assets: (transaction, value) => value.split(",").indexOf(transaction.assetId) !== -1,
+            sourceType: (transaction, value) => transaction.source.type === value,
+            sourceId: (transaction, value) => transaction.source.id === value,
+            destType: (transaction, value) => transaction.destination?.type === value,
+            destId: (transaction, value) => transaction.destination?.id === value
+        };
+
+        const transactions = this.getTransactions()
+            .filter(transaction => Object.keys(filters).every(name => !query.has(name) || filters[name](transaction as MockTransaction, query.get(name))))
+            .sort((a, b) => b[orderBy] - a[orderBy]);
+
+        const limit = Math.min(Number(query.get("limit") ?? 200), 500);
+        const offset = Number(query.get("pageCursor") ?? 0);
+        let nextPage = "";
+        if (offset + limit < transactions.length) {
+            query.set("pageCursor", String(offset + limit));
+            nextPage = `/v1/transactions?${query.toString()}`;
+        }
+
+        return { items: transactions.slice(offset, offset + limit), nextPage };
+    }
+
+    private getTransaction(txId: string): MockTransaction {
+        return getOrThrow(this.transactions, txId, "Transaction");
+    }
+
+    private createTransaction(args: TransactionArguments): { id: string, status: TransactionStatus } {
+        if (!args.assetId) {
+            throw new MockApiError(400, "assetId is required", 1001);
+        }
+        if (args.externalTxId && this.getTransactions().some(transaction => transaction.externalTxId === args.externalTxId)) {
+            throw new MockApiError(400, `A transaction with external id ${args.externalTxId} already exists`, 1438);
+        }
+
+        const operation = args.operation ?? TransactionOperation.TRANSFER;
+        const amount = normalizeDecimal(args.destinations ? args.destinations.reduce((sum, destination) => addDecimals(sum, destination.amount), "0") : args.amount ?? 0);
+        const source = args.source ?? { type: PeerType.VAULT_ACCOUNT, id: "0" };
+        const destination = args.destination ?? args.destinations?.[0]?.destination;
+        const now = Date.now();
+
+        const transaction: MockTransaction = {
+            id: uuid(),
+            assetId: args.assetId,
+            operation,
+            source: { type: source.type, id: source.id ?? "", name: this.peerName(source.type, source.id) },
+            destination: destination ? { type: destination.type, id: destination.id ?? "", name: this.peerName(destination.type, destination.id) } : undefined,
+            destinations: args.destinations?.map(({ amount: destinationAmount, destination: { type, id, oneTimeAddress } }) => ({
+                amount: Number(destinationAmount),
+                destination: { type, id: id ?? "", name: this.peerName(type, id) },
+                destinationAddress: oneTimeAddress?.address ?? this.vaultDepositAddress({ type, id }, args.assetId)
+            })),
+            destinationAddress: destination?.oneTimeAddress?.address ?? this.vaultDepositAddress(destination, args.assetId),
+            destinationTag: destination?.oneTimeAddress?.tag ?? "",
+            amount: Number(amount),
+            requestedAmount: Number(amount),
+            netAmount: Number(amount),
+            networkFee: 0,
+            amountUSD: 0,
+            feeCurrency: args.assetId,
+            createdAt: now,
+            lastUpdated: now,
+            status: TransactionStatus.SUBMITTED,
+            subStatus: "",
+            txHash: "",
+            numOfConfirmations: 0,
+            signedBy: [],
+            createdBy: "",
+            rejectedBy: "",
+            destinationAddressDescription: "",
+            addressType: "",
+            note: args.note ?? "",
+            exchangeTxId: "",
+            externalTxId: args.externalTxId,
+            customerRefId: args.customerRefId
+        };
+        this.transactions.set(transaction.id, transaction);
+
+        if (operation === TransactionOperation.TRANSFER || operation === TransactionOperation.CONTRACT_CALL) {
+            const sourceAsset = source.type === PeerType.VAULT_ACCOUNT ? this.vaultAccounts.get(source.id)?.assets.find(asset => asset.id === args.assetId) : undefined;
+            if (source.type === PeerType.VAULT_ACCOUNT && (!sourceAsset || compareDecimals(sourceAsset.available, amount) < 0)) {
+                this.setStatus(transaction, TransactionStatus.FAILED, "INSUFFICIENT_FUNDS");
+            } else if (sourceAsset) {
+                sourceAsset.available = subtractDecimals(sourceAsset.available, amount);
+            }
+        }
+
+        return { id: transaction.id, status: transaction.status };
+    }
+
+    private vaultDepositAddress(destination: { type: PeerType, id?: string } | undefined, assetId: string): string {
+        if (destination?.type !== PeerType.VAULT_ACCOUNT || !this.vaultAccounts.has(destination.id)) {
+            return "";
+        }
+
+        this.getOrCreateVaultAsset(this.getVaultAccount(destination.id), assetId);
+        return this.addresses.get(`${destination.id}/${assetId}`)[0].address;
+    }
+
+    private progressTransactions() {
+        const intervalMs = this.options.statusIntervalMs;
+        if (!intervalMs) {
+            return;
+        }
+
+        const progression = this.options.statusProgression ?? DEFAULT_MOCK_STATUS_PROGRESSION;
+        const now = Date.now();
+        this.transactions.forEach(transaction => {
+            const index = progression.indexOf(transaction.status);
+            if (index === -1 || isTerminalTransactionStatus(transaction.status)) {
+                return;
+            }
+            const targetIndex = Math.min(Math.floor((now - transaction.createdAt) / intervalMs), progression.length - 1);
+            for (let i = index + 1; i <= targetIndex; i++) {
+                this.setStatus(transaction, progression[i]);
+            }
+        });
+    }
+
+    /**
+     * Moves a transaction to a status, moving the funds once it completes and releasing them if it fails
+     */
+    private setStatus(transaction: MockTransaction, status: TransactionStatus, subStatus: string = "") {
+        if (isTerminalTransactionStatus(transaction.status)) {
+            return;
+        }
+
+        const sourceAsset = transaction.source.type === PeerType.VAULT_ACCOUNT ?
+            this.vaultAccounts.get(transaction.source.id)?.assets.find(asset => asset.id === transaction.assetId) : undefined;
+        const amount = normalizeDecimal(transaction.amount);
+
+        if (status === TransactionStatus.BROADCASTING || status === TransactionStatus.CONFIRMING || status === TransactionStatus.COMPLETED) {
+            transaction.txHash = transaction.txHash || crypto.randomBytes(32).toString("hex");
+        }
+        if (status === TransactionStatus.CONFIRMING || status === TransactionStatus.COMPLETED) {
+            transaction.numOfConfirmations = status === TransactionStatus.COMPLETED ? Math.max(transaction.numOfConfirmations, 1) : transaction.numOfConfirmations;
+        }
+
+        if (status === TransactionStatus.COMPLETED && sourceAsset && transaction.status !== TransactionStatus.FAILED) {
+            sourceAsset.total = sourceAsset.balance = subtractDecimals(sourceAsset.total, amount);
+            const destinations = transaction.destinations ?? [{ amount: transaction.amount, destination: transaction.destination }];
+            destinations.filter(({ destination }) => destination?.type === PeerType.VAULT_ACCOUNT).forEach(({ amount: destinationAmount, destination }) => {
+                const asset = this.getOrCreateVaultAsset(this.getVaultAccount(destination.id), transaction.assetId);
+                asset.total = asset.balance = addDecimals(asset.total, destinationAmount);
+                asset.available = addDecimals(asset.available, destinationAmount);
+            });
+        } else if (FAILED_TRANSACTION_STATUSES.indexOf(status) !== -1 && sourceAsset && subStatus !== "INSUFFICIENT_FUNDS") {
+            sourceAsset.available = addDecimals(sourceAsset.available, amount);
+        }
+
+        transaction.status = status;
+        transaction.subStatus = subStatus;
+        transaction.lastUpdated = Date.now();
+    }
+
+    private peerName(type: PeerType, id: string | undefined): string | undefined {
+        switch (type) {
+            case PeerType.VAULT_ACCOUNT:
+                return this.vaultAccounts.get(id)?.name;
+            case PeerType.INTERNAL_WALLET:
+                return this.internalWallets.get(id)?.name;
+            case PeerType.EXTERNAL_WALLET:
+                return this.externalWallets.get(id)?.name;
+            case PeerType.EXCHANGE_ACCOUNT:
+                return this.exchangeAccounts.get(id)?.name;
+            default:
+                return undefined;
+        }
+    }
+
+    private createTransferTicket(args: CreateTransferTicketArgs) {
+        const ticket: TransferTicketResponse = {
+            ticketId: uuid(),
+            externalTicketId: args.externalTicketId,
+            description: args.description ?? "",
+            status: TransferTicketStatus.OPEN,
+            terms: (args.terms ?? []).map(term => ({ ...term, termId: uuid(), txIds: [], status: TransferTicketTermStatus.OPEN }))
+        };
+        this.transferTickets.set(ticket.ticketId, ticket);
+        return { ticketId: ticket.ticketId };
+    }
+
+    private getTerm(ticketId: string, termId: string) {
+        const term = getOrThrow(this.transferTickets, ticketId, "Transfer ticket").terms.find(candidate => candidate.termId === termId);
+        if (!term) {
+            throw new MockApiError(404, `Transfer ticket ${ticketId} has no term ${termId}`);
+        }
+        return term;
+    }
+
+    private executeTerm(ticketId: string, termId: string, args: ExecuteTermArgs) {
+        const ticket = getOrThrow(this.transferTickets, ticketId, "Transfer ticket");
+        const term = this.getTerm(ticketId, termId);
+        if (ticket.status === TransferTicketStatus.CANCELED || term.status !== TransferTicketTermStatus.OPEN) {
+            throw new MockApiError(400, `Term ${termId} is not open`);
+        }
+
+        const { id } = this.createTransaction({
+            assetId: term.asset,
+            amount: term.amount,
+            source: { type: args.source.type as PeerType, id: args.source.id },
+            destination: { type: PeerType.NETWORK_CONNECTION, id: term.networkConnectionId },
+            note: term.note
+        });
+        term.txIds.push(id);
+        term.status = TransferTicketTermStatus.FULFILLED;
+        ticket.status = ticket.terms.every(candidate => candidate.status === TransferTicketTermStatus.FULFILLED) ?
+            TransferTicketStatus.FULFILLED : TransferTicketStatus.PARTIALLY_FULFILLED;
+        return { success: true };
+    }
+}
+
+function createAsset(assetId: string, amount: number | string): AssetResponse {
+    const normalized = normalizeDecimal(amount);
+    return { id: assetId, total: normalized, balance: normalized, available: normalized, pending: "0", lockedAmount: "0" };
+}
+
+function getOrThrow<T>(map: Map<string, T>, id: string, kind: string): T {
+    const value = map.get(id);
+    if (!value) {
+        throw new MockApiError(404, `${kind} ${id} not found`);
+    }
+    return value;
+}
+
+function parseBody(rawBody: string): any {
+    if (!rawBody) {
+        return undefined;
+    }
+
+    try {
+        return JSON.parse(rawBody);
+    } catch (e) {
+        throw new MockApiError(400, `Malformed JSON body: ${e.message}`);
+    }
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = "";
+        req.setEncoding("utf8");
+        req.on("data", chunk => body += chunk);
+        req.on("end", () => resolve(body));
+        req.on("error", reject);
+    });
+}
@@ -0,0 +1,82 @@
+import { FireblocksError } from "./errors";
+
+export interface RateLimitOptions {
+    /**
+     * The sustained number of requests started per second. Unlimited if omitted
+     */
+    requestsPerSecond?: number;
+    /**
+     * The number of requests that may start at once after an idle period. Defaults to requestsPerSecond, requires requestsPerSecond
+     */
+    burst?: number;
+    /**
+     * The maximal number of requests in flight. Unlimited if omitted
+     */
+    maxConcurrent?: number;
+}
+
+/**
+ * A token bucket rate limiter with a concurrency cap. Queued tasks start in the order they were scheduled
+ */
+export class RateLimiter {
+    private readonly requestsPerSecond: number;
+    private readonly capacity: number;
+    private readonly maxConcurrent: number;
+    private tokens: number;
+    private lastRefill = Date.now();
+    private inFlight = 0;
+    private queue: (() => void)[] = [];
+    private timer: NodeJS.Timeout;
+
+    constructor(options: RateLimitOptions) {
+        if (options.burst !== undefined && options.requestsPerSecond === undefined) {
+            throw new FireblocksError("A rate limit burst requires requestsPerSecond, the tokens of the burst are never refilled without it");
+        }
+        this.requestsPerSecond = options.requestsPerSecond ?? Infinity;
+        this.capacity = Math.max(1, options.burst ?? this.requestsPerSecond);
+        this.maxConcurrent = options.maxConcurrent ?? Infinity;
+        this.tokens = this.capacity;
+    }
+
+    public async schedule<T>(task: () => Promise<T>): Promise<T> {
+        await new Promise<void>(resolve => {
+            this.queue.push(resolve);
+            this.drain();
+        });
+
+        try {
+            return await task();
+        } finally {
+            this.inFlight--;
+            this.drain();
+        }
+    }
+
+    private drain() {
+        this.refill();
+
+        while (this.queue.length > 0 && this.inFlight < this.maxConcurrent && this.tokens >= 1) {
+            this.tokens--;
+            this.inFlight++;
+            this.queue.shift()();
+        }
+
+        if (this.queue.length > 0 && this.inFlight < this.maxConcurrent && !this.timer) {
+            const waitMs = Math.ceil((1 - this.tokens) / this.requestsPerSecond * 1000);
+            this.timer = setTimeout(() => {
+                this.timer = undefined;
+                this.drain();
+            }, waitMs);
+        }
+    }
+
+    private refill() {
+        if (this.requestsPerSecond === Infinity) {
+            return;
+        }
+
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + (now - this.lastRefill) * this.requestsPerSecond / 1000);
+        this.lastRefill = now;
+    }
+}
@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import { SignedMessageResponse, SigningAlgorithm } from "./types";
+import { bytesToBigInt, Curve, decodePublicKey, EcdsaSignature, recoverPublicKey, SECP256K1, SECP256R1, verify } from "./ecdsa";
+
+const ED25519_SPKI_PREFIX = Buffer.from("302a300506032b6570032100", "hex");
+
+/**
+ * Verifies a signature returned by a RAW transaction against the public key returned with it.
+ * ECDSA signatures are verified over the content as a pre-hashed digest, and their v value, when present, must recover the public key
+ * @param message A signed message of a completed RAW transaction
+ * @param algorithm The algorithm the message was signed with. Defaults to the algorithm of the message
+ */
+export function verifySignedMessage(message: SignedMessageResponse, algorithm?: SigningAlgorithm): boolean {
+    try {
+        switch (algorithm ?? message.algorithm) {
+            case SigningAlgorithm.MPC_ECDSA_SECP256K1:
+                return verifyEcdsaMessage(SECP256K1, message);
+            case SigningAlgorithm.MPC_ECDSA_SECP256R1:
+                return verifyEcdsaMessage(SECP256R1, message);
+            case SigningAlgorithm.MPC_EDDSA_ED25519:
+                return verifyEddsaMessage(message);
+            default:
+                return false;
+        }
+    } catch (e) {
+        return false;
+    }
+}
+
+/**
+ * Extracts r and s of an ECDSA signature, checking that the full signature matches them.
+ * Returns undefined for a malformed signature, or one with neither a full signature nor both r and s
+ */
+export function parseEcdsaSignature(signature: SignedMessageResponse["signature"]): EcdsaSignature | undefined {
+    const fullSig = signature.fullSig ? Buffer.from(signature.fullSig, "hex") : undefined;
+    if (fullSig ? fullSig.length !== 64 : !signature.r || !signature.s) {
+        return undefined;
+    }
+
+    const r = signature.r ? bytesToBigInt(Buffer.from(signature.r, "hex")) : bytesToBigInt(fullSig.slice(0, 32));
+    const s = signature.s ? bytesToBigInt(Buffer.from(signature.s, "hex")) : bytesToBigInt(fullSig.slice(32));
+    if (fullSig && (bytesToBigInt(fullSig.slice(0, 32)) !== r || bytesToBigInt(fullSig.slice(32)) !== s)) {
+        return undefined;
+    }
+
+    return { r, s };
+}
+
+function verifyEcdsaMessage(curve: Curve, message: SignedMessageResponse): boolean {
+    const digest = Buffer.from(message.content, "hex");
+    const publicKey = decodePublicKey(curve, Buffer.from(message.publicKey, "hex"));
+    const signature = parseEcdsaSignature(message.signature);
+    if (!signature || !verify(curve, digest, signature, publicKey)) {
+        return false;
+    }
+
+    const v = message.signature.v;
+    if (v === undefined) {
+        return true;
+    }
+
+    const recovered = recoverPublicKey(curve, digest, signature, v >= 27 ? v - 27 : v);
+    return !!recovered && recovered.x === publicKey.x && recovered.y === publicKey.y;
+}
+
+function verifyEddsaMessage(message: SignedMessageResponse): boolean {
+    let publicKeyBytes = Buffer.from(message.publicKey, "hex");
+    if (publicKeyBytes.length === 33 && publicKeyBytes[0] === 0) {
+        publicKeyBytes = publicKeyBytes.slice(1);
+    }
+
+    const publicKey = crypto.createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, publicKeyBytes]), format: "der", type: "spki" });
+    return crypto.verify(undefined, Buffer.from(message.content, "hex"), publicKey, Buffer.from(message.signature.fullSig, "hex"));
+}
@@ -0,0 +1,39 @@
+import { IAuthProvider } from "./iauth-provider";
+import { createJwtPayload } from "./api-token-provider";
+
+/**
+ * Signs the input with RS256 (RSASSA-PKCS1-v1_5 with SHA-256) and returns the raw signature, or the signature encoded as base64
+ */
+export type RemoteSigner = (signingInput: Buffer) => Promise<Buffer | string>;
+
+/**
+ * An auth provider for keys that never leave an HSM, a KMS or a separate signing process.
+ * The JWT is built locally and only its signing input is handed to the signer
+ */
+export class RemoteSignerAuthProvider implements IAuthProvider {
+
+    /**
+     * @param apiKey Your api key
+     * @param signer Signs the JWT signing input with the private key matching the api key
+     */
+    constructor(private apiKey: string, private signer: RemoteSigner) { }
+
+    async signJwt(path: string, bodyJson?: any): Promise<string> {
+        const header = base64Url(Buffer.from(JSON.stringify({ alg: "RS256", typ: "JWT" })));
+        const payload = base64Url(Buffer.from(JSON.stringify(createJwtPayload(path, bodyJson, this.apiKey))));
+        const signingInput = `${header}.${payload}`;
+
+        const signature = await this.signer(Buffer.from(signingInput));
+        const signatureBytes = Buffer.isBuffer(signature) ? signature : Buffer.from(signature, "base64");
+
+        return `${signingInput}.${base64Url(signatureBytes)}`;
+    }
+
+    getApiKey(): string {
+        return this.apiKey;
+    }
+}
+
+function base64Url(data: Buffer): string {
+    return data.toString("base64").replace(/=+$/, "").replace(/\+/g, "-").replace(/\//g, "_");
+}
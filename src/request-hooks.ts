@@ -0,0 +1,93 @@
+import { FireblocksError } from "./errors";
+import { ValidationIssue } from "./types";
+
+const REDACTED_HEADERS = ["authorization", "x-api-key"];
+
+export interface RequestContext {
+    method: string;
+    path: string;
+    /**
+     * The request headers, with the JWT and api key redacted
+     */
+    headers: { [name: string]: string };
+    body?: any;
+    /**
+     * The number of the attempt, starting from 1, when retries are enabled
+     */
+    attempt: number;
+}
+
+export interface ResponseContext extends RequestContext {
+    status: number;
+    latencyMs: number;
+    requestId?: string;
+    data: any;
+}
+
+export interface ErrorContext extends RequestContext {
+    error: FireblocksError;
+    status?: number;
+    latencyMs: number;
+    requestId?: string;
+}
+
+export interface ValidationContext {
+    method: string;
+    path: string;
+    data: any;
+    issues: ValidationIssue[];
+}
+
+/**
+ * Callbacks invoked around every HTTP request the SDK issues, e.g. for tracing, metrics and audit logging.
+ * A hook that throws does not affect the request, its error is emitted as a process warning
+ */
+export interface RequestHooks {
+    beforeRequest?(context: RequestContext): void | Promise<void>;
+    afterResponse?(context: ResponseContext): void | Promise<void>;
+    onError?(context: ErrorContext): void | Promise<void>;
+    /**
+     * Called with the issues found in a response when response validation is set to warn
+     */
+    onValidationIssues?(context: ValidationContext): void | Promise<void>;
+}
+
+export interface Logger {
+    debug(message: string, meta?: object): void;
+    info(message: string, meta?: object): void;
+    warn(message: string, meta?: object): void;
+    error(message: string, meta?: object): void;
+}
+
+export function sanitizeHeaders(headers: { [name: string]: string }): { [name: string]: string } {
+    const sanitized: { [name: string]: string } = {};
+    Object.keys(headers).forEach(name => {
+        sanitized[name] = REDACTED_HEADERS.indexOf(name.toLowerCase()) !== -1 ? "[REDACTED]" : headers[name];
+    });
+    return sanitized;
+}
+
+/**
+ * Creates hooks that log every request to the logger: requests at debug level, responses at info level and failures at error level
+ */
+export function createLoggingHooks(logger: Logger): RequestHooks {
+    return {
+        beforeRequest: context => logger.debug(`${context.method} ${context.path}`, {
+            headers: context.headers,
+            attempt: context.attempt
+        }),
+        afterResponse: context => logger.info(`${context.method} ${context.path} ${context.status} ${context.latencyMs}ms`, {
+            status: context.status,
+            latencyMs: context.latencyMs,
+            requestId: context.requestId,
+            attempt: context.attempt
+        }),
+        onError: context => logger.error(context.error.message, {
+            status: context.status,
+            latencyMs: context.latencyMs,
+            requestId: context.requestId,
+            attempt: context.attempt,
+            error: context.error.name
+        })
+    };
+}
@@ -0,0 +1,287 @@
+import {
+    PeerType,
+    TransactionStatus,
+    TransferTicketStatus,
+    TransferTicketTermStatus,
+    ValidationIssue,
+    ValidationIssueKind,
+    VirtualAffiliation,
+    VirtualType
+} from "./types";
+
+type Schema =
+    { kind: "string" | "number" | "boolean" | "amount" | "any" } |
+    { kind: "enum", name: string, values: string[] } |
+    { kind: "array", items: Schema } |
+    { kind: "object", properties: { [name: string]: Schema }, required: string[] };
+
+interface SchemaRoute {
+    method: string;
+    path: RegExp;
+    schema: Schema;
+    /**
+     * The schema of the { transactions, pageDetails } result of a paged request
+     */
+    pageSchema?: Schema;
+}
+
+const string: Schema = { kind: "string" };
+const number: Schema = { kind: "number" };
+const boolean: Schema = { kind: "boolean" };
+/**
+ * A number, or a decimal string when the SDK is created with the decimalAmounts option
+ */
+const amount: Schema = { kind: "amount" };
+const any: Schema = { kind: "any" };
+
+function enumOf(name: string, values: { [key: string]: string }): Schema {
+    return { kind: "enum", name, values: Object.keys(values).map(key => values[key]) };
+}
+
+function arrayOf(items: Schema): Schema {
+    return { kind: "array", items };
+}
+
+/**
+ * An object schema. Only the properties listed in required must be present and not null, the others are checked when present.
+ * The required properties are kept to those every response carries, whatever the operation or the status of the entity
+ */
+function object(properties: { [name: string]: Schema }, required: string[] = []): Schema {
+    return { kind: "object", properties, required };
+}
+
+const peerType = enumOf("PeerType", PeerType as any);
+const transactionStatus = enumOf("TransactionStatus", TransactionStatus as any);
+
+const assetSchema = object({
+    id: string,
+    total: string,
+    balance: string,
+    lockedAmount: string,
+    available: string,
+    pending: string,
+    allocatedBalances: arrayOf(object({
+        allocationId: string,
+        thirdPartyAccountId: string,
+        affiliation: enumOf("VirtualAffiliation", VirtualAffiliation as any),
+        virtualType: enumOf("VirtualType", VirtualType as any),
+        total: string,
+        available: string,
+        pending: string,
+        frozen: string,
+        locked: string
+    }, ["allocationId"]))
+}, ["id"]);
+
+const vaultAccountSchema = object({
+    id: string,
+    name: string,
+    hiddenOnUI: boolean,
+    assets: arrayOf(assetSchema),
+    customerRefId: string,
+    autoFuel: boolean
+}, ["id", "name"]);
+
+const depositAddressSchema = object({
+    assetId: string,
+    address: string,
+    tag: string,
+    description: string,
+    type: string,
+    customerRefId: string,
+    addressFormat: string,
+    bip44AddressIndex: number,
+    legacyAddress: string,
+    enterpriseAddress: string
+}, ["assetId", "address"]);
+
+// One time addresses and unknown peers have no id
+const peerSchema = object({ id: string, type: peerType, name: string, subType: string }, ["type"]);
+
+const transactionSchema = object({
+    id: string,
+    assetId: string,
+    source: peerSchema,
+    destination: peerSchema,
+    amount,
+    fee: amount,
+    networkFee: amount,
+    amountUSD: amount,
+    netAmount: amount,
+    createdAt: number,
+    lastUpdated: number,
+    status: transactionStatus,
+    txHash: string,
+    numOfConfirmations: number,
+    subStatus: string,
+    signedBy: arrayOf(string),
+    createdBy: string,
+    rejectedBy: string,
+    destinationAddress: string,
+    destinationAddressDescription: string,
+    destinationTag: string,
+    addressType: string,
+    note: string,
+    exchangeTxId: string,
+    requestedAmount: amount,
+    serviceFee: amount,
+    feeCurrency: string,
+    amlScreeningResult: any,
+    signedMessages: arrayOf(object({
+        content: string,
+        algorithm: string,
+        derivationPath: any,
+        signature: object({ fullSig: string, r: string, s: string, v: number }),
+        publicKey: string
+    }, ["content", "signature", "publicKey"])),
+    externalTxId: string,
+    blockInfo: object({ blockHeight: string, blockHash: string }),
+    authorizationInfo: any,
+    destinations: arrayOf(object({
+        amount,
+        amountUSD: amount,
+        destination: peerSchema,
+        destinationAddress: string,
+        destinationAddressDescription: string,
+        customerRefId: string
+    }, ["amount", "destination"]))
+}, ["id", "assetId", "source", "status", "createdAt", "lastUpdated"]);
+
+const walletAssetSchema = object({ id: string, status: string, address: string, tag: string, activationTime: string, balance: string }, ["id"]);
+const walletSchema = object({ id: string, name: string, assets: arrayOf(walletAssetSchema), customerRefId: string }, ["id", "name"]);
+
+const exchangeAccountSchema = object({
+    id: string,
+    type: string,
+    name: string,
+    assets: arrayOf(assetSchema),
+    isSubaccount: boolean,
+    status: string
+}, ["id", "type"]);
+
+const estimatedFeeSchema = object({
+    networkFee: string,
+    gasPrice: string,
+    gasLimit: string,
+    feePerByte: string,
+    baseFee: string,
+    priorityFee: string
+});
+
+const transferTicketSchema = object({
+    ticketId: string,
+    externalTicketId: string,
+    description: string,
+    status: enumOf("TransferTicketStatus", TransferTicketStatus as any),
+    terms: arrayOf(object({
+        termId: string,
+        networkConnectionId: string,
+        outgoing: boolean,
+        asset: string,
+        amount: string,
+        txIds: arrayOf(string),
+        status: enumOf("TransferTicketTermStatus", TransferTicketTermStatus as any),
+        note: string
+    }, ["termId", "status"]))
+}, ["ticketId", "status"]);
+
+const SCHEMA_ROUTES: SchemaRoute[] = [
+    { method: "GET", path: /^\/v1\/vault\/accounts$/, schema: arrayOf(vaultAccountSchema) },
+    { method: "POST", path: /^\/v1\/vault\/accounts$/, schema: vaultAccountSchema },
+    { method: "GET", path: /^\/v1\/vault\/accounts\/[^/]+$/, schema: vaultAccountSchema },
+    { method: "GET", path: /^\/v1\/vault\/accounts\/[^/]+\/[^/]+$/, schema: assetSchema },
+    { method: "GET", path: /^\/v1\/vault\/accounts\/[^/]+\/[^/]+\/addresses$/, schema: arrayOf(depositAddressSchema) },
+    {
+        method: "GET",
+        path: /^\/v1\/transactions$/,
+        schema: arrayOf(transactionSchema),
+        pageSchema: object({ transactions: arrayOf(transactionSchema), pageDetails: object({ prevPage: string, nextPage: string }) }, ["transactions"])
+    },
+    { method: "POST", path: /^\/v1\/transactions$/, schema: object({ id: string, status: transactionStatus }, ["id"]) },
+    { method: "POST", path: /^\/v1\/transactions\/estimate_fee$/, schema: object({ low: estimatedFeeSchema, medium: estimatedFeeSchema, high: estimatedFeeSchema }, ["low", "medium", "high"]) },
+    { method: "GET", path: /^\/v1\/transactions\/external_tx_id\/[^/]+$/, schema: transactionSchema },
+    { method: "GET", path: /^\/v1\/transactions\/[^/]+$/, schema: transactionSchema },
+    { method: "GET", path: /^\/v1\/(internal|external)_wallets$/, schema: arrayOf(walletSchema) },
+    { method: "GET", path: /^\/v1\/(internal|external)_wallets\/[^/]+$/, schema: walletSchema },
+    { method: "GET", path: /^\/v1\/(internal|external)_wallets\/[^/]+\/[^/]+$/, schema: walletAssetSchema },
+    { method: "GET", path: /^\/v1\/exchange_accounts$/, schema: arrayOf(exchangeAccountSchema) },
+    { method: "GET", path: /^\/v1\/exchange_accounts\/[^/]+$/, schema: exchangeAccountSchema },
+    { method: "GET", path: /^\/v1\/transfer_tickets$/, schema: arrayOf(transferTicketSchema) },
+    { method: "GET", path: /^\/v1\/transfer_tickets\/[^/]+$/, schema: transferTicketSchema }
+];
+
+/**
+ * Checks a response against the type the SDK declares for it. Unknown properties are allowed, as the API adds fields over time,
+ * but unknown enum values are reported so that new statuses do not go unnoticed
+ * @param pageMode Whether data is the { transactions, pageDetails } result of a paged request
+ * @param decimalAmounts Whether amounts are expected as decimal strings rather than numbers
+ * @returns The issues found, empty for a valid response or one the SDK has no schema for
+ */
+export function validateResponse(method: string, path: string, data: any, pageMode: boolean = false, decimalAmounts: boolean = false): ValidationIssue[] {
+    const pathname = path.split("?")[0];
+    const route = SCHEMA_ROUTES.find(candidate => candidate.method === method && candidate.path.test(pathname));
+    const schema = pageMode ? route?.pageSchema : route?.schema;
+    if (!schema) {
+        return [];
+    }
+
+    const issues: ValidationIssue[] = [];
+    validate(schema, data, "", issues, decimalAmounts);
+    return issues;
+}
+
+function validate(schema: Schema, value: any, path: string, issues: ValidationIssue[], decimalAmounts: boolean) {
+    const location = path || "response";
+    const wrongType = (expected: string) => issues.push({
+        kind: ValidationIssueKind.WRONG_TYPE,
+        path,
+        message: `Expected ${location} to be ${expected}, got ${JSON.stringify(value)}`,
+        value
+    });
+
+    switch (schema.kind) {
+        case "any":
+            return;
+        case "string":
+        case "number":
+        case "boolean":
+            if (typeof value !== schema.kind) {
+                wrongType(`a ${schema.kind}`);
+            }
+            return;
+        case "amount":
+            if (decimalAmounts ? typeof value !== "string" || !/^-?\d+(\.\d+)?$/.test(value) : typeof value !== "number") {
+                wrongType(decimalAmounts ? "a decimal string" : "a number");
+            }
+            return;
+        case "enum":
+            if (typeof value !== "string") {
+                wrongType(`a ${schema.name}`);
+            } else if (schema.values.indexOf(value) === -1) {
+                issues.push({ kind: ValidationIssueKind.UNKNOWN_ENUM_VALUE, path, message: `Unknown ${schema.name} ${value} at ${location}`, value });
+            }
+            return;
+        case "array":
+            if (!Array.isArray(value)) {
+                wrongType("an array");
+                return;
+            }
+            value.forEach((item, i) => validate(schema.items, item, `${path}[${i}]`, issues, decimalAmounts));
+            return;
+        case "object":
+            if (!value || typeof value !== "object" || Array.isArray(value)) {
+                wrongType("an object");
+                return;
+            }
+            Object.keys(schema.properties).forEach(name => {
+                const propertyPath = path ? `${path}.${name}` : name;
+                if (value[name] === undefined || value[name] === null) {
+                    if (schema.required.indexOf(name) !== -1) {
+                        issues.push({ kind: ValidationIssueKind.MISSING, path: propertyPath, message: `Missing ${propertyPath}` });
+                    }
+                    return;
+                }
+                validate(schema.properties[name], value[name], propertyPath, issues, decimalAmounts);
+            });
+    }
+}
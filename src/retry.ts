@@ -0,0 +1,109 @@
+import { FireblocksApiError, FireblocksError, NetworkError } from "./errors";
+
+export interface RetryOptions {
+    /**
+     * Total number of attempts, including the first one. Defaults to 3
+     */
+    maxAttempts?: number;
+    /**
+     * The delay before the first retry, in milliseconds. Doubled on every subsequent retry. Defaults to 500
+     */
+    baseDelayMs?: number;
+    /**
+     * The maximal delay between attempts, in milliseconds. Defaults to 10000
+     */
+    maxDelayMs?: number;
+    /**
+     * Randomize each delay between 0 and its computed value to spread out retries of concurrent requests. Defaults to true
+     */
+    jitter?: boolean;
+    /**
+     * HTTP statuses that are retried. Defaults to 429, 500, 502, 503 and 504
+     */
+    retryableStatuses?: number[];
+    /**
+     * Error codes of requests that got no response (e.g. ECONNRESET) that are retried
+     */
+    retryableErrorCodes?: string[];
+    /**
+     * Wait for the delay requested by a Retry-After response header when it is present. A request is not retried when
+     * the server asks to wait longer than maxDelayMs; its error carries the requested delay in retryAfterMs. Defaults to true
+     */
+    respectRetryAfter?: boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+    maxAttempts: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 10000,
+    jitter: true,
+    retryableStatuses: [429, 500, 502, 503, 504],
+    retryableErrorCodes: ["ECONNRESET", "ECONNREFUSED", "ECONNABORTED", "ETIMEDOUT", "EPIPE", "EAI_AGAIN"],
+    respectRetryAfter: true
+};
+
+export class RetryPolicy {
+    private readonly options: Required<RetryOptions>;
+
+    constructor(options?: RetryOptions) {
+        this.options = { ...DEFAULT_RETRY_OPTIONS, ...options };
+    }
+
+    /**
+     * A policy that makes a single attempt, used when no retry options are configured
+     */
+    public static none(): RetryPolicy {
+        return new RetryPolicy({ maxAttempts: 1 });
+    }
+
+    public get maxAttempts(): number {
+        return Math.max(1, this.options.maxAttempts);
+    }
+
+    /**
+     * @param err The error the attempt failed with
+     * @param attempt The number of the failed attempt, starting from 1
+     */
+    public shouldRetry(err: FireblocksError, attempt: number): boolean {
+        if (attempt >= this.maxAttempts) {
+            return false;
+        }
+
+        if (err instanceof NetworkError) {
+            return this.options.retryableErrorCodes.indexOf(err.cause?.code) !== -1;
+        }
+
+        if (this.mustWaitLongerThanAllowed(err)) {
+            return false;
+        }
+
+        if (err instanceof FireblocksApiError && err.status) {
+            return this.options.retryableStatuses.indexOf(err.status) !== -1;
+        }
+
+        return false;
+    }
+
+    /**
+     * @param err The error the attempt failed with
+     * @param attempt The number of the failed attempt, starting from 1
+     */
+    public getDelayMs(err: FireblocksError, attempt: number): number {
+        if (this.options.respectRetryAfter && err instanceof FireblocksApiError && err.retryAfterMs !== undefined) {
+            return err.retryAfterMs;
+        }
+
+        const delay = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * Math.pow(2, attempt - 1));
+
+        return this.options.jitter ? Math.floor(Math.random() * delay) : delay;
+    }
+
+    private mustWaitLongerThanAllowed(err: FireblocksError): boolean {
+        return this.options.respectRetryAfter && err instanceof FireblocksApiError && err.retryAfterMs !== undefined
+            && err.retryAfterMs > this.options.maxDelayMs;
+    }
+}
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,243 @@
+import {
+    AssetTypeResponse,
+    DestinationTransferPeerPath,
+    FeeLevel,
+    PeerType,
+    RawMessageData,
+    TransactionArguments,
+    TransactionOperation,
+    TransferPeerPath
+} from "./types";
+import { InvalidTransactionError } from "./errors";
+import { compareDecimals } from "./decimal";
+
+/**
+ * The base assets of EVM compatible chains, whose transactions can be replaced by hash
+ */
+export const EVM_BASE_ASSETS = [
+    "ETH", "ETH_TEST", "ETH_TEST3", "ETC", "ETC_TEST", "BNB_BSC", "BNB_TEST", "MATIC_POLYGON", "MATIC_POLYGON_MUMBAI",
+    "AVAX", "AVAXTEST", "FTM_FANTOM", "CELO", "CELO_ALF", "RBTC", "RBTC_TEST", "XDAI", "XDAI_TEST", "MOVR", "GLMR", "RON"
+];
+
+export interface TransactionFee {
+    feeLevel?: FeeLevel;
+    fee?: number | string;
+    maxFee?: string;
+    gasPrice?: number | string;
+    gasLimit?: number | string;
+    priorityFee?: number | string;
+    failOnLowFee?: boolean;
+}
+
+/**
+ * Builds the arguments of createTransaction, validating them against the rules of their operation before they are sent
+ */
+export class TransactionBuilder {
+    private args: TransactionArguments;
+    private assetInfo?: AssetTypeResponse;
+
+    constructor(operation: TransactionOperation = TransactionOperation.TRANSFER) {
+        this.args = { operation };
+    }
+
+    /**
+     * @param assetId The ID of the asset
+     * @param assetInfo The asset as returned by getSupportedAssets, allows validating asset specific rules for tokens
+     */
+    public asset(assetId: string, assetInfo?: AssetTypeResponse): this {
+        this.args.assetId = assetId;
+        this.assetInfo = assetInfo;
+        return this;
+    }
+
+    /**
+     * @param source A vault account ID, or any source peer
+     */
+    public from(source: string | TransferPeerPath): this {
+        this.args.source = typeof source === "string" ? { type: PeerType.VAULT_ACCOUNT, id: source } : source;
+        return this;
+    }
+
+    public to(destination: DestinationTransferPeerPath): this {
+        this.args.destination = destination;
+        return this;
+    }
+
+    public toVaultAccount(vaultAccountId: string): this {
+        return this.to({ type: PeerType.VAULT_ACCOUNT, id: vaultAccountId });
+    }
+
+    public toExternalWallet(walletId: string): this {
+        return this.to({ type: PeerType.EXTERNAL_WALLET, id: walletId });
+    }
+
+    public toInternalWallet(walletId: string): this {
+        return this.to({ type: PeerType.INTERNAL_WALLET, id: walletId });
+    }
+
+    /**
+     * @param address The destination address
+     * @param tag The XRP tag, or EOS memo
+     */
+    public toOneTimeAddress(address: string, tag?: string): this {
+        return this.to({ type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address, tag } });
+    }
+
+    /**
+     * Adds a destination to a transaction with multiple destinations, supported for UTXO based assets
+     */
+    public addDestination(destination: DestinationTransferPeerPath, amount: number | string): this {
+        this.args.destinations = [...(this.args.destinations ?? []), { destination, amount }];
+        return this;
+    }
+
+    public amount(amount: number | string, treatAsGrossAmount?: boolean): this {
+        this.args.amount = amount;
+        if (treatAsGrossAmount !== undefined) {
+            this.args.treatAsGrossAmount = treatAsGrossAmount;
+        }
+        return this;
+    }
+
+    /**
+     * @param fee A fee level, or explicit fee parameters
+     */
+    public fee(fee: FeeLevel | TransactionFee): this {
+        Object.assign(this.args, typeof fee === "string" ? { feeLevel: fee } : fee);
+        return this;
+    }
+
+    public note(note: string): this {
+        this.args.note = note;
+        return this;
+    }
+
+    public externalTxId(externalTxId: string): this {
+        this.args.externalTxId = externalTxId;
+        return this;
+    }
+
+    public customerRefId(customerRefId: string): this {
+        this.args.customerRefId = customerRefId;
+        return this;
+    }
+
+    public replaceTxByHash(txHash: string): this {
+        this.args.replaceTxByHash = txHash;
+        return this;
+    }
+
+    public contractCallData(data: string): this {
+        this.args.extraParameters = { ...this.args.extraParameters, contractCallData: data };
+        return this;
+    }
+
+    public rawMessageData(rawMessageData: RawMessageData): this {
+        this.args.extraParameters = { ...this.args.extraParameters, rawMessageData };
+        return this;
+    }
+
+    public extraParameters(extraParameters: object): this {
+        this.args.extraParameters = { ...this.args.extraParameters, ...extraParameters };
+        return this;
+    }
+
+    /**
+     * Validates and returns the transaction arguments
+     * @throws InvalidTransactionError listing every rule the transaction breaks
+     */
+    public build(): TransactionArguments {
+        const errors = this.validate();
+        if (errors.length > 0) {
+            throw new InvalidTransactionError(errors);
+        }
+
+        return { ...this.args };
+    }
+
+    private validate(): string[] {
+        const args = this.args;
+        const extraParameters: any = args.extraParameters ?? {};
+        const errors: string[] = [];
+
+        if (!args.assetId) {
+            errors.push("assetId is required");
+        }
+        if (!args.source) {
+            errors.push("a source is required");
+        }
+        if (args.destination && args.destinations) {
+            errors.push("destination and destinations can not be combined");
+        }
+        if (args.destination?.type === PeerType.ONE_TIME_ADDRESS && !args.destination.oneTimeAddress?.address) {
+            errors.push("a one time address destination requires an address");
+        }
+
+        switch (args.operation) {
+            case TransactionOperation.RAW:
+            case TransactionOperation.TYPED_MESSAGE:
+                if (!extraParameters.rawMessageData?.messages?.length) {
+                    errors.push(`${args.operation} transactions require at least one message in rawMessageData`);
+                }
+                if (args.destination || args.destinations || args.amount !== undefined) {
+                    errors.push(`${args.operation} transactions have no destination or amount`);
+                }
+                break;
+
+            case TransactionOperation.CONTRACT_CALL:
+                if (!args.destination) {
+                    errors.push("CONTRACT_CALL transactions require a destination");
+                }
+                if (args.destinations) {
+                    errors.push("CONTRACT_CALL transactions have a single destination");
+                }
+                if (!extraParameters.contractCallData) {
+                    errors.push("CONTRACT_CALL transactions require contractCallData");
+                }
+                break;
+
+            default:
+                if (args.operation === TransactionOperation.TRANSFER && !args.destination && !args.destinations) {
+                    errors.push("TRANSFER transactions require a destination");
+                }
+                if (args.destinations) {
+                    if (args.amount !== undefined) {
+                        errors.push("the amount of a transaction with multiple destinations is set per destination");
+                    }
+                    args.destinations.filter(d => !isPositive(d.amount)).forEach(() => errors.push("every destination requires a positive amount"));
+                } else if (!isPositive(args.amount)) {
+                    errors.push(`${args.operation} transactions require a positive amount`);
+                }
+        }
+
+        if (args.feeLevel && (args.fee !== undefined || args.gasPrice !== undefined || args.priorityFee !== undefined)) {
+            errors.push("feeLevel can not be combined with fee, gasPrice or priorityFee");
+        }
+        if (args.gasPrice !== undefined && args.priorityFee !== undefined) {
+            errors.push("gasPrice can not be combined with priorityFee, use either legacy or EIP-1559 fees");
+        }
+
+        if (args.replaceTxByHash && args.assetId && !this.isEvmAsset()) {
+            errors.push(`replaceTxByHash is only supported for EVM based assets${this.assetInfo ? "" : ", pass the asset info to asset() for tokens"}`);
+        }
+
+        return errors.filter((error, index) => errors.indexOf(error) === index);
+    }
+
+    private isEvmAsset(): boolean {
+        const baseAsset = this.assetInfo?.nativeAsset || this.args.assetId;
+        return EVM_BASE_ASSETS.indexOf(baseAsset) !== -1;
+    }
+}
+
+function isPositive(amount: number | string | undefined): boolean {
+    if (amount === undefined || amount === "") {
+        return false;
+    }
+
+    try {
+        return compareDecimals(amount, 0) > 0;
+    } catch (e) {
+        return false;
+    }
+}
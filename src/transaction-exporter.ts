@@ -0,0 +1,131 @@
+import { Writable } from "stream";
+import { FireblocksSDK } from "./fireblocks-sdk";
+import { FireblocksError } from "./errors";
+import { toCsvLine } from "./csv";
+import {
+    TransactionExportColumn,
+    TransactionExportFormat,
+    TransactionExportOptions,
+    TransactionExportSummary,
+    TransactionOrder,
+    TransactionPageFilter,
+    TransactionResponse
+} from "./types";
+
+export const DEFAULT_TRANSACTION_EXPORT_COLUMNS: TransactionExportColumn[] = [
+    "id", "externalTxId", "createdAt", "lastUpdated", "status", "subStatus", "assetId",
+    "amount", "netAmount", "requestedAmount", "networkFee", "serviceFee", "feeCurrency", "amountUSD",
+    "source.type", "source.id", "source.name", "destination.type", "destination.id", "destination.name",
+    "destinationAddress", "destinationTag", "txHash", "numOfConfirmations", "note", "createdBy", "signedBy",
+    "amlScreeningResult.provider", "amlScreeningResult.screeningStatus", "amlScreeningResult.bypassReason",
+    "blockInfo.blockHeight", "blockInfo.blockHash", "signedMessages"
+];
+
+/**
+ * Streams the transactions matching a filter to a writable as CSV or JSON Lines, one page at a time, honoring backpressure.
+ * The output is not ended, so that several exports can share it
+ */
+export async function exportTransactions(sdk: FireblocksSDK, output: Writable, options: TransactionExportOptions): Promise<TransactionExportSummary> {
+    if (options.format !== TransactionExportFormat.CSV && options.format !== TransactionExportFormat.JSONL) {
+        throw new FireblocksError(`Unsupported export format: ${options.format}`);
+    }
+
+    const columns = options.columns ?? (options.format === TransactionExportFormat.CSV ? DEFAULT_TRANSACTION_EXPORT_COLUMNS : undefined);
+    const summary: TransactionExportSummary = { count: 0, chunks: 0 };
+
+    if (options.format === TransactionExportFormat.CSV) {
+        await write(output, toCsvLine(columns.map(columnHeader)));
+    }
+
+    let previousIds = new Set<string>();
+    for (const filter of createChunks(options.filter ?? {}, options.chunkMs)) {
+        const ids = new Set<string>();
+        summary.chunks++;
+
+        for await (const transaction of sdk.iterateTransactions(filter)) {
+            // Consecutive chunks share their boundary timestamp, skip the transactions already exported at it
+            if (previousIds.has(transaction.id) || ids.has(transaction.id)) {
+                continue;
+            }
+            if (orderedTimestamp(transaction, filter) === filter.before) {
+                ids.add(transaction.id);
+            }
+
+            await write(output, formatTransaction(transaction, options.format, columns));
+            summary.count++;
+        }
+        previousIds = ids;
+    }
+
+    return summary;
+}
+
+/**
+ * The timestamp the filter's after and before apply to
+ */
+function orderedTimestamp(transaction: TransactionResponse, filter: TransactionPageFilter): number {
+    return filter.orderBy === TransactionOrder.LAST_UPDATED ? transaction.lastUpdated : transaction.createdAt;
+}
+
+function createChunks(filter: TransactionPageFilter, chunkMs: number | undefined): TransactionPageFilter[] {
+    if (!chunkMs) {
+        return [filter];
+    }
+    if (filter.after === undefined) {
+        throw new FireblocksError("Exporting in chunks requires filter.after");
+    }
+
+    const end = filter.before ?? Date.now();
+    const chunks: TransactionPageFilter[] = [];
+    for (let start = filter.after; start < end; start += chunkMs) {
+        chunks.push({ ...filter, after: start, before: Math.min(start + chunkMs, end) });
+    }
+    return chunks;
+}
+
+function formatTransaction(transaction: TransactionResponse, format: TransactionExportFormat, columns: TransactionExportColumn[] | undefined): string {
+    if (!columns) {
+        return `${JSON.stringify(transaction)}\n`;
+    }
+
+    const values = columns.map(column => columnValue(transaction, column));
+    if (format === TransactionExportFormat.CSV) {
+        return toCsvLine(values);
+    }
+
+    const row: { [header: string]: any } = {};
+    columns.forEach((column, i) => row[columnHeader(column)] = values[i]);
+    return `${JSON.stringify(row)}\n`;
+}
+
+function columnHeader(column: TransactionExportColumn): string {
+    return typeof column === "string" ? column : column.header;
+}
+
+function columnValue(transaction: TransactionResponse, column: TransactionExportColumn): any {
+    if (typeof column !== "string" && column.value) {
+        return column.value(transaction);
+    }
+
+    const path = typeof column === "string" ? column : column.path ?? column.header;
+    return path.split(".").reduce((value, key) => value === undefined || value === null ? undefined : value[key], transaction as any);
+}
+
+async function write(output: Writable, chunk: string) {
+    if (output.write(chunk)) {
+        return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+        const onDrain = () => {
+            output.removeListener("error", onError);
+            resolve();
+        };
+        const onError = (err: Error) => {
+            output.removeListener("drain", onDrain);
+            reject(err);
+        };
+        output.once("drain", onDrain);
+        output.once("error", onError);
+    });
+}
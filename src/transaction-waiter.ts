@@ -0,0 +1,98 @@
+import { TransactionResponse, TransactionStatus, WaitForTransactionOptions } from "./types";
+import { AbortedError, TransactionFailedError, WaitTimeoutError } from "./errors";
+
+export const SUCCESSFUL_TRANSACTION_STATUSES = [
+    TransactionStatus.COMPLETED,
+    TransactionStatus.CONFIRMED
+];
+
+export const FAILED_TRANSACTION_STATUSES = [
+    TransactionStatus.FAILED,
+    TransactionStatus.REJECTED,
+    TransactionStatus.CANCELLED,
+    TransactionStatus.BLOCKED,
+    TransactionStatus.TIMEOUT
+];
+
+export function isTerminalTransactionStatus(status: TransactionStatus): boolean {
+    return SUCCESSFUL_TRANSACTION_STATUSES.indexOf(status) !== -1 || FAILED_TRANSACTION_STATUSES.indexOf(status) !== -1;
+}
+
+/**
+ * Polls a transaction until it reaches a target or terminal status.
+ * Resolves with the transaction once it reaches a target status or completes, rejects with a TransactionFailedError if it ends unsuccessfully
+ * @param getTransaction Fetches the current state of the transaction, aborting the request when the signal of the options is aborted
+ * @param txId The transaction id to wait for
+ * @param options Polling options
+ */
+export async function waitForTransaction(
+    getTransaction: (txId: string, signal?: AbortSignal) => Promise<TransactionResponse>,
+    txId: string,
+    options: WaitForTransactionOptions = {}): Promise<TransactionResponse> {
+
+    const targetStatuses = options.targetStatuses ?? SUCCESSFUL_TRANSACTION_STATUSES;
+    const maxPollIntervalMs = options.maxPollIntervalMs ?? 10000;
+    const deadline = options.timeoutMs !== undefined ? Date.now() + options.timeoutMs : Infinity;
+    let pollIntervalMs = options.pollIntervalMs ?? 1000;
+    let previousStatus: TransactionStatus;
+
+    for (;;) {
+        throwIfAborted(options.signal, txId);
+
+        let transaction: TransactionResponse;
+        try {
+            transaction = await getTransaction(txId, options.signal);
+        } catch (e) {
+            throwIfAborted(options.signal, txId);
+            throw e;
+        }
+        if (transaction.status !== previousStatus) {
+            options.onStatusChange?.(transaction, previousStatus);
+            previousStatus = transaction.status;
+        }
+
+        if (targetStatuses.indexOf(transaction.status) !== -1 || SUCCESSFUL_TRANSACTION_STATUSES.indexOf(transaction.status) !== -1) {
+            return transaction;
+        }
+        if (FAILED_TRANSACTION_STATUSES.indexOf(transaction.status) !== -1) {
+            const reason = transaction.subStatus ? ` (${transaction.subStatus})` : "";
+            throw new TransactionFailedError(`Transaction ${txId} ended with status ${transaction.status}${reason}`, transaction);
+        }
+
+        const remainingMs = deadline - Date.now();
+        if (remainingMs <= 0) {
+            throw new WaitTimeoutError(`Timed out waiting for transaction ${txId}, last status ${transaction.status}`);
+        }
+
+        await abortableSleep(Math.min(pollIntervalMs, remainingMs), options.signal as AbortSignalEventTarget, txId);
+        pollIntervalMs = Math.min(maxPollIntervalMs, pollIntervalMs * 1.5);
+    }
+}
+
+function throwIfAborted(signal: AbortSignal | undefined, txId: string) {
+    if (signal?.aborted) {
+        throw new AbortedError(`Waiting for transaction ${txId} was aborted`);
+    }
+}
+
+/**
+ * The abort event of Node's AbortSignal, which @types/node does not declare
+ */
+interface AbortSignalEventTarget extends AbortSignal {
+    addEventListener(type: "abort", listener: () => void, options?: { once?: boolean }): void;
+    removeEventListener(type: "abort", listener: () => void): void;
+}
+
+function abortableSleep(ms: number, signal: AbortSignalEventTarget | undefined, txId: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new AbortedError(`Waiting for transaction ${txId} was aborted`));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener("abort", onAbort, { once: true });
+    });
+}
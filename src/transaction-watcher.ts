@@ -0,0 +1,176 @@
+import fs from "fs";
+import { EventEmitter } from "events";
+import { FireblocksSDK } from "./fireblocks-sdk";
+import {
+    TransactionCheckpointStore,
+    TransactionOrder,
+    TransactionResponse,
+    TransactionWatchCheckpoint,
+    TransactionWatchEvent,
+    TransactionWatchEventType,
+    TransactionWatchFilter,
+    TransactionWatchOptions
+} from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InMemoryTransactionCheckpointStore implements TransactionCheckpointStore {
+    private checkpoint?: TransactionWatchCheckpoint;
+
+    load(): TransactionWatchCheckpoint | undefined {
+        return this.checkpoint;
+    }
+
+    save(checkpoint: TransactionWatchCheckpoint) {
+        this.checkpoint = JSON.parse(JSON.stringify(checkpoint));
+    }
+}
+
+/**
+ * Keeps the checkpoint in a JSON file, replaced atomically on every save
+ */
+export class FileTransactionCheckpointStore implements TransactionCheckpointStore {
+    constructor(private readonly file: string) {
+    }
+
+    load(): TransactionWatchCheckpoint | undefined {
+        return fs.existsSync(this.file) ? JSON.parse(fs.readFileSync(this.file, "utf8")) : undefined;
+    }
+
+    save(checkpoint: TransactionWatchCheckpoint) {
+        fs.writeFileSync(`${this.file}.tmp`, JSON.stringify(checkpoint));
+        fs.renameSync(`${this.file}.tmp`, this.file);
+    }
+}
+
+/**
+ * Polls the transactions ordered by their last update, emitting an event for every new version of a transaction:
+ * "created", "statusChanged" or "updated", each also emitted as "event". The watcher can also be iterated with for await.
+ * Polling errors are emitted as "error" events and the poll is retried on the next interval.
+ * The checkpoint only moves past an event once the listeners returned and the onEvent handler resolved, so an event whose
+ * handling threw or was interrupted by a crash is delivered again. Work that listeners or for await loops do asynchronously
+ * is not awaited and is delivered at most once, pass it as the onEvent option instead
+ */
+export class TransactionWatcher extends EventEmitter implements AsyncIterable<TransactionWatchEvent> {
+    private readonly checkpointStore: TransactionCheckpointStore;
+    private checkpoint?: TransactionWatchCheckpoint;
+    private running = false;
+    private loop?: Promise<void>;
+    private timer?: NodeJS.Timeout;
+    private wakeUp?: () => void;
+
+    constructor(private readonly sdk: FireblocksSDK, private readonly filter: TransactionWatchFilter = {}, private readonly options: TransactionWatchOptions = {}) {
+        super();
+        this.checkpointStore = options.checkpointStore ?? new InMemoryTransactionCheckpointStore();
+    }
+
+    public start(): this {
+        if (!this.running) {
+            this.running = true;
+            this.loop = this.run();
+        }
+        return this;
+    }
+
+    /**
+     * Stops polling, resolving once the poll in progress has finished and its checkpoint was saved
+     */
+    public async stop() {
+        this.running = false;
+        clearTimeout(this.timer);
+        this.wakeUp?.();
+        this.emit("stop");
+        await this.loop;
+    }
+
+    public async *[Symbol.asyncIterator](): AsyncIterator<TransactionWatchEvent> {
+        const queue: TransactionWatchEvent[] = [];
+        let notify: () => void;
+        const onEvent = (event: TransactionWatchEvent) => {
+            queue.push(event);
+            notify?.();
+        };
+        const onStop = () => notify?.();
+        this.on("event", onEvent);
+        this.on("stop", onStop);
+
+        try {
+            while (this.running || queue.length > 0) {
+                if (queue.length > 0) {
+                    yield queue.shift();
+                    continue;
+                }
+                await new Promise<void>(resolve => notify = resolve);
+                notify = undefined;
+            }
+        } finally {
+            this.removeListener("event", onEvent);
+            this.removeListener("stop", onStop);
+        }
+    }
+
+    private async run() {
+        while (this.running) {
+            try {
+                await this.poll();
+            } catch (e) {
+                if (this.listenerCount("error") > 0) {
+                    this.emit("error", e);
+                }
+            }
+
+            if (this.running) {
+                await new Promise<void>(resolve => {
+                    this.wakeUp = resolve;
+                    this.timer = setTimeout(resolve, this.options.pollIntervalMs ?? 10000);
+                });
+                this.wakeUp = undefined;
+            }
+        }
+    }
+
+    private async poll() {
+        if (!this.checkpoint) {
+            this.checkpoint = await this.checkpointStore.load() ?? { watermark: this.options.startAt ?? Date.now(), transactions: {} };
+        }
+
+        const checkpoint = this.checkpoint;
+        const after = Math.max(0, checkpoint.watermark - (this.options.overlapMs ?? 5000));
+        const transactions: TransactionResponse[] = [];
+        for await (const transaction of this.sdk.iterateTransactions({ ...this.filter, orderBy: TransactionOrder.LAST_UPDATED, after })) {
+            transactions.push(transaction);
+        }
+
+        try {
+            for (const transaction of transactions.sort((a, b) => a.lastUpdated - b.lastUpdated)) {
+                const known = checkpoint.transactions[transaction.id];
+                if (known && known.lastUpdated >= transaction.lastUpdated) {
+                    continue;
+                }
+
+                let type = TransactionWatchEventType.UPDATED;
+                if (!known && transaction.createdAt >= after) {
+                    type = TransactionWatchEventType.CREATED;
+                } else if (known?.status !== transaction.status) {
+                    type = TransactionWatchEventType.STATUS_CHANGED;
+                }
+
+                const event: TransactionWatchEvent = { type, transaction, status: transaction.status, previousStatus: known?.status };
+                this.emit(type, event);
+                this.emit("event", event);
+                await this.options.onEvent?.(event);
+
+                // Only past the event once it was handled, a failed handler stops the poll and the event is replayed by the next one
+                checkpoint.transactions[transaction.id] = { status: transaction.status, lastUpdated: transaction.lastUpdated };
+                checkpoint.watermark = Math.max(checkpoint.watermark, transaction.lastUpdated);
+            }
+        } finally {
+            const retainedAfter = checkpoint.watermark - (this.options.retentionMs ?? DAY_MS);
+            Object.keys(checkpoint.transactions)
+                .filter(txId => checkpoint.transactions[txId].lastUpdated < retainedAfter)
+                .forEach(txId => delete checkpoint.transactions[txId]);
+
+            await this.checkpointStore.save(checkpoint);
+        }
+    }
+}
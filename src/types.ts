@@ -138,6 +138,7 @@ export interface DepositAddressResponse {
     type: string;
     customerRefId?: string;
     addressFormat: string;
+    bip44AddressIndex?: number;
     legacyAddress?: string;
     enterpriseAddress?: string;
 }
@@ -167,6 +168,110 @@ export interface RawMessage {
     derivationPath?: number[];
 }
 
+export enum TypedMessageType {
+    EIP712 = "EIP712",
+    ETH_MESSAGE = "ETH_MESSAGE"
+}
+
+/**
+ * A message of a TYPED_MESSAGE transaction. EIP712 messages carry the typed data, ETH_MESSAGE messages the hex encoded message
+ */
+export interface TypedMessage {
+    content: string | TypedData;
+    type: TypedMessageType;
+    index?: number;
+}
+
+export interface TypedDataField {
+    name: string;
+    type: string;
+}
+
+export interface TypedDataDomain {
+    name?: string;
+    version?: string;
+    chainId?: number | string;
+    verifyingContract?: string;
+    salt?: string;
+}
+
+/**
+ * EIP-712 typed data, as accepted by eth_signTypedData_v4
+ */
+export interface TypedData {
+    types: { [typeName: string]: TypedDataField[] };
+    primaryType: string;
+    domain: TypedDataDomain;
+    message: { [field: string]: any };
+}
+
+export interface AbiParameter {
+    name?: string;
+    type: string;
+    /**
+     * The members of a tuple type
+     */
+    components?: AbiParameter[];
+}
+
+export interface AbiFragment {
+    type: string;
+    name?: string;
+    inputs?: AbiParameter[];
+    outputs?: AbiParameter[];
+    stateMutability?: string;
+}
+
+export interface DecodedFunctionCall {
+    method: string;
+    /**
+     * The canonical signature of the function, e.g. "transfer(address,uint256)"
+     */
+    signature: string;
+    /**
+     * The arguments in the order of the ABI. Integers are decimal strings, addresses are checksummed and bytes are hex encoded
+     */
+    args: any[];
+    /**
+     * The arguments keyed by their names in the ABI
+     */
+    namedArgs: { [name: string]: any };
+}
+
+export interface ContractCallArgs {
+    vaultAccountId: string;
+    /**
+     * The base asset of the chain, e.g. ETH
+     */
+    assetId: string;
+    /**
+     * The contract address, called through a one time address destination
+     */
+    contractAddress?: string;
+    /**
+     * The contract as a whitelisted wallet or any other destination, instead of contractAddress
+     */
+    destination?: DestinationTransferPeerPath;
+    abi: AbiFragment[];
+    /**
+     * The name of the function, or its signature for overloaded functions
+     */
+    method: string;
+    args?: any[];
+    /**
+     * The amount of the base asset sent with the call
+     */
+    value?: number | string;
+    feeLevel?: FeeLevel;
+    note?: string;
+    externalTxId?: string;
+}
+
+export interface ContractCallResponse extends CreateTransactionResponse {
+    contractCallData: string;
+    feeEstimate: EstimateTransactionFeeResponse;
+}
+
 export interface TransactionDestination {
     amount: string | number;
     destination: DestinationTransferPeerPath;
@@ -246,6 +351,10 @@ export interface TransactionResponse {
         name?: string;
         subType?: string;
     };
+    /**
+     * The amounts of a transaction are exact decimal strings at runtime when the SDK is created with the decimalAmounts option,
+     * use asDecimalTransaction() to type them as such
+     */
     amount: number;
     /**
      * @deprecated Replaced by "networkFee"
@@ -283,6 +392,43 @@ export interface TransactionResponse {
     externalTxId?: string;
     blockInfo?: BlockInfo;
     authorizationInfo?: AuthorizationInfo;
+    /**
+     * The destinations of a transaction paying multiple destinations
+     */
+    destinations?: TransactionDestinationResponse[];
+}
+
+export interface TransactionDestinationResponse {
+    amount: number;
+    amountUSD?: number;
+    destination: {
+        id: string;
+        type: PeerType;
+        name?: string;
+        subType?: string;
+    };
+    destinationAddress?: string;
+    destinationAddressDescription?: string;
+    customerRefId?: string;
+}
+
+/**
+ * A transaction with its amounts as exact decimal strings, as returned when the SDK is created with the decimalAmounts option
+ */
+export interface DecimalTransactionResponse extends Omit<TransactionResponse, "amount" | "fee" | "networkFee" | "amountUSD" | "netAmount" | "requestedAmount" | "serviceFee" | "destinations"> {
+    amount: string;
+    fee?: string;
+    networkFee: string;
+    amountUSD: string;
+    netAmount: string;
+    requestedAmount: string;
+    serviceFee?: string;
+    destinations?: DecimalTransactionDestinationResponse[];
+}
+
+export interface DecimalTransactionDestinationResponse extends Omit<TransactionDestinationResponse, "amount" | "amountUSD"> {
+    amount: string;
+    amountUSD?: string;
 }
 
 export interface AuthorizationInfo {
@@ -354,6 +500,10 @@ export interface TransactionPageFilter {
     before?: number;
     after?: number;
     status?: TransactionStatus;
+    /**
+     * The timestamp that after and before apply to and that the transactions are sorted by
+     */
+    orderBy?: TransactionOrder;
     limit?: number;
     txHash?: string;
     assets?: string;
@@ -363,6 +513,22 @@ export interface TransactionPageFilter {
     destId?: string;
 }
 
+export enum PageDirection {
+    NEXT = "next",
+    PREV = "prev"
+}
+
+export interface TransactionIteratorOptions {
+    /**
+     * Follow the next-page cursor (the default) or the prev-page cursor
+     */
+    direction?: PageDirection;
+    /**
+     * Stop after this many transactions were returned
+     */
+    maxItems?: number;
+}
+
 export enum TransactionOrder {
     CREATED_AT = "createdAt",
     LAST_UPDATED = "lastUpdated"
@@ -396,6 +562,372 @@ export enum TransactionStatus {
     BLOCKED = "BLOCKED"
 }
 
+export interface WaitForTransactionOptions {
+    /**
+     * Resolve once the transaction reaches one of these statuses. By default waits for the transaction to complete
+     */
+    targetStatuses?: TransactionStatus[];
+    /**
+     * The initial delay between polls, in milliseconds, growing by half after every poll. The first poll is immediate. Defaults to 1000
+     */
+    pollIntervalMs?: number;
+    /**
+     * The maximal delay between polls, in milliseconds. Defaults to 10000
+     */
+    maxPollIntervalMs?: number;
+    /**
+     * Give up after this many milliseconds. Waits indefinitely by default
+     */
+    timeoutMs?: number;
+    /**
+     * Stops waiting when aborted, including a poll that is in flight
+     */
+    signal?: AbortSignal;
+    /**
+     * Called every time a new status of the transaction is observed, including the first one
+     */
+    onStatusChange?: (transaction: TransactionResponse, previousStatus?: TransactionStatus) => void;
+}
+
+export interface SignRawMessagesOptions {
+    note?: string;
+    /**
+     * Verify every returned signature against its public key. Defaults to true
+     */
+    verify?: boolean;
+    waitOptions?: WaitForTransactionOptions;
+    requestOptions?: RequestOptions;
+}
+
+export interface SignTypedMessageOptions {
+    note?: string;
+    /**
+     * The BIP44 address index of the signing key. Defaults to 0
+     */
+    addressIndex?: number;
+    /**
+     * Check that the signature recovers to the address of the vault account's key. Defaults to true
+     */
+    verify?: boolean;
+    waitOptions?: WaitForTransactionOptions;
+    requestOptions?: RequestOptions;
+}
+
+export interface EthereumSignature {
+    /**
+     * The 65 bytes r, s, v signature, hex encoded with a 0x prefix
+     */
+    signature: string;
+    r: string;
+    s: string;
+    v: number;
+    /**
+     * The checksummed address of the signing key
+     */
+    address: string;
+    txId: string;
+}
+
+export interface PayoutItem {
+    /**
+     * A stable identifier of the item within its batch, part of its externalTxId. Defaults to the position of the item
+     */
+    id?: string;
+    assetId: string;
+    amount: number | string;
+    destination: DestinationTransferPeerPath;
+    note?: string;
+}
+
+export interface BatchPayoutOptions {
+    /**
+     * Identifies the batch. Running a batch again with the same id skips the items that were already submitted
+     */
+    batchId: string;
+    /**
+     * Validate one time addresses with validateAddress before paying them. Defaults to true
+     */
+    validateAddresses?: boolean;
+    /**
+     * The assets paid with a single transaction to multiple destinations. Defaults to MULTI_DESTINATION_ASSETS
+     */
+    multiDestinationAssets?: string[];
+    /**
+     * Defaults to 50
+     */
+    maxDestinationsPerTransaction?: number;
+    feeLevel?: FeeLevel;
+    note?: string;
+    /**
+     * Wait for every transaction to complete and report its final status
+     */
+    waitForCompletion?: boolean;
+    waitOptions?: WaitForTransactionOptions;
+}
+
+export enum PayoutItemStatus {
+    SUBMITTED = "SUBMITTED",
+    ALREADY_SUBMITTED = "ALREADY_SUBMITTED",
+    INVALID = "INVALID",
+    FAILED = "FAILED"
+}
+
+export interface PayoutItemResult {
+    item: PayoutItem;
+    index: number;
+    status: PayoutItemStatus;
+    externalTxId?: string;
+    txId?: string;
+    transactionStatus?: TransactionStatus;
+    error?: string;
+}
+
+export enum BalanceAccountType {
+    VAULT_ACCOUNT = "VAULT_ACCOUNT",
+    EXCHANGE_ACCOUNT = "EXCHANGE_ACCOUNT",
+    FIAT_ACCOUNT = "FIAT_ACCOUNT",
+    INTERNAL_WALLET = "INTERNAL_WALLET",
+    OFF_EXCHANGE_ACCOUNT = "OFF_EXCHANGE_ACCOUNT"
+}
+
+/**
+ * A balance of an asset, as exact decimal strings
+ */
+export interface AssetBalance {
+    total: string;
+    available: string;
+    pending: string;
+    locked: string;
+    allocated: string;
+}
+
+export interface BalanceSnapshotAccount {
+    type: BalanceAccountType;
+    id: string;
+    name?: string;
+    assets: { [assetId: string]: AssetBalance };
+}
+
+export interface BalanceSnapshot {
+    /**
+     * When the snapshot was started, in milliseconds since the epoch
+     */
+    takenAt: number;
+    /**
+     * Keyed by account type and id, e.g. "VAULT_ACCOUNT/0"
+     */
+    accounts: { [accountKey: string]: BalanceSnapshotAccount };
+}
+
+export interface BalanceSnapshotOptions {
+    /**
+     * Defaults to every account type
+     */
+    accountTypes?: BalanceAccountType[];
+    /**
+     * Include assets whose balances are all zero. Defaults to false
+     */
+    includeZeroBalances?: boolean;
+}
+
+export interface BalanceChange {
+    accountType: BalanceAccountType;
+    accountId: string;
+    accountName?: string;
+    assetId: string;
+    before: AssetBalance;
+    after: AssetBalance;
+    /**
+     * after - before, per balance field
+     */
+    change: AssetBalance;
+}
+
+export interface BalanceSnapshotDiff {
+    from: number;
+    to: number;
+    changes: BalanceChange[];
+}
+
+export enum TransactionExportFormat {
+    CSV = "csv",
+    JSONL = "jsonl"
+}
+
+/**
+ * A column of a transaction export, either a dot separated path into the transaction (e.g. "source.id") or a computed value
+ */
+export type TransactionExportColumn = string | {
+    header: string;
+    path?: string;
+    value?: (transaction: TransactionResponse) => any;
+};
+
+export interface TransactionExportOptions {
+    format: TransactionExportFormat;
+    /**
+     * The transactions to export. Exports every transaction by default
+     */
+    filter?: TransactionPageFilter;
+    /**
+     * The columns of a CSV export. JSON Lines exports write the full transactions unless columns are given
+     */
+    columns?: TransactionExportColumn[];
+    /**
+     * Query the time range between filter.after and filter.before in windows of this many milliseconds,
+     * keeping every query within the API limits. Requires filter.after
+     */
+    chunkMs?: number;
+}
+
+export interface TransactionExportSummary {
+    count: number;
+    chunks: number;
+}
+
+export type TransactionWatchFilter = Pick<TransactionPageFilter, "status" | "assets" | "txHash" | "sourceType" | "sourceId" | "destType" | "destId">;
+
+export interface TransactionWatchOptions {
+    /**
+     * The delay between polls, in milliseconds. Defaults to 10000
+     */
+    pollIntervalMs?: number;
+    /**
+     * Where the watermark is persisted, so that a restarted watcher resumes where it stopped. Defaults to an in-memory store
+     */
+    checkpointStore?: TransactionCheckpointStore;
+    /**
+     * The time to watch from when the store holds no checkpoint. Defaults to now
+     */
+    startAt?: number;
+    /**
+     * Query this many milliseconds before the watermark, catching transactions whose update became visible late. Defaults to 5000
+     */
+    overlapMs?: number;
+    /**
+     * How long the status of a transaction is remembered after its last update, in milliseconds. Defaults to a day
+     */
+    retentionMs?: number;
+    /**
+     * Handles every event before the checkpoint moves past it. When the returned promise rejects the poll stops, the error is
+     * emitted and the event is delivered again by the next poll, giving at least once delivery
+     */
+    onEvent?: (event: TransactionWatchEvent) => void | Promise<void>;
+}
+
+/**
+ * Persists the progress of a transaction watcher
+ */
+export interface TransactionCheckpointStore {
+    load(): TransactionWatchCheckpoint | undefined | Promise<TransactionWatchCheckpoint | undefined>;
+    save(checkpoint: TransactionWatchCheckpoint): void | Promise<void>;
+}
+
+export interface TransactionWatchCheckpoint {
+    /**
+     * The latest lastUpdated timestamp that was processed
+     */
+    watermark: number;
+    /**
+     * The last seen status and lastUpdated of the recently updated transactions, by id
+     */
+    transactions: { [txId: string]: { status: TransactionStatus, lastUpdated: number } };
+}
+
+export enum TransactionWatchEventType {
+    CREATED = "created",
+    STATUS_CHANGED = "statusChanged",
+    /**
+     * A transaction changed without changing its status, e.g. got more confirmations
+     */
+    UPDATED = "updated"
+}
+
+export interface TransactionWatchEvent {
+    type: TransactionWatchEventType;
+    transaction: TransactionResponse;
+    status: TransactionStatus;
+    /**
+     * The status the transaction was last seen in. Undefined for new transactions and for transactions last seen before the retention period
+     */
+    previousStatus?: TransactionStatus;
+}
+
+export interface DepositMonitorOptions {
+    /**
+     * The vault account whose incoming transfers are monitored
+     */
+    vaultAccountId: string;
+    /**
+     * The assets to monitor. Monitors every asset by default
+     */
+    assets?: string[];
+    /**
+     * The confirmations a deposit needs per asset. Deposits of other assets are confirmed when their transaction completes
+     */
+    requiredConfirmations?: { [assetId: string]: number };
+    /**
+     * Set the required confirmations of its asset as the confirmation threshold of every new deposit
+     */
+    setConfirmationThreshold?: boolean;
+    pollIntervalMs?: number;
+    /**
+     * Persists the monitor's progress, see TransactionWatchOptions.checkpointStore
+     */
+    checkpointStore?: TransactionCheckpointStore;
+    startAt?: number;
+}
+
+export enum DepositEventType {
+    SEEN = "seen",
+    CONFIRMED = "confirmed",
+    FAILED = "failed"
+}
+
+export interface DepositEvent {
+    type: DepositEventType;
+    transaction: TransactionResponse;
+    vaultAccountId: string;
+    assetId: string;
+    amount: number | string;
+    address: string;
+    tag?: string;
+    /**
+     * The customerRefId of the receiving deposit address
+     */
+    customerRefId?: string;
+    confirmations: number;
+    requiredConfirmations?: number;
+}
+
+export enum ResponseValidationMode {
+    /**
+     * Throw a ResponseValidationError for a response that does not match its type
+     */
+    THROW = "throw",
+    /**
+     * Report the issues to the onValidationIssues request hooks and return the response
+     */
+    WARN = "warn",
+    OFF = "off"
+}
+
+export enum ValidationIssueKind {
+    MISSING = "MISSING",
+    WRONG_TYPE = "WRONG_TYPE",
+    UNKNOWN_ENUM_VALUE = "UNKNOWN_ENUM_VALUE"
+}
+
+export interface ValidationIssue {
+    kind: ValidationIssueKind;
+    /**
+     * The location of the value in the response, e.g. "[3].source.type"
+     */
+    path: string;
+    message: string;
+    value?: any;
+}
+
 export enum PeerType {
     VAULT_ACCOUNT = "VAULT_ACCOUNT",
     EXCHANGE_ACCOUNT = "EXCHANGE_ACCOUNT",
@@ -423,6 +955,7 @@ export enum TransactionOperation {
     REDEEM_FROM_COMPOUND = "REDEEM_FROM_COMPOUND",
     RAW = "RAW",
     CONTRACT_CALL = "CONTRACT_CALL",
+    TYPED_MESSAGE = "TYPED_MESSAGE",
 }
 
 export interface AllocateFundsRequest {
@@ -498,6 +1031,12 @@ export interface PublicKeyInfoArgs {
     compressed?: boolean;
 }
 
+export interface PublicKeyInfoResponse {
+    algorithm: string;
+    derivationPath: number[];
+    publicKey: string;
+}
+
 export interface PublicKeyInfoForVaultAccountArgs {
     assetId: string;
     vaultAccountId: number;
@@ -538,7 +1077,18 @@ export interface VaultBalancesFilter {
     accountNameSuffix?: string;
 }
 export interface RequestOptions {
-    idempotencyKey: string;
+    /**
+     * Sent as the Idempotency-Key header, a repeated request with the same key will not be executed twice
+     */
+    idempotencyKey?: string;
+    /**
+     * Overrides the timeout of the SDK options for this request, in milliseconds
+     */
+    timeoutMs?: number;
+    /**
+     * Aborts the request, rejecting it with an AbortedError
+     */
+    signal?: AbortSignal;
 }
 
 export interface ValidateAddressResponse {
@@ -583,3 +1133,66 @@ export interface OffExchangeEntityResponse {
     };
 }
 
+
+export enum FireblocksEnvironment {
+    PRODUCTION = "production",
+    SANDBOX = "sandbox"
+}
+
+export enum WebhookEventType {
+    TRANSACTION_CREATED = "TRANSACTION_CREATED",
+    TRANSACTION_STATUS_UPDATED = "TRANSACTION_STATUS_UPDATED",
+    TRANSACTION_APPROVAL_STATUS_UPDATED = "TRANSACTION_APPROVAL_STATUS_UPDATED",
+    VAULT_ACCOUNT_ADDED = "VAULT_ACCOUNT_ADDED",
+    VAULT_ACCOUNT_ASSET_ADDED = "VAULT_ACCOUNT_ASSET_ADDED",
+    INTERNAL_WALLET_ASSET_ADDED = "INTERNAL_WALLET_ASSET_ADDED",
+    EXTERNAL_WALLET_ASSET_ADDED = "EXTERNAL_WALLET_ASSET_ADDED",
+    EXCHANGE_ACCOUNT_ADDED = "EXCHANGE_ACCOUNT_ADDED",
+    FIAT_ACCOUNT_ADDED = "FIAT_ACCOUNT_ADDED",
+    NETWORK_CONNECTION_ADDED = "NETWORK_CONNECTION_ADDED"
+}
+
+interface WebhookEventBase<Type extends WebhookEventType, Data> {
+    type: Type;
+    tenantId: string;
+    timestamp: number;
+    data: Data;
+}
+
+export interface VaultAccountAssetAddedData {
+    accountId: string;
+    tenantId: string;
+    accountName: string;
+    assetId: string;
+}
+
+export interface WalletAssetAddedData {
+    walletId: string;
+    tenantId: string;
+    assetId: string;
+    address: string;
+    tag?: string;
+}
+
+export type TransactionCreatedEvent = WebhookEventBase<WebhookEventType.TRANSACTION_CREATED, TransactionResponse>;
+export type TransactionStatusUpdatedEvent = WebhookEventBase<WebhookEventType.TRANSACTION_STATUS_UPDATED, TransactionResponse>;
+export type TransactionApprovalStatusUpdatedEvent = WebhookEventBase<WebhookEventType.TRANSACTION_APPROVAL_STATUS_UPDATED, TransactionResponse>;
+export type VaultAccountAddedEvent = WebhookEventBase<WebhookEventType.VAULT_ACCOUNT_ADDED, VaultAccountResponse>;
+export type VaultAccountAssetAddedEvent = WebhookEventBase<WebhookEventType.VAULT_ACCOUNT_ASSET_ADDED, VaultAccountAssetAddedData>;
+export type InternalWalletAssetAddedEvent = WebhookEventBase<WebhookEventType.INTERNAL_WALLET_ASSET_ADDED, WalletAssetAddedData>;
+export type ExternalWalletAssetAddedEvent = WebhookEventBase<WebhookEventType.EXTERNAL_WALLET_ASSET_ADDED, WalletAssetAddedData>;
+export type ExchangeAccountAddedEvent = WebhookEventBase<WebhookEventType.EXCHANGE_ACCOUNT_ADDED, ExchangeResponse>;
+export type FiatAccountAddedEvent = WebhookEventBase<WebhookEventType.FIAT_ACCOUNT_ADDED, FiatAccountResponse>;
+export type NetworkConnectionAddedEvent = WebhookEventBase<WebhookEventType.NETWORK_CONNECTION_ADDED, NetworkConnectionResponse>;
+
+export type WebhookEvent =
+    TransactionCreatedEvent |
+    TransactionStatusUpdatedEvent |
+    TransactionApprovalStatusUpdatedEvent |
+    VaultAccountAddedEvent |
+    VaultAccountAssetAddedEvent |
+    InternalWalletAssetAddedEvent |
+    ExternalWalletAssetAddedEvent |
+    ExchangeAccountAddedEvent |
+    FiatAccountAddedEvent |
+    NetworkConnectionAddedEvent;
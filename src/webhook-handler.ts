@@ -0,0 +1,171 @@
+import crypto, { KeyObject } from "crypto";
+import { FireblocksEnvironment, WebhookEvent } from "./types";
+import { FireblocksError, WebhookVerificationError } from "./errors";
+import { isTransactionAmountPath, parseJsonWithDecimalAmounts } from "./decimal";
+
+export const WEBHOOK_SIGNATURE_HEADER = "fireblocks-signature";
+
+/**
+ * The public keys Fireblocks signs webhooks with, per environment.
+ * There is no built-in sandbox key, pass the key published in the sandbox documentation as WebhookHandlerOptions.publicKey
+ */
+export const WEBHOOK_PUBLIC_KEYS: { [environment in FireblocksEnvironment]?: string } = {
+    [FireblocksEnvironment.PRODUCTION]: `-----BEGIN PUBLIC KEY-----
+MIICIjANBgkqhkiG9w0BAQEFAAOCAg8AMIICCgKCAgEA0+6wd9OJQpK60ZI7qnZG
+jjQ0wNFUHfRv85Tdyek8+ahlg1Ph8uhwl4N6DZw5LwLXhNjzAbQ8LGPxt36RUZl5
+YlxTru0jZNKx5lslR+H4i936A4pKBjgiMmSkVwXD9HcfKHTp70GQ812+J0Fvti/v
+4nrrUpc011Wo4F6omt1QcYsi4GTI5OsEbeKQ24BtUd6Z1Nm/EP7PfPxeb4CP8KOH
+clM8K7OwBUfWrip8Ptljjz9BNOZUF94iyjJ/BIzGJjyCntho64ehpUYP8UJykLVd
+CGcu7sVYWnknf1ZGLuqqZQt4qt7cUUhFGielssZP9N9x7wzaAIFcT3yQ+ELDu1SZ
+dE4lZsf2uMyfj58V8GDOLLE233+LRsRbJ083x+e2mW5BdAGtGgQBusFfnmv5Bxqd
+HgS55hsna5725/44tvxll261TgQvjGrTxwe7e5Ia3d2Syc+e89mXQaI/+cZnylNP
+SwCCvx8mOM847T0XkVRX3ZrwXtHIA25uKsPJzUtksDnAowB91j7RJkjXxJcz3Vh1
+4k182UFOTPRW9jzdWNSyWQGl/vpe9oQ4c2Ly15+/toBo4YXJeDdDnZ5c/O+KKadc
+IMPBpnPrH/0O97uMPuED+nI6ISGOTMLZo35xJ96gPBwyG5s2QxIkKPXIrhgcgUnk
+tSM7QYNhlftT4/yVvYnk0YcCAwEAAQ==
+-----END PUBLIC KEY-----`
+};
+
+/**
+ * Remembers the webhooks that were already accepted so that a replayed webhook is rejected
+ */
+export interface WebhookReplayStore {
+    /**
+     * Returns true if the key was already added and has not expired yet, otherwise adds it
+     */
+    checkAndAdd(key: string, ttlMs: number): boolean | Promise<boolean>;
+    /**
+     * Forgets a key, so that it is accepted again
+     */
+    remove?(key: string): void | Promise<void>;
+}
+
+export class InMemoryWebhookReplayStore implements WebhookReplayStore {
+    private expirations = new Map<string, number>();
+
+    checkAndAdd(key: string, ttlMs: number): boolean {
+        const now = Date.now();
+        this.expirations.forEach((expiresAt, k) => {
+            if (expiresAt <= now) {
+                this.expirations.delete(k);
+            }
+        });
+
+        if (this.expirations.has(key)) {
+            return true;
+        }
+
+        this.expirations.set(key, now + ttlMs);
+        return false;
+    }
+
+    remove(key: string) {
+        this.expirations.delete(key);
+    }
+}
+
+export interface WebhookHandlerOptions {
+    /**
+     * The environment whose public key verifies signatures. Defaults to production
+     */
+    environment?: FireblocksEnvironment;
+    /**
+     * A PEM encoded public key to use instead of the environment's key
+     */
+    publicKey?: string | KeyObject;
+    /**
+     * Reject events whose timestamp is older than this many milliseconds. Defaults to 5 minutes.
+     * Events resent through resendWebhooks() keep their original timestamp, raise this when recovering older events
+     */
+    maxEventAgeMs?: number;
+    /**
+     * Where accepted events are remembered in order to reject replays. Defaults to an in-memory store, pass false to disable
+     */
+    replayStore?: WebhookReplayStore | false;
+    /**
+     * Parse the amounts of transactions as exact decimal strings, as with the decimalAmounts option of the SDK
+     */
+    decimalAmounts?: boolean;
+}
+
+export class WebhookHandler {
+    private readonly publicKey: string | KeyObject;
+    private readonly maxEventAgeMs: number;
+    private readonly replayStore: WebhookReplayStore | false;
+    private readonly decimalAmounts: boolean;
+
+    constructor(options: WebhookHandlerOptions = {}) {
+        const environment = options.environment ?? FireblocksEnvironment.PRODUCTION;
+        this.publicKey = options.publicKey ?? WEBHOOK_PUBLIC_KEYS[environment];
+        if (!this.publicKey) {
+            throw new FireblocksError(`No webhook public key is known for the ${environment} environment, pass one in the publicKey option`);
+        }
+        this.maxEventAgeMs = options.maxEventAgeMs ?? 5 * 60 * 1000;
+        this.replayStore = options.replayStore ?? new InMemoryWebhookReplayStore();
+        this.decimalAmounts = options.decimalAmounts ?? false;
+    }
+
+    /**
+     * Verifies the Fireblocks-Signature header of a webhook request
+     * @param rawBody The request body exactly as received
+     * @param signature The base64 encoded value of the Fireblocks-Signature header
+     */
+    public verifySignature(rawBody: string | Buffer, signature: string): boolean {
+        if (!signature) {
+            return false;
+        }
+
+        const verifier = crypto.createVerify("RSA-SHA512");
+        verifier.update(rawBody);
+        return verifier.verify(this.publicKey, signature, "base64");
+    }
+
+    /**
+     * Verifies a webhook request and parses its body
+     * @param rawBody The request body exactly as received
+     * @param signature The base64 encoded value of the Fireblocks-Signature header
+     * @throws WebhookVerificationError if the signature is invalid, or the event has no timestamp, is stale or was already handled
+     */
+    public async parse(rawBody: string | Buffer, signature: string): Promise<WebhookEvent> {
+        if (!this.verifySignature(rawBody, signature)) {
+            throw new WebhookVerificationError("Invalid webhook signature");
+        }
+
+        let event: WebhookEvent;
+        try {
+            event = this.decimalAmounts
+                ? parseJsonWithDecimalAmounts(rawBody.toString(), path => path[0] === "data" && isTransactionAmountPath(path.slice(1)))
+                : JSON.parse(rawBody.toString());
+        } catch (e) {
+            throw new WebhookVerificationError("Webhook body is not valid JSON", e);
+        }
+
+        if (!event || typeof event.type !== "string" || !event.data) {
+            throw new WebhookVerificationError("Webhook body is not a Fireblocks event");
+        }
+
+        if (typeof event.timestamp !== "number") {
+            throw new WebhookVerificationError(`The ${event.type} webhook has no timestamp`);
+        }
+
+        if (Date.now() - event.timestamp > this.maxEventAgeMs) {
+            throw new WebhookVerificationError(`Stale ${event.type} webhook from ${new Date(event.timestamp).toISOString()}`);
+        }
+
+        if (this.replayStore && await this.replayStore.checkAndAdd(signature, this.maxEventAgeMs)) {
+            throw new WebhookVerificationError(`Replayed ${event.type} webhook`);
+        }
+
+        return event;
+    }
+
+    /**
+     * Forgets a webhook accepted by parse(), so that Fireblocks can deliver it again. Call it when handling the event failed
+     * @param signature The base64 encoded value of the Fireblocks-Signature header
+     */
+    public async release(signature: string) {
+        if (this.replayStore && signature) {
+            await this.replayStore.remove?.(signature);
+        }
+    }
+}
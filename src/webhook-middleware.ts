@@ -0,0 +1,193 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { WebhookEvent, WebhookEventType } from "./types";
+import { FireblocksError, WebhookVerificationError } from "./errors";
+import { WebhookHandler, WEBHOOK_SIGNATURE_HEADER } from "./webhook-handler";
+
+export type WebhookEventCallbacks = {
+    [Type in WebhookEventType]?: (event: Extract<WebhookEvent, { type: Type }>) => void | Promise<void>;
+};
+
+export interface WebhookMiddlewareOptions {
+    handler: WebhookHandler;
+    /**
+     * Callbacks per event type. Events of a type without a callback are acknowledged and dropped
+     */
+    on: WebhookEventCallbacks;
+    /**
+     * Called for every event after its type specific callback
+     */
+    onEvent?: (event: WebhookEvent) => void | Promise<void>;
+    /**
+     * Called when a request is rejected or a callback throws
+     */
+    onError?: (err: any) => void;
+}
+
+export interface WebhookDispatchResult {
+    status: number;
+    event?: WebhookEvent;
+    error?: any;
+}
+
+/**
+ * The parts of an Express request used by the middleware
+ */
+export interface ExpressLikeRequest extends IncomingMessage {
+    body?: any;
+    rawBody?: Buffer | string;
+}
+
+/**
+ * The parts of an Express response used by the middleware
+ */
+export interface ExpressLikeResponse {
+    status(code: number): ExpressLikeResponse;
+    end(): void;
+}
+
+/**
+ * The parts of a Koa context used by the middleware
+ */
+export interface KoaLikeContext {
+    req: IncomingMessage;
+    request: { rawBody?: string; body?: any };
+    status: number;
+    body: any;
+}
+
+/**
+ * Verifies a webhook and dispatches it to its callback.
+ * Resolves with 200 once the callback completed, 401 if verification failed and 500 if the callback threw,
+ * a non 2xx response makes Fireblocks deliver the webhook again
+ */
+export async function dispatchWebhook(options: WebhookMiddlewareOptions, rawBody: string | Buffer, signature: string): Promise<WebhookDispatchResult> {
+    let event: WebhookEvent;
+    try {
+        event = await options.handler.parse(rawBody, signature);
+    } catch (err) {
+        options.onError?.(err);
+        return { status: err instanceof WebhookVerificationError ? 401 : 500, error: err };
+    }
+
+    try {
+        const callback = options.on[event.type] as (event: WebhookEvent) => void | Promise<void>;
+        await callback?.(event);
+        await options.onEvent?.(event);
+    } catch (err) {
+        options.onError?.(err);
+        // Forget the webhook, so that its redelivery is not rejected as a replay
+        await options.handler.release(signature);
+        return { status: 500, event, error: err };
+    }
+
+    return { status: 200, event };
+}
+
+/**
+ * Creates a request listener for Node's http.createServer
+ */
+export function createNodeWebhookListener(options: WebhookMiddlewareOptions): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+        if (req.method !== "POST") {
+            res.statusCode = 405;
+            res.end();
+            return;
+        }
+
+        let rawBody: Buffer;
+        try {
+            rawBody = await readRawBody(req);
+        } catch (err) {
+            options.onError?.(err);
+            res.statusCode = getReadErrorStatus(err);
+            res.end();
+            return;
+        }
+
+        try {
+            res.statusCode = (await dispatchWebhook(options, rawBody, getSignature(req))).status;
+        } catch (err) {
+            options.onError?.(err);
+            res.statusCode = 500;
+        }
+        res.end();
+    };
+}
+
+/**
+ * Creates an Express style middleware. Mount it before any JSON body parser, or behind express.raw(), as the signature is computed over the raw body
+ */
+export function createExpressWebhookMiddleware(options: WebhookMiddlewareOptions): (req: ExpressLikeRequest, res: ExpressLikeResponse, next?: (err?: any) => void) => Promise<void> {
+    return async (req, res, next) => {
+        try {
+            const rawBody = req.rawBody ?? (Buffer.isBuffer(req.body) || typeof req.body === "string" ? req.body : await readRawBody(req));
+            const result = await dispatchWebhook(options, rawBody, getSignature(req));
+            res.status(result.status).end();
+        } catch (err) {
+            next?.(err);
+        }
+    };
+}
+
+/**
+ * Creates a Koa style middleware. Mount it before any body parser, or behind one that keeps ctx.request.rawBody
+ */
+export function createKoaWebhookMiddleware(options: WebhookMiddlewareOptions): (ctx: KoaLikeContext, next?: () => Promise<any>) => Promise<void> {
+    return async ctx => {
+        let rawBody: string | Buffer;
+        try {
+            rawBody = ctx.request.rawBody ?? await readRawBody(ctx.req);
+        } catch (err) {
+            options.onError?.(err);
+            ctx.status = getReadErrorStatus(err);
+            ctx.body = "";
+            return;
+        }
+
+        try {
+            ctx.status = (await dispatchWebhook(options, rawBody, getSignature(ctx.req))).status;
+        } catch (err) {
+            options.onError?.(err);
+            ctx.status = 500;
+        }
+        ctx.body = "";
+    };
+}
+
+function getSignature(req: IncomingMessage): string {
+    const header = req.headers[WEBHOOK_SIGNATURE_HEADER];
+    return Array.isArray(header) ? header[0] : header;
+}
+
+class BodyConsumedError extends FireblocksError {
+    constructor() {
+        super("The webhook request body was already read, mount the webhook middleware before any body parser or behind one that keeps the raw body");
+    }
+}
+
+/**
+ * A request whose body may have been consumed by a body parser, which sets _body once it did
+ */
+interface ParsedIncomingMessage extends IncomingMessage {
+    _body?: boolean;
+}
+
+/**
+ * A body parser that consumed the body is a server misconfiguration, any other read failure is the client's
+ */
+function getReadErrorStatus(err: any): number {
+    return err instanceof BodyConsumedError ? 500 : 400;
+}
+
+function readRawBody(req: ParsedIncomingMessage): Promise<Buffer> {
+    if (req.readableEnded || req._body) {
+        return Promise.reject(new BodyConsumedError());
+    }
+
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        req.on("data", (chunk: Buffer) => chunks.push(chunk));
+        req.on("end", () => resolve(Buffer.concat(chunks)));
+        req.on("error", reject);
+    });
+}
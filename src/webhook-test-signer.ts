@@ -0,0 +1,49 @@
+import crypto, { KeyObject } from "crypto";
+import { WebhookEvent } from "./types";
+import { WebhookHandler, WebhookHandlerOptions } from "./webhook-handler";
+
+export interface SignedWebhookRequest {
+    body: string;
+    headers: { [name: string]: string };
+}
+
+/**
+ * Signs synthetic webhook events with a locally generated key, for exercising webhook handlers in tests without Fireblocks
+ */
+export class WebhookTestSigner {
+    public readonly publicKey: KeyObject;
+    private readonly privateKey: KeyObject;
+
+    constructor() {
+        const { publicKey, privateKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+        this.publicKey = publicKey;
+        this.privateKey = privateKey;
+    }
+
+    /**
+     * Creates a WebhookHandler that trusts this signer
+     */
+    public createHandler(options: WebhookHandlerOptions = {}): WebhookHandler {
+        return new WebhookHandler({ ...options, publicKey: this.publicKey });
+    }
+
+    public sign(body: string | Buffer): string {
+        return crypto.createSign("RSA-SHA512").update(body).sign(this.privateKey, "base64");
+    }
+
+    /**
+     * Builds the body and headers of a webhook request carrying the event.
+     * The tenantId and timestamp of the event default to a test tenant and the current time
+     */
+    public signEvent(event: Pick<WebhookEvent, "type" | "data"> & Partial<WebhookEvent>): SignedWebhookRequest {
+        const body = JSON.stringify({ tenantId: "test-tenant", timestamp: Date.now(), ...event });
+
+        return {
+            body,
+            headers: {
+                "content-type": "application/json",
+                "fireblocks-signature": this.sign(body)
+            }
+        };
+    }
+}
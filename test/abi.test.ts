@@ -0,0 +1,210 @@
+import assert from "assert";
+import { startMockServer } from "./helpers";
+import { decodeFunctionCall, encodeFunctionCall, getFunctionSelector, getFunctionSignature } from "../src/abi";
+import { AbiFragment, FeeLevel, FireblocksError, PeerType, RequestContext, TransactionOperation } from "../src/fireblocks-sdk";
+
+const words = (...hexWords: string[]) => hexWords.join("");
+
+/**
+ * The examples of the Solidity ABI specification
+ */
+const ABI: AbiFragment[] = [
+    {
+        type: "function",
+        name: "f",
+        inputs: [{ name: "a", type: "uint256" }, { name: "b", type: "uint32[]" }, { name: "c", type: "bytes10" }, { name: "d", type: "bytes" }]
+    },
+    {
+        type: "function",
+        name: "g",
+        inputs: [{ name: "a", type: "uint256[][]" }, { name: "b", type: "string[]" }]
+    },
+    {
+        type: "function",
+        name: "baz",
+        inputs: [{ name: "x", type: "uint32" }, { name: "y", type: "bool" }]
+    }
+];
+
+const F_CALLDATA = "0x8be65246" + words(
+    "0000000000000000000000000000000000000000000000000000000000000123",
+    "0000000000000000000000000000000000000000000000000000000000000080",
+    "3132333435363738393000000000000000000000000000000000000000000000",
+    "00000000000000000000000000000000000000000000000000000000000000e0",
+    "0000000000000000000000000000000000000000000000000000000000000002",
+    "0000000000000000000000000000000000000000000000000000000000000456",
+    "0000000000000000000000000000000000000000000000000000000000000789",
+    "000000000000000000000000000000000000000000000000000000000000000d",
+    "48656c6c6f2c20776f726c642100000000000000000000000000000000000000"
+);
+
+const G_CALLDATA = "0x2289b18c" + words(
+    "0000000000000000000000000000000000000000000000000000000000000040",
+    "0000000000000000000000000000000000000000000000000000000000000140",
+    "0000000000000000000000000000000000000000000000000000000000000002",
+    "0000000000000000000000000000000000000000000000000000000000000040",
+    "00000000000000000000000000000000000000000000000000000000000000a0",
+    "0000000000000000000000000000000000000000000000000000000000000002",
+    "0000000000000000000000000000000000000000000000000000000000000001",
+    "0000000000000000000000000000000000000000000000000000000000000002",
+    "0000000000000000000000000000000000000000000000000000000000000001",
+    "0000000000000000000000000000000000000000000000000000000000000003",
+    "0000000000000000000000000000000000000000000000000000000000000003",
+    "0000000000000000000000000000000000000000000000000000000000000060",
+    "00000000000000000000000000000000000000000000000000000000000000a0",
+    "00000000000000000000000000000000000000000000000000000000000000e0",
+    "0000000000000000000000000000000000000000000000000000000000000003",
+    "6f6e650000000000000000000000000000000000000000000000000000000000",
+    "0000000000000000000000000000000000000000000000000000000000000003",
+    "74776f0000000000000000000000000000000000000000000000000000000000",
+    "0000000000000000000000000000000000000000000000000000000000000005",
+    "7468726565000000000000000000000000000000000000000000000000000000"
+);
+
+describe("abi", () => {
+    it("computes signatures and selectors", () => {
+        assert.strictEqual(getFunctionSignature(ABI[0]), "f(uint256,uint32[],bytes10,bytes)");
+        assert.strictEqual(getFunctionSelector(ABI[0]), "0x8be65246");
+        assert.strictEqual(getFunctionSelector(ABI[2]), "0xcdcd77c0");
+    });
+
+    it("encodes static arguments", () => {
+        assert.strictEqual(encodeFunctionCall(ABI, "baz", [69, true]), "0xcdcd77c0" + words(
+            "0000000000000000000000000000000000000000000000000000000000000045",
+            "0000000000000000000000000000000000000000000000000000000000000001"
+        ));
+    });
+
+    it("encodes dynamic arguments", () => {
+        const args = ["0x123", [0x456, 0x789], Buffer.from("1234567890"), Buffer.from("Hello, world!")];
+        assert.strictEqual(encodeFunctionCall(ABI, "f", args), F_CALLDATA);
+    });
+
+    it("encodes nested dynamic arrays", () => {
+        assert.strictEqual(encodeFunctionCall(ABI, "g", [[[1, 2], [3]], ["one", "two", "three"]]), G_CALLDATA);
+    });
+
+    it("decodes calldata back into its arguments", () => {
+        assert.deepStrictEqual(decodeFunctionCall(ABI, G_CALLDATA), {
+            method: "g",
+            signature: "g(uint256[][],string[])",
+            args: [[["1", "2"], ["3"]], ["one", "two", "three"]],
+            namedArgs: { a: [["1", "2"], ["3"]], b: ["one", "two", "three"] }
+        });
+        assert.deepStrictEqual(decodeFunctionCall(ABI, F_CALLDATA).args, [
+            "291",
+            ["1110", "1929"],
+            "0x31323334353637383930",
+            "0x48656c6c6f2c20776f726c6421"
+        ]);
+    });
+
+    it("keys unnamed tuple components by index", () => {
+        const abi: AbiFragment[] = [{
+            type: "function",
+            name: "h",
+            inputs: [{ name: "p", type: "tuple", components: [{ name: "", type: "uint8" }, { name: "flag", type: "bool" }] }]
+        }];
+        const calldata = encodeFunctionCall(abi, "h", [[7, true]]);
+        const decoded = decodeFunctionCall(abi, calldata);
+        assert.deepStrictEqual(decoded.args, [{ 0: "7", flag: true }]);
+        assert.strictEqual(encodeFunctionCall(abi, "h", decoded.args), calldata);
+    });
+
+    it("rejects unknown selectors and truncated calldata", () => {
+        assert.throws(() => decodeFunctionCall(ABI, "0xdeadbeef"), /No function in the ABI matches selector 0xdeadbeef/);
+        assert.throws(() => decodeFunctionCall(ABI, F_CALLDATA.substring(0, 100)), /too short/);
+    });
+});
+
+describe("callContract", () => {
+    const ERC20: AbiFragment[] = [{
+        type: "function",
+        name: "transfer",
+        inputs: [{ name: "to", type: "address" }, { name: "amount", type: "uint256" }],
+        outputs: [{ name: "", type: "bool" }]
+    }];
+    const TOKEN = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+    const RECIPIENT = "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB";
+    const FEE_ESTIMATE = { low: { gasPrice: "10" }, medium: { gasPrice: "20" }, high: { gasPrice: "30" } };
+
+    async function startContractServer() {
+        const posted: RequestContext[] = [];
+        const { server, sdk } = await startMockServer({}, { hooks: [{ beforeRequest: context => { posted.push(context); } }] });
+        server.addVaultAccount("Treasury", { ETH: 1 });
+        // The mock server does not estimate fees
+        server.injectFault({ method: "POST", path: "/v1/transactions/estimate_fee", status: 200, body: FEE_ESTIMATE });
+        return { server, sdk, posted };
+    }
+
+    it("estimates the fee of the encoded call and submits it to the contract address", async () => {
+        const { server, sdk, posted } = await startContractServer();
+        try {
+            const response = await sdk.callContract({
+                vaultAccountId: "0",
+                assetId: "ETH",
+                contractAddress: TOKEN,
+                abi: ERC20,
+                method: "transfer",
+                args: [RECIPIENT, "1000000"],
+                feeLevel: FeeLevel.HIGH,
+                note: "pay"
+            });
+
+            assert.strictEqual(response.contractCallData, encodeFunctionCall(ERC20, "transfer", [RECIPIENT, "1000000"]));
+            assert.deepStrictEqual(decodeFunctionCall(ERC20, response.contractCallData).namedArgs, { to: RECIPIENT, amount: "1000000" });
+            assert.deepStrictEqual(response.feeEstimate, FEE_ESTIMATE);
+
+            const expectedArguments = {
+                operation: TransactionOperation.CONTRACT_CALL,
+                assetId: "ETH",
+                source: { type: PeerType.VAULT_ACCOUNT, id: "0" },
+                destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: TOKEN } },
+                amount: "0",
+                feeLevel: FeeLevel.HIGH,
+                note: "pay",
+                extraParameters: { contractCallData: response.contractCallData }
+            };
+            assert.deepStrictEqual(posted.map(({ path, body }) => [path, JSON.parse(JSON.stringify(body))]), [
+                ["/v1/transactions/estimate_fee", expectedArguments],
+                ["/v1/transactions", expectedArguments]
+            ]);
+            assert.strictEqual((await sdk.getTransactionById(response.id)).destinationAddress, TOKEN);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("calls a whitelisted contract with a value", async () => {
+        const { server, sdk, posted } = await startContractServer();
+        try {
+            await sdk.callContract({
+                vaultAccountId: "0",
+                assetId: "ETH",
+                destination: { type: PeerType.EXTERNAL_WALLET, id: "wallet-1" },
+                abi: ERC20,
+                method: "transfer(address,uint256)",
+                args: [RECIPIENT, 5],
+                value: "0.5"
+            });
+
+            const { body } = posted[posted.length - 1];
+            assert.deepStrictEqual([body.destination, body.amount], [{ type: PeerType.EXTERNAL_WALLET, id: "wallet-1" }, "0.5"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("requires exactly one of contractAddress and destination, and known functions", async () => {
+        const { server, sdk, posted } = await startContractServer();
+        try {
+            const call = { vaultAccountId: "0", assetId: "ETH", abi: ERC20, method: "transfer", args: [RECIPIENT, 1] };
+            await assert.rejects(sdk.callContract(call), /Either contractAddress or destination is required/);
+            await assert.rejects(sdk.callContract({ ...call, contractAddress: TOKEN, destination: { type: PeerType.EXTERNAL_WALLET, id: "wallet-1" } }), FireblocksError);
+            await assert.rejects(sdk.callContract({ ...call, contractAddress: TOKEN, method: "approve" }), FireblocksError);
+            assert.strictEqual(posted.length, 0);
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,195 @@
+import assert from "assert";
+import http from "http";
+import { createSdk, respondJson, startMockServer, startRecordingServer } from "./helpers";
+import { createLoggingHooks, NotFoundError, RateLimitError, RequestHooks, ServerError } from "../src/fireblocks-sdk";
+
+describe("ApiClient", () => {
+    const retry = { maxAttempts: 3, baseDelayMs: 1, jitter: false };
+
+    it("retries requests that fail with a retryable status", async () => {
+        const { server, sdk } = await startMockServer({}, { retry });
+        try {
+            const vaultAccount = server.addVaultAccount("Treasury");
+            server.injectFault({ method: "GET", path: "/v1/vault/accounts/", status: 503, times: 2 });
+
+            assert.strictEqual((await sdk.getVaultAccountById(vaultAccount.id)).name, "Treasury");
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("gives up after the last attempt", async () => {
+        const { server, sdk } = await startMockServer({}, { retry });
+        try {
+            const vaultAccount = server.addVaultAccount("Treasury");
+            server.injectFault({ method: "GET", path: "/v1/vault/accounts/", status: 503, times: 3 });
+
+            await assert.rejects(sdk.getVaultAccountById(vaultAccount.id), ServerError);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("throws without retrying when Retry-After is longer than maxDelayMs", async () => {
+        const server = await startRecordingServer((req, res) => respondJson(res, 429, { message: "Too many requests" }, { "Retry-After": "3600" }));
+        try {
+            const sdk = createSdk(server.apiBaseUrl, { retry: { ...retry, maxDelayMs: 1000 } });
+
+            await assert.rejects(sdk.getVaultAccountById("0"), (err: RateLimitError) => err instanceof RateLimitError && err.retryAfterMs === 3600 * 1000);
+            assert.strictEqual(server.requests.length, 1);
+        } finally {
+            await server.close();
+        }
+    });
+
+    describe("idempotency keys", () => {
+        const respondCreated = (req: http.IncomingMessage, res: http.ServerResponse) => respondJson(res, 200, { id: "1", name: "Payouts" });
+
+        it("sends the idempotency key of a request in the Idempotency-Key header", async () => {
+            const server = await startRecordingServer(respondCreated);
+            try {
+                const sdk = createSdk(server.apiBaseUrl);
+                await sdk.createVaultAccount("Payouts", false, undefined, false, { idempotencyKey: "payouts-1" });
+                await sdk.createVaultAccount("Payouts");
+
+                assert.strictEqual(server.requests[0].headers["idempotency-key"], "payouts-1");
+                assert.strictEqual(server.requests[1].headers["idempotency-key"], undefined);
+            } finally {
+                await server.close();
+            }
+        });
+
+        it("generates a key for every POST request without one when autoIdempotencyKeys is set", async () => {
+            const server = await startRecordingServer(respondCreated);
+            try {
+                const sdk = createSdk(server.apiBaseUrl, { autoIdempotencyKeys: true });
+                await sdk.createVaultAccount("Payouts");
+                await sdk.createVaultAccount("Payouts");
+                await sdk.createVaultAccount("Payouts", false, undefined, false, { idempotencyKey: "payouts-1" });
+
+                const keys = server.requests.map(req => req.headers["idempotency-key"] as string);
+                assert.ok(/^[0-9a-f-]{36}$/.test(keys[0]), `generated ${keys[0]}`);
+                assert.notStrictEqual(keys[0], keys[1]);
+                assert.strictEqual(keys[2], "payouts-1");
+            } finally {
+                await server.close();
+            }
+        });
+
+        it("only retries POST requests that carry an idempotency key, sending the same key on every attempt", async () => {
+            let attempts = 0;
+            const server = await startRecordingServer((req, res) => ++attempts <= 2
+                ? respondJson(res, 503, { message: "Unavailable" })
+                : respondCreated(req, res));
+            try {
+                const sdk = createSdk(server.apiBaseUrl, { retry });
+                await assert.rejects(sdk.createVaultAccount("Payouts"), ServerError);
+                assert.strictEqual(server.requests.length, 1);
+
+                const created = await sdk.createVaultAccount("Payouts", false, undefined, false, { idempotencyKey: "payouts-1" });
+                assert.strictEqual(created.name, "Payouts");
+                assert.deepStrictEqual(server.requests.slice(1).map(req => req.headers["idempotency-key"]), ["payouts-1", "payouts-1"]);
+            } finally {
+                await server.close();
+            }
+        });
+
+        it("retries POST requests with generated keys", async () => {
+            let attempts = 0;
+            const server = await startRecordingServer((req, res) => ++attempts === 1
+                ? respondJson(res, 503, { message: "Unavailable" })
+                : respondCreated(req, res));
+            try {
+                const sdk = createSdk(server.apiBaseUrl, { retry, autoIdempotencyKeys: true });
+                await sdk.createVaultAccount("Payouts");
+
+                assert.strictEqual(server.requests.length, 2);
+                assert.strictEqual(server.requests[0].headers["idempotency-key"], server.requests[1].headers["idempotency-key"]);
+            } finally {
+                await server.close();
+            }
+        });
+    });
+
+    describe("request hooks", () => {
+        it("calls the hooks around every attempt, without letting them fail the request", async () => {
+            const calls: string[] = [];
+            const hooks: RequestHooks[] = [
+                {
+                    beforeRequest: context => { calls.push(`before ${context.attempt} ${context.headers.Authorization}`); },
+                    afterResponse: context => { calls.push(`after ${context.attempt} ${context.status}`); },
+                    onError: context => { calls.push(`error ${context.attempt} ${context.status}`); }
+                },
+                {
+                    afterResponse: () => { throw new Error("failing hook"); },
+                    onError: async () => { throw new Error("failing hook"); }
+                }
+            ];
+            const { server, sdk } = await startMockServer({}, { retry, hooks });
+            const emitWarning = process.emitWarning;
+            process.emitWarning = (() => { calls.push("warning"); }) as typeof process.emitWarning;
+            try {
+                const vaultAccount = server.addVaultAccount("Treasury");
+                server.injectFault({ method: "GET", path: "/v1/vault/accounts/", status: 503, times: 1 });
+
+                assert.strictEqual((await sdk.getVaultAccountById(vaultAccount.id)).name, "Treasury");
+                await assert.rejects(sdk.getVaultAccountById("missing"), NotFoundError);
+
+                assert.deepStrictEqual(calls.filter(call => call !== "warning"), [
+                    "before 1 [REDACTED]", "error 1 503",
+                    "before 2 [REDACTED]", "after 2 200",
+                    "before 1 [REDACTED]", "error 1 404"
+                ]);
+                assert.strictEqual(calls.filter(call => call === "warning").length, 3);
+            } finally {
+                process.emitWarning = emitWarning;
+                await server.close();
+            }
+        });
+
+        it("runs the hooks outside the rate limiter slot", async () => {
+            let started = 0;
+            let allStarted: () => void;
+            const bothStarted = new Promise<void>(resolve => allStarted = resolve);
+            const hooks: RequestHooks[] = [{
+                beforeRequest: async () => {
+                    if (++started === 2) {
+                        allStarted();
+                    }
+                    await bothStarted;
+                }
+            }];
+            const { server, sdk } = await startMockServer({}, { hooks, rateLimit: { maxConcurrent: 1 } });
+            try {
+                server.addVaultAccount("Treasury");
+                const accounts = await Promise.all([sdk.getVaultAccountById("0"), sdk.getVaultAccountById("0")]);
+                assert.deepStrictEqual(accounts.map(account => account.name), ["Treasury", "Treasury"]);
+            } finally {
+                await server.close();
+            }
+        });
+
+        it("logs requests, responses and failures through createLoggingHooks", async () => {
+            const lines: string[] = [];
+            const log = (level: string) => (message: string, meta?: { headers?: { [name: string]: string } }) => {
+                lines.push(`${level} ${message.replace(/\d+ms/, "?ms")}${meta?.headers ? ` ${meta.headers.Authorization}` : ""}`);
+            };
+            const logger = { debug: log("debug"), info: log("info"), warn: log("warn"), error: log("error") };
+            const { server, sdk } = await startMockServer({}, { hooks: [createLoggingHooks(logger)] });
+            try {
+                server.addVaultAccount("Treasury");
+                await sdk.getVaultAccountById("0");
+                await assert.rejects(sdk.getVaultAccountById("missing"), NotFoundError);
+
+                assert.deepStrictEqual(lines.slice(0, 3), [
+                    "debug GET /v1/vault/accounts/0 [REDACTED]",
+                    "info GET /v1/vault/accounts/0 200 ?ms",
+                    "debug GET /v1/vault/accounts/missing [REDACTED]"
+                ]);
+                assert.match(lines[3], /^error GET \/v1\/vault\/accounts\/missing failed with status 404/);
+            } finally {
+                await server.close();
+            }
+        });
+    });
+});
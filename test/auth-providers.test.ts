@@ -0,0 +1,92 @@
+import assert from "assert";
+import crypto from "crypto";
+import fs from "fs";
+import jwt from "jsonwebtoken";
+import os from "os";
+import path from "path";
+import { JwtPayload } from "../src/api-token-provider";
+import { ApiTokenProvider, FireblocksSDK, MockFireblocksServer, RemoteSignerAuthProvider } from "../src/fireblocks-sdk";
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const pem = privateKey.export({ type: "pkcs8", format: "pem" }) as string;
+const encryptedPem = privateKey.export({ type: "pkcs8", format: "pem", cipher: "aes-256-cbc", passphrase: "secret" }) as string;
+
+/**
+ * Verifies a JWT against the test key and returns its claims
+ */
+async function verify(token: string | Promise<string>): Promise<JwtPayload> {
+    return jwt.verify(await token, publicKey.export({ type: "spki", format: "pem" }) as string, { algorithms: ["RS256"] }) as JwtPayload;
+}
+
+describe("auth providers", () => {
+    describe("ApiTokenProvider", () => {
+        it("signs the path, the api key and the hash of the body", async () => {
+            const body = { amount: "1" };
+            const claims = await verify(new ApiTokenProvider(pem, "api-key").signJwt("/v1/transactions", body));
+
+            assert.strictEqual(claims.uri, "/v1/transactions");
+            assert.strictEqual(claims.sub, "api-key");
+            assert.strictEqual(claims.bodyHash, crypto.createHash("sha256").update(JSON.stringify(body)).digest("hex"));
+            assert.strictEqual(claims.exp - claims.iat, 55);
+        });
+
+        it("uses a new nonce for every token", async () => {
+            const provider = new ApiTokenProvider(pem, "api-key");
+            const [first, second] = await Promise.all([verify(provider.signJwt("/v1/vault/accounts")), verify(provider.signJwt("/v1/vault/accounts"))]);
+            assert.notStrictEqual(first.nonce, second.nonce);
+        });
+
+        it("signs with a KeyObject", async () => {
+            assert.strictEqual((await verify(new ApiTokenProvider(privateKey, "api-key").signJwt("/v1/vault/accounts"))).sub, "api-key");
+        });
+
+        it("reads plain and encrypted PEM keys", async () => {
+            assert.strictEqual((await verify(ApiTokenProvider.fromPem(pem, "api-key").signJwt("/"))).sub, "api-key");
+            assert.strictEqual((await verify(ApiTokenProvider.fromPem(encryptedPem, "api-key", "secret").signJwt("/"))).sub, "api-key");
+            assert.throws(() => ApiTokenProvider.fromPem(encryptedPem, "api-key", "wrong"));
+        });
+
+        it("reads the key from a file", async () => {
+            const dir = fs.mkdtempSync(path.join(os.tmpdir(), "fireblocks-sdk-"));
+            try {
+                fs.writeFileSync(path.join(dir, "key.pem"), encryptedPem);
+                const provider = ApiTokenProvider.fromFile(path.join(dir, "key.pem"), "api-key", "secret");
+                assert.strictEqual((await verify(provider.signJwt("/"))).sub, "api-key");
+                assert.throws(() => ApiTokenProvider.fromFile(path.join(dir, "missing.pem"), "api-key"), /ENOENT/);
+            } finally {
+                fs.rmSync(dir, { recursive: true });
+            }
+        });
+    });
+
+    describe("RemoteSignerAuthProvider", () => {
+        it("builds a JWT signed by the remote signer, returning raw or base64 signatures", async () => {
+            const signingInputs: string[] = [];
+            const rawSigner = async (input: Buffer) => {
+                signingInputs.push(input.toString());
+                return crypto.sign("sha256", input, privateKey);
+            };
+            const base64Signer = async (input: Buffer) => crypto.sign("sha256", input, privateKey).toString("base64");
+
+            const token = await new RemoteSignerAuthProvider("api-key", rawSigner).signJwt("/v1/transactions", { amount: "1" });
+            assert.strictEqual((await verify(token)).uri, "/v1/transactions");
+            assert.deepStrictEqual(signingInputs, [token.split(".").slice(0, 2).join(".")]);
+
+            assert.strictEqual((await verify(new RemoteSignerAuthProvider("api-key", base64Signer).signJwt("/"))).sub, "api-key");
+        });
+
+        it("authenticates the requests of the SDK", async () => {
+            const server = new MockFireblocksServer({ apiKeys: { "api-key": publicKey } });
+            const apiBaseUrl = await server.listen();
+            try {
+                server.addVaultAccount("Treasury");
+                const authProvider = new RemoteSignerAuthProvider("api-key", async input => crypto.sign("sha256", input, privateKey));
+                const sdk = new FireblocksSDK({ apiKey: "api-key", authProvider, apiBaseUrl });
+
+                assert.strictEqual((await sdk.getVaultAccountById("0")).name, "Treasury");
+            } finally {
+                await server.close();
+            }
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import assert from "assert";
+import { startMockServer } from "./helpers";
+import {
+    AssetBalance,
+    BalanceAccountType,
+    BalanceSnapshot,
+    diffSnapshots,
+    exportSnapshot,
+    exportSnapshotDiff,
+    FireblocksError,
+    MockFireblocksServer
+} from "../src/fireblocks-sdk";
+
+function assetBalance(total: string, available: string = total, pending: string = "0", locked: string = "0", allocated: string = "0"): AssetBalance {
+    return { total, available, pending, locked, allocated };
+}
+
+/**
+ * Answers the fiat and off exchange account listings, which the mock server does not implement
+ */
+function serveOtherAccounts(server: MockFireblocksServer) {
+    server.injectFault({ method: "GET", path: "/v1/fiat_accounts", status: 200, body: [] });
+    server.injectFault({
+        method: "GET",
+        path: "/v1/off_exchange_accounts",
+        status: 200,
+        body: [{ id: "oe-1", vaultAccountId: "0", thirdPartyAccountId: "x", balance: { USDT: { total: "100", locked: "10", frozen: "5", pending: "1" } } }]
+    });
+}
+
+describe("takeBalanceSnapshot", () => {
+    it("reads the balances of every account type, leaving out zero balances", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: "1.5", ETH: 0 });
+            const exchange = server.addExchangeAccount("Exchange", "BINANCE", { USDT: "250" });
+            const wallet = await sdk.createInternalWallet("Cold storage");
+            await sdk.createInternalWalletAsset(wallet.id, "BTC", "bc1q");
+            serveOtherAccounts(server);
+
+            const snapshot = await sdk.takeBalanceSnapshot();
+            assert.ok(snapshot.takenAt <= Date.now());
+            assert.deepStrictEqual(snapshot.accounts, {
+                "VAULT_ACCOUNT/0": { type: BalanceAccountType.VAULT_ACCOUNT, id: "0", name: "Treasury", assets: { BTC: assetBalance("1.5") } },
+                [`EXCHANGE_ACCOUNT/${exchange.id}`]: { type: BalanceAccountType.EXCHANGE_ACCOUNT, id: exchange.id, name: "Exchange", assets: { USDT: assetBalance("250") } },
+                [`INTERNAL_WALLET/${wallet.id}`]: { type: BalanceAccountType.INTERNAL_WALLET, id: wallet.id, name: "Cold storage", assets: {} },
+                "OFF_EXCHANGE_ACCOUNT/oe-1": { type: BalanceAccountType.OFF_EXCHANGE_ACCOUNT, id: "oe-1", assets: { USDT: assetBalance("100", "85", "1", "15") } }
+            });
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("reads only the given account types, with zero balances when asked", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: "1.5", ETH: 0 });
+            server.addExchangeAccount("Exchange", "BINANCE", { USDT: "250" });
+
+            const snapshot = await sdk.takeBalanceSnapshot({ accountTypes: [BalanceAccountType.VAULT_ACCOUNT], includeZeroBalances: true });
+            assert.deepStrictEqual(Object.keys(snapshot.accounts), ["VAULT_ACCOUNT/0"]);
+            assert.deepStrictEqual(snapshot.accounts["VAULT_ACCOUNT/0"].assets, { BTC: assetBalance("1.5"), ETH: assetBalance("0") });
+        } finally {
+            await server.close();
+        }
+    });
+});
+
+describe("diffSnapshots", () => {
+    it("lists the balances that changed between two snapshots of the mock server", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: "1.5", ETH: "2" });
+            const options = { accountTypes: [BalanceAccountType.VAULT_ACCOUNT] };
+            const before = await sdk.takeBalanceSnapshot(options);
+
+            server.setBalance("0", "BTC", "1.25");
+            server.addVaultAccount("Payouts", { BTC: "0.25" });
+            const after = await sdk.takeBalanceSnapshot(options);
+
+            const diff = diffSnapshots(before, after);
+            assert.deepStrictEqual([diff.from, diff.to], [before.takenAt, after.takenAt]);
+            assert.deepStrictEqual(diff.changes, [
+                {
+                    accountType: BalanceAccountType.VAULT_ACCOUNT,
+                    accountId: "0",
+                    accountName: "Treasury",
+                    assetId: "BTC",
+                    before: assetBalance("1.5"),
+                    after: assetBalance("1.25"),
+                    change: assetBalance("-0.25")
+                },
+                {
+                    accountType: BalanceAccountType.VAULT_ACCOUNT,
+                    accountId: "1",
+                    accountName: "Payouts",
+                    assetId: "BTC",
+                    before: assetBalance("0"),
+                    after: assetBalance("0.25"),
+                    change: assetBalance("0.25")
+                }
+            ]);
+            assert.deepStrictEqual(diffSnapshots(before, after, true).changes.map(change => `${change.accountId}/${change.assetId}`), ["0/BTC", "0/ETH", "1/BTC"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("lists the balances of accounts that are gone", () => {
+        const account = { type: BalanceAccountType.VAULT_ACCOUNT, id: "3", name: "Old", assets: { ETH: assetBalance("1") } };
+        const diff = diffSnapshots({ takenAt: 1, accounts: { "VAULT_ACCOUNT/3": account } }, { takenAt: 2, accounts: {} });
+        assert.deepStrictEqual(diff.changes.map(change => [change.accountName, change.assetId, change.change.total]), [["Old", "ETH", "-1"]]);
+    });
+});
+
+describe("exportSnapshot and exportSnapshotDiff", () => {
+    const before: BalanceSnapshot = {
+        takenAt: Date.UTC(2021, 0, 1),
+        accounts: { "VAULT_ACCOUNT/0": { type: BalanceAccountType.VAULT_ACCOUNT, id: "0", name: "Treasury, main", assets: { BTC: assetBalance("1") } } }
+    };
+    const after: BalanceSnapshot = { ...before, takenAt: Date.UTC(2021, 0, 2), accounts: { "VAULT_ACCOUNT/0": { ...before.accounts["VAULT_ACCOUNT/0"], assets: { BTC: assetBalance("2") } } } };
+
+    it("export CSV rows per account and asset", () => {
+        assert.strictEqual(exportSnapshot(before, "csv"),
+            "takenAt,accountType,accountId,accountName,assetId,total,available,pending,locked,allocated\r\n" +
+            "2021-01-01T00:00:00.000Z,VAULT_ACCOUNT,0,\"Treasury, main\",BTC,1,1,0,0,0\r\n");
+
+        const [header, row] = exportSnapshotDiff(diffSnapshots(before, after), "csv").split("\r\n");
+        assert.ok(header.startsWith("accountType,accountId,accountName,assetId,before.total,"));
+        assert.ok(header.endsWith(",change.locked,change.allocated"));
+        assert.strictEqual(row, "VAULT_ACCOUNT,0,\"Treasury, main\",BTC,1,1,0,0,0,2,2,0,0,0,1,1,0,0,0");
+    });
+
+    it("export JSON, and reject other formats", () => {
+        assert.deepStrictEqual(JSON.parse(exportSnapshot(before, "json")), before);
+        assert.throws(() => exportSnapshot(before, "xml" as any), FireblocksError);
+        assert.throws(() => exportSnapshotDiff(diffSnapshots(before, after), "xml" as any), /Unsupported export format: xml/);
+    });
+});
@@ -0,0 +1,85 @@
+import assert from "assert";
+import { startMockServer } from "./helpers";
+import { PayoutItem, PayoutItemStatus, PeerType } from "../src/fireblocks-sdk";
+
+describe("batchPayout", () => {
+    it("resumes a batch without paying any item twice", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const treasury = server.addVaultAccount("Treasury", { BTC: "10", ETH: "10" });
+            const hotWallet = server.addVaultAccount("Hot wallet");
+            const items: PayoutItem[] = [
+                ...["addr-1", "addr-2", "addr-3"].map((address, i) => ({
+                    id: `btc-${i + 1}`,
+                    assetId: "BTC",
+                    amount: "0.1",
+                    destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address } }
+                })),
+                { id: "eth-1", assetId: "ETH", amount: 1, destination: { type: PeerType.VAULT_ACCOUNT, id: hotWallet.id } }
+            ];
+            const options = { batchId: "batch-1" };
+            const statuses = (results: { status: PayoutItemStatus }[]) => results.map(result => result.status);
+
+            // The validation of the second address fails once, leaving it out of the shared BTC transaction
+            server.injectFault({ path: "/v1/transactions/validate_address/BTC/addr-2", status: 503, times: 1 });
+            const first = await sdk.batchPayout(treasury.id, items, options);
+            assert.deepStrictEqual(statuses(first), [PayoutItemStatus.SUBMITTED, PayoutItemStatus.FAILED, PayoutItemStatus.SUBMITTED, PayoutItemStatus.SUBMITTED]);
+            assert.strictEqual(first[0].txId, first[2].txId);
+
+            const second = await sdk.batchPayout(treasury.id, items, options);
+            assert.deepStrictEqual(statuses(second), [
+                PayoutItemStatus.ALREADY_SUBMITTED, PayoutItemStatus.SUBMITTED, PayoutItemStatus.ALREADY_SUBMITTED, PayoutItemStatus.ALREADY_SUBMITTED
+            ]);
+            assert.notStrictEqual(second[1].txId, first[0].txId);
+
+            const third = await sdk.batchPayout(treasury.id, items, options);
+            assert.ok(third.every(result => result.status === PayoutItemStatus.ALREADY_SUBMITTED));
+            assert.deepStrictEqual(third.map(result => result.txId), second.map(result => result.txId));
+
+            const paidAddresses = server.getTransactions()
+                .filter(transaction => transaction.assetId === "BTC")
+                .map(transaction => transaction.destinations ? transaction.destinations.map(destination => destination.destinationAddress) : [transaction.destinationAddress]);
+            assert.deepStrictEqual(([] as string[]).concat(...paidAddresses).sort(), ["addr-1", "addr-2", "addr-3"]);
+            assert.strictEqual(server.getTransactions().length, 3);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("reports items the API rejects without failing the batch", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const treasury = server.addVaultAccount("Treasury", { ETH: "10" });
+            server.injectFault({ method: "POST", path: "/v1/transactions", status: 400, body: { message: "Invalid destination", code: 1427 }, times: 1 });
+
+            const results = await sdk.batchPayout(treasury.id, [
+                { id: "a", assetId: "ETH", amount: 1, destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "0x1" } } },
+                { id: "b", assetId: "ETH", amount: 1, destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "0x2" } } }
+            ], { batchId: "batch-2" });
+
+            assert.deepStrictEqual(results.map(result => result.status), [PayoutItemStatus.FAILED, PayoutItemStatus.SUBMITTED]);
+            assert.match(results[0].error, /Invalid destination/);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("pays again the items of a transaction whose destinations carry no amount", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const treasury = server.addVaultAccount("Treasury", { BTC: "10" });
+            const hotWallet = server.addVaultAccount("Hot wallet");
+            const items: PayoutItem[] = [{ id: "btc-1", assetId: "BTC", amount: "0.1", destination: { type: PeerType.VAULT_ACCOUNT, id: hotWallet.id } }];
+
+            const [first] = await sdk.batchPayout(treasury.id, items, { batchId: "batch-3" });
+            delete (server.getTransactions()[0] as any).amount;
+
+            const [second] = await sdk.batchPayout(treasury.id, items, { batchId: "batch-3" });
+            assert.strictEqual(second.status, PayoutItemStatus.SUBMITTED);
+            assert.notStrictEqual(second.txId, first.txId);
+            assert.notStrictEqual(second.externalTxId, first.externalTxId);
+        } finally {
+            await server.close();
+        }
+    });
+});
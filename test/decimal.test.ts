@@ -0,0 +1,85 @@
+import assert from "assert";
+import { createSdk, startRecordingServer } from "./helpers";
+import { isTransactionAmountPath, parseJsonWithDecimalAmounts } from "../src/decimal";
+import {
+    addDecimals,
+    asDecimalTransaction,
+    compareDecimals,
+    fromBaseUnits,
+    normalizeDecimal,
+    subtractDecimals,
+    toBaseUnits,
+    TransactionResponse
+} from "../src/fireblocks-sdk";
+
+const TRANSACTION = '{"id":"tx-\\"1\\"","amount":1.234567890123456789,"networkFee":1e-7,"createdAt":1700000000000,'
+    + '"amlScreeningResult":{"payload":{"amount":0.1}},"note":"amount: 1",'
+    + '"destinations":[{"amount":0.100000000000000001,"amountUSD":12.5,"destination":{"id":"1","type":"VAULT_ACCOUNT"}}]}';
+
+describe("decimal amounts", () => {
+    it("normalizes numbers and numeric strings to plain decimals", () => {
+        assert.deepStrictEqual([1.5, "001.2300", "-0.0", "1e-7", "1.5E+3", 1e21].map(normalizeDecimal), ["1.5", "1.23", "0", "0.0000001", "1500", "1000000000000000000000"]);
+        assert.throws(() => normalizeDecimal("1,5"), /Invalid decimal amount/);
+        assert.throws(() => normalizeDecimal(NaN), /Invalid decimal amount/);
+    });
+
+    it("converts between human units and base units", () => {
+        assert.strictEqual(toBaseUnits("1.5", 18), "1500000000000000000");
+        assert.strictEqual(fromBaseUnits("1500000000000000001", 18), "1.500000000000000001");
+        assert.strictEqual(fromBaseUnits("-15", 1), "-1.5");
+        assert.throws(() => toBaseUnits("0.123", 2), /more than 2 decimals/);
+        assert.throws(() => fromBaseUnits("1.5", 2), /must be an integer/);
+    });
+
+    it("adds, subtracts and compares without rounding", () => {
+        assert.strictEqual(addDecimals("0.1", "0.2"), "0.3");
+        assert.strictEqual(subtractDecimals("1", "0.000000000000000001"), "0.999999999999999999");
+        assert.deepStrictEqual([compareDecimals("1.10", 1.1), compareDecimals("2", "10"), compareDecimals(-1, "-2")], [0, -1, 1]);
+    });
+
+    describe("parseJsonWithDecimalAmounts", () => {
+        it("keeps only the declared amounts of a transaction as strings", () => {
+            const transaction = parseJsonWithDecimalAmounts(TRANSACTION);
+
+            assert.strictEqual(transaction.id, 'tx-"1"');
+            assert.strictEqual(transaction.amount, "1.234567890123456789");
+            assert.strictEqual(transaction.networkFee, "0.0000001");
+            assert.deepStrictEqual([transaction.destinations[0].amount, transaction.destinations[0].amountUSD], ["0.100000000000000001", "12.5"]);
+            assert.strictEqual(transaction.createdAt, 1700000000000);
+            assert.strictEqual(transaction.amlScreeningResult.payload.amount, 0.1);
+            assert.strictEqual(transaction.note, "amount: 1");
+        });
+
+        it("keeps the amounts of every transaction of a list", () => {
+            const transactions = parseJsonWithDecimalAmounts(`[${TRANSACTION},{"id":"tx-2","amount":2}]`);
+            assert.deepStrictEqual(transactions.map((transaction: TransactionResponse) => transaction.amount), ["1.234567890123456789", "2"]);
+        });
+
+        it("selects the amounts by path", () => {
+            assert.deepStrictEqual(parseJsonWithDecimalAmounts('{"data":{"amount":1.5},"amount":2}', path => path[0] === "data" && isTransactionAmountPath(path.slice(1))),
+                { data: { amount: "1.5" }, amount: 2 });
+            assert.throws(() => parseJsonWithDecimalAmounts('{"amount":'), SyntaxError);
+        });
+    });
+
+    it("parses only the amounts of transaction responses when decimalAmounts is enabled", async () => {
+        const server = await startRecordingServer((req, res) => res.end(req.url.startsWith("/v1/transactions") ? TRANSACTION : '{"id":"0","amount":0.1}'));
+        try {
+            const decimalSdk = createSdk(server.apiBaseUrl, { decimalAmounts: true });
+            const transaction = asDecimalTransaction(await decimalSdk.getTransactionById("tx-1"));
+            assert.strictEqual(transaction.amount, "1.234567890123456789");
+            assert.strictEqual(transaction.destinations[0].amount, "0.100000000000000001");
+            assert.strictEqual(((await decimalSdk.getVaultAccountById("0")) as unknown as { amount: number }).amount, 0.1);
+
+            const numberSdk = createSdk(server.apiBaseUrl);
+            assert.strictEqual((await numberSdk.getTransactionById("tx-1")).amount, 1.2345678901234568);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("types the amounts of a transaction as decimal strings", () => {
+        const transaction = asDecimalTransaction({ id: "tx-1", amount: 1.5, networkFee: 0.0001, destinations: [{ amount: 1 }] } as TransactionResponse);
+        assert.deepStrictEqual([transaction.amount, transaction.networkFee, transaction.fee, transaction.destinations[0].amount], ["1.5", "0.0001", undefined, "1"]);
+    });
+});
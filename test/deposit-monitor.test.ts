@@ -0,0 +1,140 @@
+import assert from "assert";
+import { FakeTransactionSource, ObservedCheckpointStore, startMockServer } from "./helpers";
+import {
+    DepositAddressResponse,
+    DepositEvent,
+    DepositMonitor,
+    DepositMonitorOptions,
+    PeerType,
+    ServerError,
+    TransactionStatus
+} from "../src/fireblocks-sdk";
+
+class FakeDepositSource extends FakeTransactionSource {
+    public addressFailures = 0;
+    public readonly thresholds: { [txId: string]: number } = {};
+
+    public async getDepositAddresses(): Promise<DepositAddressResponse[]> {
+        if (this.addressFailures-- > 0) {
+            throw new ServerError("GET /v1/vault/accounts/0/BTC/addresses failed with status 503", { status: 503 });
+        }
+        return [{ assetId: "BTC", address: "bc1qdeposit", customerRefId: "customer-1" } as DepositAddressResponse];
+    }
+
+    public async setConfirmationThresholdForTxId(txId: string, requiredConfirmationsNumber: number) {
+        this.thresholds[txId] = requiredConfirmationsNumber;
+        return { success: true };
+    }
+}
+
+describe("DepositMonitor", () => {
+    let source: FakeDepositSource;
+    let checkpointStore: ObservedCheckpointStore;
+    let monitor: DepositMonitor;
+    let events: string[];
+
+    beforeEach(() => {
+        source = new FakeDepositSource();
+        checkpointStore = new ObservedCheckpointStore();
+        events = [];
+    });
+
+    afterEach(async () => {
+        await monitor?.stop();
+    });
+
+    function start(options: Partial<DepositMonitorOptions> = {}) {
+        monitor = new DepositMonitor(source.asSdk(), {
+            vaultAccountId: "0",
+            requiredConfirmations: { BTC: 6 },
+            pollIntervalMs: 1,
+            startAt: 0,
+            checkpointStore,
+            ...options
+        });
+        ["seen", "confirmed", "failed"].forEach(type => monitor.on(type, (event: DepositEvent) =>
+            events.push(`${type} ${event.confirmations} ${event.customerRefId ?? "-"}`)));
+        monitor.on("error", e => events.push(`error ${e.message}`));
+        monitor.start();
+    }
+
+    async function step(status: TransactionStatus, numOfConfirmations: number) {
+        source.update("tx-1", { status, numOfConfirmations });
+        await checkpointStore.nextPoll();
+    }
+
+    it("confirms a deposit once it has the required confirmations, even after it completed", async () => {
+        start();
+        await step(TransactionStatus.CONFIRMING, 1);
+        await step(TransactionStatus.COMPLETED, 3);
+        await step(TransactionStatus.COMPLETED, 6);
+        await step(TransactionStatus.COMPLETED, 7);
+
+        assert.deepStrictEqual(events, ["seen 1 customer-1", "confirmed 6 customer-1"]);
+    });
+
+    it("emits the events without a customerRefId when the deposit addresses can not be loaded", async () => {
+        source.addressFailures = 1;
+        start();
+        await step(TransactionStatus.CONFIRMING, 6);
+
+        assert.deepStrictEqual(events, [
+            "error GET /v1/vault/accounts/0/BTC/addresses failed with status 503",
+            "seen 6 -",
+            "confirmed 6 customer-1"
+        ]);
+    });
+
+    it("delivers an event again when a listener throws", async () => {
+        let failures = 1;
+        start();
+        monitor.prependListener("confirmed", () => {
+            if (failures-- > 0) {
+                throw new Error("listener failed");
+            }
+        });
+        await step(TransactionStatus.CONFIRMING, 6);
+        await checkpointStore.nextPoll();
+
+        assert.deepStrictEqual(events, ["seen 6 customer-1", "error listener failed", "confirmed 6 customer-1"]);
+    });
+
+    it("reports a failed deposit once", async () => {
+        start();
+        await step(TransactionStatus.CONFIRMING, 1);
+        await step(TransactionStatus.FAILED, 1);
+        await checkpointStore.nextPoll();
+
+        assert.deepStrictEqual(events, ["seen 1 customer-1", "failed 1 customer-1"]);
+    });
+
+    it("confirms on completion when the requirement was set as the confirmation threshold", async () => {
+        start({ setConfirmationThreshold: true });
+        await step(TransactionStatus.CONFIRMING, 1);
+        await step(TransactionStatus.COMPLETED, 2);
+
+        assert.deepStrictEqual(source.thresholds, { "tx-1": 6 });
+        assert.deepStrictEqual(events, ["seen 1 customer-1", "confirmed 2 customer-1"]);
+    });
+
+    it("confirms the deposits into a vault account of the mock server", async () => {
+        const { server, sdk } = await startMockServer({ statusIntervalMs: 20 });
+        try {
+            server.addVaultAccount("Deposits");
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            monitor = sdk.monitorDeposits({ vaultAccountId: "0", requiredConfirmations: { BTC: 1 }, pollIntervalMs: 5, startAt: 0 });
+            const confirmed = new Promise<DepositEvent>(resolve => monitor.once("confirmed", resolve));
+
+            await sdk.createTransaction({ assetId: "BTC", source: { type: PeerType.VAULT_ACCOUNT, id: "1" }, amount: 0.5, destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } } });
+            const { id } = await sdk.createTransaction({ assetId: "BTC", source: { type: PeerType.VAULT_ACCOUNT, id: "1" }, amount: 0.25, destination: { type: PeerType.VAULT_ACCOUNT, id: "0" } });
+
+            const event = await confirmed;
+            const [depositAddress] = await sdk.getDepositAddresses("0", "BTC");
+            assert.deepStrictEqual([event.transaction.id, event.transaction.status, event.confirmations], [id, TransactionStatus.COMPLETED, 1]);
+            assert.deepStrictEqual([event.assetId, event.amount, event.address], ["BTC", 0.25, depositAddress.address]);
+        } finally {
+            await monitor.stop();
+            await server.close();
+        }
+    });
+});
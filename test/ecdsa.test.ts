@@ -0,0 +1,74 @@
+import assert from "assert";
+import crypto from "crypto";
+import {
+    bytesToBigInt,
+    Curve,
+    decodePublicKey,
+    encodePublicKey,
+    Point,
+    recoverPublicKey,
+    SECP256K1,
+    SECP256R1,
+    verify
+} from "../src/ecdsa";
+
+function generateKeyPair(namedCurve: string): { privateKey: crypto.KeyObject, point: Point } {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve });
+    const jwk = publicKey.export({ format: "jwk" });
+    return {
+        privateKey,
+        point: { x: bytesToBigInt(Buffer.from(jwk.x, "base64")), y: bytesToBigInt(Buffer.from(jwk.y, "base64")) }
+    };
+}
+
+function sign(privateKey: crypto.KeyObject, message: Buffer) {
+    const signature = crypto.sign("sha256", message, { key: privateKey, dsaEncoding: "ieee-p1363" });
+    return { r: bytesToBigInt(signature.slice(0, 32)), s: bytesToBigInt(signature.slice(32)) };
+}
+
+const CURVES: { [name: string]: Curve } = { secp256k1: SECP256K1, prime256v1: SECP256R1 };
+
+describe("ecdsa", () => {
+    it("decodes compressed and uncompressed public keys to the same point", () => {
+        const g = SECP256K1.g;
+        assert.deepStrictEqual(decodePublicKey(SECP256K1, encodePublicKey(g, true)), g);
+        assert.deepStrictEqual(decodePublicKey(SECP256K1, encodePublicKey(g, false)), g);
+        assert.strictEqual(
+            encodePublicKey(g, true).toString("hex"),
+            "0279be667ef9dcbbac55a06295ce870b07029bfcdb2dce28d959f2815b16f81798");
+    });
+
+    it("rejects invalid public key encodings", () => {
+        assert.throws(() => decodePublicKey(SECP256K1, Buffer.alloc(20)), /Invalid public key encoding/);
+    });
+
+    Object.keys(CURVES).forEach(name => {
+        const curve = CURVES[name];
+
+        describe(name, () => {
+            const { privateKey, point } = generateKeyPair(name);
+            const message = Buffer.from("Fireblocks raw signing");
+            const digest = crypto.createHash("sha256").update(message).digest();
+            const signature = sign(privateKey, message);
+
+            it("verifies signatures made by OpenSSL", () => {
+                assert.strictEqual(verify(curve, digest, signature, point), true);
+            });
+
+            it("rejects a signature over another digest", () => {
+                const otherDigest = crypto.createHash("sha256").update("another message").digest();
+                assert.strictEqual(verify(curve, otherDigest, signature, point), false);
+            });
+
+            it("rejects out of range signatures", () => {
+                assert.strictEqual(verify(curve, digest, { r: BigInt(0), s: signature.s }, point), false);
+                assert.strictEqual(verify(curve, digest, { r: signature.r, s: curve.n }, point), false);
+            });
+
+            it("recovers the public key with one of the recovery ids", () => {
+                const recovered = [0, 1].map(recoveryId => recoverPublicKey(curve, digest, signature, recoveryId));
+                assert.ok(recovered.some(candidate => candidate?.x === point.x && candidate?.y === point.y));
+            });
+        });
+    });
+});
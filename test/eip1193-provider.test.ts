@@ -0,0 +1,143 @@
+import assert from "assert";
+import { createEthereumSigner, respondJson, servePublicKey, startMockServer, startRecordingServer, startSigningMockServer } from "./helpers";
+import {
+    FeeLevel,
+    FireblocksEip1193Provider,
+    FireblocksSDK,
+    hashPersonalMessage,
+    hashTypedData,
+    MockFireblocksServer,
+    ProviderRpcError,
+    recoverAddress,
+    RequestContext,
+    toChecksumAddress,
+    TransactionOperation,
+    TypedData
+} from "../src/fireblocks-sdk";
+
+const RECIPIENT = "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB";
+const WAIT_OPTIONS = { pollIntervalMs: 10, maxPollIntervalMs: 10 };
+
+function createProvider(sdk: FireblocksSDK, rpcUrl: string = "http://127.0.0.1:1") {
+    return new FireblocksEip1193Provider(sdk, { vaultAccountIds: ["0", "1"], assetId: "ETH", rpcUrl, chainId: 5, waitOptions: WAIT_OPTIONS });
+}
+
+async function addAccounts(server: MockFireblocksServer, sdk: FireblocksSDK): Promise<string[]> {
+    server.addVaultAccount("First", { ETH: 2 });
+    server.addVaultAccount("Second", { ETH: 1 });
+    return [(await sdk.getDepositAddresses("0", "ETH"))[0].address, (await sdk.getDepositAddresses("1", "ETH"))[0].address];
+}
+
+async function rejectsWithCode(promise: Promise<any>, code: number) {
+    await assert.rejects(promise, (e: any) => e instanceof ProviderRpcError && e.code === code);
+}
+
+describe("FireblocksEip1193Provider", () => {
+    it("exposes the deposit addresses of the vault accounts as accounts", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const addresses = (await addAccounts(server, sdk)).map(toChecksumAddress);
+            const provider = createProvider(sdk);
+
+            assert.deepStrictEqual(await provider.request({ method: "eth_requestAccounts" }), addresses);
+            assert.strictEqual(await provider.request({ method: "eth_coinbase" }), addresses[0]);
+            assert.strictEqual(await provider.request({ method: "eth_chainId" }), "0x5");
+            assert.strictEqual(await provider.request({ method: "net_version" }), "5");
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("sends transactions through Fireblocks and returns their hash once broadcast", async () => {
+        const posted: RequestContext[] = [];
+        const { server, sdk } = await startMockServer({ statusIntervalMs: 5 }, { hooks: [{ beforeRequest: context => { posted.push(context); } }] });
+        try {
+            const [, second] = await addAccounts(server, sdk);
+            const provider = createProvider(sdk);
+
+            const txHash = await provider.request({ method: "eth_sendTransaction", params: [{ from: second, to: RECIPIENT, value: "0xde0b6b3a7640000", gas: "0x5208" }] });
+            const [transaction] = server.getTransactions() as any[];
+            assert.strictEqual(txHash, `0x${transaction.txHash}`);
+            assert.deepStrictEqual([transaction.operation, transaction.source.id, transaction.amount], [TransactionOperation.TRANSFER, "1", 1]);
+
+            await provider.request({ method: "eth_sendTransaction", params: [{ to: RECIPIENT, data: "0xa9059cbb", gasPrice: "20000000000" }] });
+            const bodies = posted.filter(({ method, path }) => method === "POST" && path === "/v1/transactions").map(({ body }) => body);
+            assert.deepStrictEqual(bodies.map(({ operation, feeLevel, gasPrice, gasLimit }) => [operation, feeLevel, gasPrice, gasLimit]), [
+                [TransactionOperation.TRANSFER, FeeLevel.MEDIUM, undefined, "21000"],
+                [TransactionOperation.CONTRACT_CALL, undefined, "20", undefined]
+            ]);
+            assert.deepStrictEqual(bodies[1].extraParameters, { contractCallData: "0xa9059cbb" });
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("signs personal messages and typed data with the vault account of the address", async () => {
+        const signer = createEthereumSigner();
+        const submitted: any[] = [];
+        const { server, sdk } = await startSigningMockServer(messages => {
+            submitted.push(...messages);
+            return signer.signMessages(messages);
+        });
+        try {
+            const [first] = await addAccounts(server, sdk);
+            servePublicKey(server, signer.publicKey);
+            const provider = createProvider(sdk);
+            const typedData: TypedData = {
+                types: { Greeting: [{ name: "text", type: "string" }] },
+                primaryType: "Greeting",
+                domain: { name: "Test", chainId: 5 },
+                message: { text: "hello" }
+            };
+
+            const hexSignature = await provider.request({ method: "personal_sign", params: ["0x68656c6c6f", first] });
+            const textSignature = await provider.request({ method: "personal_sign", params: ["hello", first] });
+            const typedSignature = await provider.request({ method: "eth_signTypedData_v4", params: [first, JSON.stringify(typedData)] });
+
+            const signerAddress = recoverAddress(hashPersonalMessage("hello"), hexSignature);
+            assert.strictEqual(recoverAddress(hashPersonalMessage("hello"), textSignature), signerAddress);
+            assert.strictEqual(recoverAddress(hashTypedData(typedData), typedSignature), signerAddress);
+            assert.deepStrictEqual(submitted.map(message => message.index), [0, 0, 0]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("proxies other calls to the RPC endpoint and passes its errors on", async () => {
+        const rpc = await startRecordingServer((req, res) => {
+            let body = "";
+            req.on("data", chunk => body += chunk);
+            req.on("end", () => {
+                const { id, method } = JSON.parse(body);
+                respondJson(res, 200, method === "eth_blockNumber" ?
+                    { jsonrpc: "2.0", id, result: "0x10" } :
+                    { jsonrpc: "2.0", id, error: { code: -32601, message: "method not found" } });
+            });
+        });
+        try {
+            const provider = new FireblocksEip1193Provider({} as FireblocksSDK, { vaultAccountIds: [], assetId: "ETH", rpcUrl: rpc.apiBaseUrl });
+
+            assert.strictEqual(await provider.request({ method: "eth_blockNumber" }), "0x10");
+            await rejectsWithCode(provider.request({ method: "eth_chainId" }), -32601);
+            assert.strictEqual(rpc.requests.length, 2);
+        } finally {
+            await rpc.close();
+        }
+    });
+
+    it("rejects unsupported methods, unknown addresses and invalid transactions with EIP-1193 error codes", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            await addAccounts(server, sdk);
+            const provider = createProvider(sdk);
+
+            await rejectsWithCode(provider.request({ method: "eth_sign", params: [RECIPIENT, "0x00"] }), 4200);
+            await rejectsWithCode(provider.request({ method: "eth_sendTransaction", params: [{ data: "0x00" }] }), 4200);
+            await rejectsWithCode(provider.request({ method: "personal_sign", params: ["hello", RECIPIENT] }), 4100);
+            await rejectsWithCode(provider.request({ method: "eth_sendTransaction", params: [{ to: RECIPIENT, value: "0x0" }] }), -32602);
+            assert.strictEqual(server.getTransactions().length, 0);
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,151 @@
+import assert from "assert";
+import { createEthereumSigner, servePublicKey, startSigningMockServer } from "./helpers";
+import {
+    bytesToHex,
+    hashPersonalMessage,
+    hashTypedData,
+    hexToBytes,
+    publicKeyToAddress,
+    recoverAddress,
+    toChecksumAddress
+} from "../src/ethereum";
+import { encodePublicKey, SECP256K1 } from "../src/ecdsa";
+import { SignatureVerificationError, TransactionOperation, TypedData, TypedMessageType } from "../src/fireblocks-sdk";
+
+/**
+ * The example of EIP-712, signed by the key keccak256("cow")
+ */
+const MAIL: TypedData = {
+    types: {
+        Person: [
+            { name: "name", type: "string" },
+            { name: "wallet", type: "address" }
+        ],
+        Mail: [
+            { name: "from", type: "Person" },
+            { name: "to", type: "Person" },
+            { name: "contents", type: "string" }
+        ]
+    },
+    primaryType: "Mail",
+    domain: {
+        name: "Ether Mail",
+        version: "1",
+        chainId: 1,
+        verifyingContract: "0xCcCCccccCCCCcCCCCCCcCcCccCcCCCcCcccccccC"
+    },
+    message: {
+        from: { name: "Cow", wallet: "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826" },
+        to: { name: "Bob", wallet: "0xbBbBBBBbbBBBbbbBbbBbbbbBBbBbbbbBbBbbBBbB" },
+        contents: "Hello, Bob!"
+    }
+};
+const MAIL_SIGNATURE = "0x4355c47d63924e8a72e509b65029052eb6c299d53a04e167c5775fd466751c9d" +
+    "07299936d304c153f6443dfa05f40ff007d72911b6f72307f996231605b91562" + "1c";
+
+describe("ethereum", () => {
+    it("converts between hex and bytes", () => {
+        assert.strictEqual(bytesToHex(hexToBytes("0xABcd")), "0xabcd");
+        assert.strictEqual(bytesToHex(hexToBytes("abcd")), "0xabcd");
+        assert.throws(() => hexToBytes("0xabc"), /Invalid hex string/);
+        assert.throws(() => hexToBytes("0xzz"), /Invalid hex string/);
+    });
+
+    it("checksums addresses as in EIP-55", () => {
+        [
+            "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+            "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+            "0xdbF03B407c01E7cD3CBea99509d93f8DDDC8C6FB",
+            "0xD1220A0cf47c7B9Be7A2E6BA89F429762e7b9aDb"
+        ].forEach(address => assert.strictEqual(toChecksumAddress(address.toLowerCase()), address));
+    });
+
+    it("derives the address of a public key", () => {
+        // The public key of the private key 1
+        const publicKey = encodePublicKey(SECP256K1.g, false);
+        assert.strictEqual(publicKeyToAddress(publicKey), "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf");
+        assert.strictEqual(publicKeyToAddress(bytesToHex(encodePublicKey(SECP256K1.g, true))), "0x7E5F4552091A69125d5DfCb7b8C2659029395Bdf");
+    });
+
+    it("hashes personal messages", () => {
+        assert.strictEqual(bytesToHex(hashPersonalMessage("Hello World")), "0xa1de988600a42c4b4ab089b619297c17d53cffae5d5120d82d8a92d0bb3b78f2");
+    });
+
+    it("hashes typed data as in EIP-712", () => {
+        assert.strictEqual(bytesToHex(hashTypedData(MAIL)), "0xbe609aee343fb3c4b28e1df9e632fca64fcfaede20f02e86244efddf30957bd2");
+    });
+
+    it("recovers the signer of a signature", () => {
+        assert.strictEqual(recoverAddress(hashTypedData(MAIL), MAIL_SIGNATURE), "0xCD2a3d9F938E13CD947Ec05AbC7FE734Df8DD826");
+    });
+
+    it("rejects signatures of the wrong length", () => {
+        assert.throws(() => recoverAddress(hashTypedData(MAIL), "0x1234"), /must be 65 bytes long/);
+    });
+});
+
+describe("signEthereumMessage and signTypedData", () => {
+    it("sign a personal message from a vault account", async () => {
+        const signer = createEthereumSigner();
+        const { server, sdk } = await startSigningMockServer(messages => signer.signMessages(messages));
+        try {
+            server.addVaultAccount("Signer");
+            servePublicKey(server, signer.publicKey);
+            const signature = await sdk.signEthereumMessage("0", "ETH", "Hello World", { note: "login" });
+
+            assert.strictEqual(signature.address, publicKeyToAddress(signer.publicKey));
+            assert.strictEqual(recoverAddress(hashPersonalMessage("Hello World"), signature.signature), signature.address);
+            assert.ok(signature.v === 27 || signature.v === 28);
+            assert.strictEqual(signature.signature, `${signature.r}${signature.s.substring(2)}${signature.v.toString(16)}`);
+
+            const [transaction] = server.getTransactions() as any[];
+            assert.deepStrictEqual([transaction.id, transaction.operation, transaction.note], [signature.txId, TransactionOperation.TYPED_MESSAGE, "login"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("sign EIP-712 typed data from a vault account", async () => {
+        const signer = createEthereumSigner();
+        const submitted: any[] = [];
+        const { server, sdk } = await startSigningMockServer(messages => {
+            submitted.push(...messages);
+            return signer.signMessages(messages);
+        });
+        try {
+            server.addVaultAccount("Signer");
+            servePublicKey(server, signer.publicKey);
+            const signature = await sdk.signTypedData("0", "ETH", MAIL);
+
+            assert.deepStrictEqual(submitted, [{ type: TypedMessageType.EIP712, content: MAIL, index: 0 }]);
+            assert.strictEqual(recoverAddress(hashTypedData(MAIL), signature.signature), publicKeyToAddress(signer.publicKey));
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("throw when the signature does not recover to the vault account address, unless verification is off", async () => {
+        const signer = createEthereumSigner();
+        const { server, sdk } = await startSigningMockServer(messages => signer.signMessages(messages));
+        try {
+            server.addVaultAccount("Signer");
+            servePublicKey(server, createEthereumSigner().publicKey);
+            await assert.rejects(sdk.signEthereumMessage("0", "ETH", Buffer.from("abcd", "hex")), SignatureVerificationError);
+
+            const signature = await sdk.signEthereumMessage("0", "ETH", Buffer.from("abcd", "hex"), { verify: false });
+            assert.strictEqual(signature.address, publicKeyToAddress(signer.publicKey));
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("throw when the transaction returns no ECDSA signature", async () => {
+        const { server, sdk } = await startSigningMockServer(() => []);
+        try {
+            server.addVaultAccount("Signer");
+            await assert.rejects(sdk.signTypedData("0", "ETH", MAIL), SignatureVerificationError);
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,103 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { RecordingServer, startMockServer, startRecordingServer } from "./helpers";
+import {
+    asDecimalTransaction,
+    FireblocksSDK,
+    FixtureNotFoundError,
+    FixtureRecorder,
+    FixtureReplayer,
+    NotFoundError,
+    VaultAccountResponse
+} from "../src/fireblocks-sdk";
+
+const TRANSACTION = '{"id":"tx-1","assetId":"ETH","amount":1.234567890123456789,"customerRefId":"customer-1"}';
+const authProvider = { signJwt: () => "jwt", getApiKey: () => "test-api-key" };
+
+describe("fixtures", () => {
+    it("replays recorded requests offline", async () => {
+        const recorder = new FixtureRecorder({ redactFields: ["customerRefId"] });
+        const { server, sdk } = await startMockServer({}, { adapter: recorder.adapter });
+        let created: VaultAccountResponse;
+        try {
+            created = await sdk.createVaultAccount("Treasury", false, "customer-1");
+            await sdk.getVaultAccountById(created.id);
+        } finally {
+            await server.close();
+        }
+
+        const fixtures = JSON.parse(JSON.stringify(recorder.toJSON()));
+        assert.strictEqual(fixtures.fixtures[0].request.headers.Authorization, "[REDACTED]");
+        assert.strictEqual(fixtures.fixtures[0].request.body.customerRefId, "[REDACTED]");
+
+        const replayer = new FixtureReplayer(fixtures, { redactFields: ["customerRefId"] });
+        const offline = new FireblocksSDK({ apiKey: "test-api-key", authProvider, adapter: replayer.adapter });
+
+        // The redacted field may differ from the recording
+        assert.strictEqual((await offline.createVaultAccount("Treasury", false, "customer-2")).id, created.id);
+        assert.strictEqual((await offline.getVaultAccountById(created.id)).customerRefId, "[REDACTED]");
+        assert.deepStrictEqual(replayer.unused(), []);
+        await assert.rejects(offline.getVaultAccountById("unknown"), FixtureNotFoundError);
+    });
+
+    it("saves fixtures to a file and replays their errors", async () => {
+        const recorder = new FixtureRecorder();
+        const { server, sdk } = await startMockServer({}, { adapter: recorder.adapter });
+        try {
+            await assert.rejects(sdk.getVaultAccountById("7"), NotFoundError);
+        } finally {
+            await server.close();
+        }
+
+        const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "fixtures-")), "fixtures.json");
+        try {
+            recorder.save(file);
+            const replayer = FixtureReplayer.load(file);
+            const offline = new FireblocksSDK({ apiKey: "test-api-key", authProvider, adapter: replayer.adapter });
+
+            await assert.rejects(offline.getVaultAccountById("7"), (e: any) => e instanceof NotFoundError && e.status === 404);
+            assert.deepStrictEqual(replayer.unused(), []);
+        } finally {
+            fs.rmSync(path.dirname(file), { recursive: true });
+        }
+    });
+
+    describe("decimal amounts", () => {
+        let server: RecordingServer;
+        let apiBaseUrl: string;
+
+        before(async () => {
+            // Written as is, JSON.stringify would round the amount
+            server = await startRecordingServer((req, res) => {
+                res.setHeader("Content-Type", "application/json");
+                res.end(req.url.startsWith("/v1/transactions") ? TRANSACTION : '{"id":"0","name":"Treasury","customerRefId":"customer-1","amount":1.5}');
+            });
+            apiBaseUrl = server.apiBaseUrl;
+        });
+
+        after(() => server.close());
+
+        [{}, { redactFields: ["customerRefId"] }].forEach(options => {
+            it(`keeps amounts exact ${options.redactFields ? "with" : "without"} redaction`, async () => {
+                const recorder = new FixtureRecorder(options);
+                await new FireblocksSDK({ apiKey: "test-api-key", authProvider, apiBaseUrl, adapter: recorder.adapter }).getTransactionById("tx-1");
+
+                const replayer = new FixtureReplayer(JSON.parse(JSON.stringify(recorder.toJSON())), options);
+                const transaction = await new FireblocksSDK({ apiKey: "test-api-key", authProvider, apiBaseUrl, adapter: replayer.adapter, decimalAmounts: true })
+                    .getTransactionById("tx-1");
+                assert.strictEqual(asDecimalTransaction(transaction).amount, "1.234567890123456789");
+            });
+        });
+
+        it("keeps the numbers of other responses when redacting them", async () => {
+            const options = { redactFields: ["customerRefId"] };
+            const recorder = new FixtureRecorder(options);
+            await new FireblocksSDK({ apiKey: "test-api-key", authProvider, apiBaseUrl, adapter: recorder.adapter }).getVaultAccountById("0");
+
+            const [fixture] = recorder.toJSON().fixtures;
+            assert.deepStrictEqual(fixture.response.data, { id: "0", name: "Treasury", customerRefId: "[REDACTED]", amount: 1.5 });
+        });
+    });
+});
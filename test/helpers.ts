@@ -0,0 +1,210 @@
+import crypto from "crypto";
+import http from "http";
+import { AddressInfo } from "net";
+import { bigIntToBytes, bytesToBigInt, SECP256K1 } from "../src/ecdsa";
+import {
+    FireblocksSDK,
+    hashPersonalMessage,
+    hashTypedData,
+    InMemoryTransactionCheckpointStore,
+    MockFireblocksServer,
+    MockServerOptions,
+    RequestHooks,
+    SDKOptions,
+    SignedMessageResponse,
+    SigningAlgorithm,
+    TransactionPageFilter,
+    TransactionResponse,
+    TransactionStatus,
+    TransactionWatchCheckpoint,
+    TypedMessage,
+    TypedMessageType
+} from "../src/fireblocks-sdk";
+
+const API_KEY = "test-api-key";
+const { privateKey, publicKey } = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+
+/**
+ * Creates an SDK signing its requests with the key pair of the tests
+ */
+export function createSdk(apiBaseUrl: string, sdkOptions: SDKOptions = {}): FireblocksSDK {
+    return new FireblocksSDK({ ...sdkOptions, apiKey: API_KEY, privateKey: privateKey.export({ type: "pkcs8", format: "pem" }) as string, apiBaseUrl });
+}
+
+/**
+ * Starts a mock server verifying the JWTs of an SDK created for it
+ */
+export async function startMockServer(serverOptions: MockServerOptions = {}, sdkOptions: SDKOptions = {}) {
+    const server = new MockFireblocksServer({ ...serverOptions, apiKeys: { [API_KEY]: publicKey } });
+    const apiBaseUrl = await server.listen();
+    return { server, sdk: createSdk(apiBaseUrl, sdkOptions) };
+}
+
+/**
+ * Starts a mock server that completes every RAW and TYPED_MESSAGE transaction as soon as it is submitted,
+ * returning the signed messages made by sign
+ */
+export async function startSigningMockServer(sign: (messages: any[]) => SignedMessageResponse[], sdkOptions: SDKOptions = {}) {
+    let signingServer: MockFireblocksServer;
+    const signOnSubmit: RequestHooks = {
+        afterResponse: ({ method, path, body, data }) => {
+            if (method === "POST" && path === "/v1/transactions" && body.extraParameters?.rawMessageData) {
+                const transaction = signingServer.advanceTransaction(data.id, TransactionStatus.COMPLETED);
+                transaction.signedMessages = sign(body.extraParameters.rawMessageData.messages);
+            }
+        }
+    };
+    const { server, sdk } = await startMockServer({}, { ...sdkOptions, hooks: [signOnSubmit, ...(sdkOptions.hooks ?? [])] });
+    signingServer = server;
+    return { server, sdk };
+}
+
+/**
+ * A secp256k1 key signing TYPED_MESSAGE transactions the way Fireblocks does, over the digest of each message
+ */
+export function createEthereumSigner() {
+    const privateKey = crypto.randomBytes(32);
+    const publicKey = crypto.createECDH("secp256k1");
+    publicKey.setPrivateKey(privateKey);
+
+    const sign = (digest: Buffer) => {
+        const n = SECP256K1.n;
+        const nonce = crypto.createECDH("secp256k1");
+        nonce.generateKeys();
+        const k = bytesToBigInt(nonce.getPrivateKey());
+        const noncePoint = Buffer.from(nonce.getPublicKey("hex", "compressed"), "hex");
+        const r = bytesToBigInt(noncePoint.slice(1)) % n;
+        const s = modPow(k, n - BigInt(2), n) * (bytesToBigInt(digest) + r * bytesToBigInt(privateKey)) % n;
+        return { r: bigIntToBytes(r), s: bigIntToBytes(s), v: noncePoint[0] - 2 };
+    };
+
+    return {
+        publicKey: publicKey.getPublicKey("hex", "compressed"),
+        signMessages: (messages: TypedMessage[]): SignedMessageResponse[] => messages.map(message => {
+            const digest = message.type === TypedMessageType.ETH_MESSAGE ?
+                hashPersonalMessage(Buffer.from(message.content as string, "hex")) :
+                hashTypedData(message.content as any);
+            const { r, s, v } = sign(digest);
+            return {
+                content: digest.toString("hex"),
+                algorithm: SigningAlgorithm.MPC_ECDSA_SECP256K1,
+                derivationPath: `[44,60,0,0,${message.index ?? 0}]`,
+                signature: { fullSig: Buffer.concat([r, s]).toString("hex"), r: r.toString("hex"), s: s.toString("hex"), v },
+                publicKey: publicKey.getPublicKey("hex", "compressed")
+            };
+        })
+    };
+}
+
+/**
+ * Answers the public key info requests of every vault account with the given key, which the mock server does not derive
+ */
+export function servePublicKey(server: MockFireblocksServer, publicKey: string) {
+    server.injectFault({
+        method: "GET",
+        path: /\/public_key_info/,
+        status: 200,
+        body: { algorithm: SigningAlgorithm.MPC_ECDSA_SECP256K1, derivationPath: [44, 60, 0, 0, 0], publicKey }
+    });
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+    let result = BigInt(1);
+    for (let b = base % modulus, e = exponent; e > 0; e >>= BigInt(1), b = b * b % modulus) {
+        if (e & BigInt(1)) {
+            result = result * b % modulus;
+        }
+    }
+    return result;
+}
+
+export interface RecordingServer {
+    requests: http.IncomingMessage[];
+    apiBaseUrl: string;
+    close(): Promise<void>;
+}
+
+/**
+ * Starts a plain HTTP server that records the requests it gets and answers them with the given handler
+ */
+export async function startRecordingServer(handler: (req: http.IncomingMessage, res: http.ServerResponse) => void): Promise<RecordingServer> {
+    const requests: http.IncomingMessage[] = [];
+    const server = http.createServer((req, res) => {
+        requests.push(req);
+        handler(req, res);
+    });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    return {
+        requests,
+        apiBaseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+        close: () => new Promise<void>(resolve => server.close(() => resolve()))
+    };
+}
+
+/**
+ * Answers a request with a JSON body
+ */
+export function respondJson(res: http.ServerResponse, status: number, body: any, headers: http.OutgoingHttpHeaders = {}) {
+    res.writeHead(status, { ...headers, "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+/**
+ * A checkpoint store that lets a test wait for the polls of a watcher
+ */
+export class ObservedCheckpointStore extends InMemoryTransactionCheckpointStore {
+    private waiters: (() => void)[] = [];
+
+    save(checkpoint: TransactionWatchCheckpoint) {
+        super.save(checkpoint);
+        this.waiters.splice(0).forEach(resolve => resolve());
+    }
+
+    /**
+     * Resolves once a poll that started after the call has finished
+     */
+    async nextPoll() {
+        for (let i = 0; i < 2; i++) {
+            await new Promise<void>(resolve => this.waiters.push(resolve));
+        }
+    }
+}
+
+/**
+ * Serves the transactions that a test creates and updates to a watcher, with a lastUpdated timestamp that grows on every update
+ */
+export class FakeTransactionSource {
+    private readonly transactions = new Map<string, TransactionResponse>();
+    private clock = 1000;
+
+    public update(txId: string, changes: Partial<TransactionResponse>): TransactionResponse {
+        const now = ++this.clock;
+        const transaction: TransactionResponse = {
+            id: txId,
+            assetId: "BTC",
+            status: TransactionStatus.SUBMITTED,
+            amount: 1,
+            numOfConfirmations: 0,
+            destinationAddress: "bc1qdeposit",
+            ...this.transactions.get(txId),
+            ...changes,
+            createdAt: this.transactions.get(txId)?.createdAt ?? now,
+            lastUpdated: now
+        } as TransactionResponse;
+        this.transactions.set(txId, transaction);
+        return transaction;
+    }
+
+    public async *iterateTransactions(filter: TransactionPageFilter = {}): AsyncIterable<TransactionResponse> {
+        const transactions = Array.from(this.transactions.values())
+            .filter(transaction => filter.after === undefined || transaction.lastUpdated >= filter.after)
+            .sort((a, b) => b.lastUpdated - a.lastUpdated);
+        for (const transaction of transactions) {
+            yield { ...transaction };
+        }
+    }
+
+    public asSdk(): FireblocksSDK {
+        return this as unknown as FireblocksSDK;
+    }
+}
@@ -0,0 +1,23 @@
+import assert from "assert";
+import { keccak256 } from "../src/keccak";
+
+describe("keccak256", () => {
+    it("hashes the empty input", () => {
+        assert.strictEqual(keccak256("").toString("hex"), "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470");
+    });
+
+    it("hashes strings as UTF-8", () => {
+        assert.strictEqual(keccak256("abc").toString("hex"), "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45");
+        assert.strictEqual(
+            keccak256("The quick brown fox jumps over the lazy dog").toString("hex"),
+            "4d741b6f1eb29cb2a9b9911c82f56fa8d73b04959d3d9d222895df6c0b28aa15");
+    });
+
+    it("hashes buffers", () => {
+        assert.deepStrictEqual(keccak256(Buffer.from("abc", "utf8")), keccak256("abc"));
+    });
+
+    it("hashes function signatures into their selectors", () => {
+        assert.strictEqual(keccak256("transfer(address,uint256)").slice(0, 4).toString("hex"), "a9059cbb");
+    });
+});
@@ -0,0 +1,188 @@
+import assert from "assert";
+import axios from "axios";
+import crypto from "crypto";
+import { createSdk, startMockServer } from "./helpers";
+import {
+    AuthenticationError,
+    FireblocksSDK,
+    MockFireblocksServer,
+    NotFoundError,
+    PeerType,
+    ServerError,
+    TransactionStatus,
+    ValidationError
+} from "../src/fireblocks-sdk";
+
+describe("MockFireblocksServer", () => {
+    it("rejects unknown api keys and JWTs that are not signed by the api key's key", async () => {
+        const { server } = await startMockServer();
+        try {
+            const otherKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ type: "pkcs8", format: "pem" }) as string;
+            const isUnauthorized = (message: RegExp) => (e: any) => e instanceof AuthenticationError && e.status === 401 && message.test(e.message);
+
+            await assert.rejects(new FireblocksSDK(otherKey, "other-api-key", server.url).getVaultAccounts(), isUnauthorized(/unknown api key/));
+            await assert.rejects(new FireblocksSDK(otherKey, "test-api-key", server.url).getVaultAccounts(), isUnauthorized(/invalid signature/));
+            assert.deepStrictEqual(await createSdk(server.url).getVaultAccounts(), []);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("answers unknown routes with 404, other methods with 405 and malformed bodies with 400", async () => {
+        const server = new MockFireblocksServer();
+        const baseUrl = await server.listen();
+        try {
+            // Sent as is, axios would otherwise encode the malformed body as a JSON string
+            const post = (path: string, data: string) => axios.post(`${baseUrl}${path}`, data, {
+                headers: { "Content-Type": "application/json" },
+                transformRequest: [(body: string) => body],
+                validateStatus: () => true
+            });
+
+            assert.strictEqual((await axios.get(`${baseUrl}/v1/unknown`, { validateStatus: () => true })).status, 404);
+            assert.strictEqual((await axios.delete(`${baseUrl}/v1/transactions`, { validateStatus: () => true })).status, 405);
+            const malformed = await post("/v1/vault/accounts", "{\"name\":");
+            assert.deepStrictEqual([malformed.status, malformed.data.code], [400, 400]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("moves the balances of a transfer between vault accounts as it completes", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 10 });
+            server.addVaultAccount("Payouts");
+            const { id, status } = await sdk.createTransaction({
+                assetId: "BTC",
+                source: { type: PeerType.VAULT_ACCOUNT, id: "0" },
+                destination: { type: PeerType.VAULT_ACCOUNT, id: "1" },
+                amount: "2.5"
+            });
+            assert.strictEqual(status, TransactionStatus.SUBMITTED);
+
+            const pending = await sdk.getVaultAccountAsset("0", "BTC");
+            assert.deepStrictEqual([pending.total, pending.available], ["10", "7.5"]);
+
+            server.advanceTransaction(id, TransactionStatus.COMPLETED);
+            const transaction = await sdk.getTransactionById(id);
+            assert.strictEqual(transaction.status, TransactionStatus.COMPLETED);
+            assert.ok(transaction.txHash);
+            assert.deepStrictEqual([(await sdk.getVaultAccountAsset("0", "BTC")).total, (await sdk.getVaultAccountAsset("1", "BTC")).total], ["7.5", "2.5"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("fails transfers without sufficient funds and releases the funds of cancelled ones", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { ETH: 1 });
+            const transfer = (amount: number) => sdk.createTransaction({ assetId: "ETH", source: { type: PeerType.VAULT_ACCOUNT, id: "0" }, destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "0x1" } }, amount });
+
+            const failed = await sdk.getTransactionById((await transfer(2)).id);
+            assert.deepStrictEqual([failed.status, failed.subStatus], [TransactionStatus.FAILED, "INSUFFICIENT_FUNDS"]);
+
+            const { id } = await transfer(0.5);
+            assert.strictEqual((await sdk.getVaultAccountAsset("0", "ETH")).available, "0.5");
+            await sdk.cancelTransactionById(id);
+            assert.strictEqual((await sdk.getVaultAccountAsset("0", "ETH")).available, "1");
+            await assert.rejects(sdk.cancelTransactionById(id), ValidationError);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("advances transactions through the status progression over time", async () => {
+        const progression = [TransactionStatus.SUBMITTED, TransactionStatus.PENDING_SIGNATURE, TransactionStatus.COMPLETED];
+        const { server, sdk } = await startMockServer({ statusProgression: progression, statusIntervalMs: 100 });
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            const { id } = await sdk.createTransaction({ assetId: "BTC", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } }, amount: 1 });
+
+            const statuses: TransactionStatus[] = [];
+            await sdk.waitForTransaction(id, { pollIntervalMs: 20, maxPollIntervalMs: 20, onStatusChange: transaction => { statuses.push(transaction.status); } });
+            assert.deepStrictEqual(statuses, progression);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("replays the response of a request with a known idempotency key and rejects duplicate external ids", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            const args = { assetId: "BTC", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } }, amount: 0.1, externalTxId: "payout-1" };
+
+            const first = await sdk.createTransaction(args, { idempotencyKey: "key-1" });
+            assert.deepStrictEqual(await sdk.createTransaction(args, { idempotencyKey: "key-1" }), first);
+            await assert.rejects(sdk.createTransaction(args, { idempotencyKey: "key-2" }), (e: any) => e instanceof ValidationError && e.code === 1438);
+            assert.strictEqual((await sdk.getTransactionByExternalTxId("payout-1")).id, first.id);
+            assert.strictEqual(server.getTransactions().length, 1);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("pages transactions through the next-page header", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            for (let i = 0; i < 5; i++) {
+                await sdk.createTransaction({ assetId: "BTC", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } }, amount: 0.1 });
+            }
+
+            const firstPage = await sdk.getTransactionsWithPageInfo({ limit: 2 });
+            assert.strictEqual(firstPage.transactions.length, 2);
+            assert.ok(firstPage.pageDetails.nextPage);
+
+            const ids: string[] = [];
+            for await (const transaction of sdk.iterateTransactions({ limit: 2 })) {
+                ids.push(transaction.id);
+            }
+            assert.deepStrictEqual(ids.sort(), server.getTransactions().map(transaction => transaction.id).sort());
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("validates addresses and returns the destinations of multi-destination transactions", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            assert.deepStrictEqual(await sdk.validateAddress("BTC", "bc1q"), { isValid: true, isActive: true, requiresTag: false });
+
+            const { id } = await sdk.createTransaction({
+                assetId: "BTC",
+                destinations: [
+                    { amount: "0.1", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q-a" } } },
+                    { amount: "0.2", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q-b" } } }
+                ]
+            });
+            const transaction = await sdk.getTransactionById(id);
+            assert.strictEqual(transaction.amount, 0.3);
+            assert.deepStrictEqual(transaction.destinations.map(destination => [destination.amount, destination.destinationAddress]), [[0.1, "bc1q-a"], [0.2, "bc1q-b"]]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("injects errors and latency into the matching requests", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury");
+            server.injectFault({ method: "GET", path: /^\/v1\/vault\/accounts\/0$/, status: 503, times: 1 });
+            server.injectFault({ path: "/v1/vault/accounts/0", latencyMs: 100 });
+
+            await assert.rejects(sdk.getVaultAccountById("0"), ServerError);
+            const start = Date.now();
+            assert.strictEqual((await sdk.getVaultAccountById("0")).name, "Treasury");
+            assert.ok(Date.now() - start >= 90);
+
+            server.clearFaults();
+            await assert.rejects(sdk.getVaultAccountById("7"), NotFoundError);
+        } finally {
+            await server.close();
+        }
+    });
+});
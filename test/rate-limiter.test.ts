@@ -0,0 +1,61 @@
+import assert from "assert";
+import { createSdk } from "./helpers";
+import { RateLimiter } from "../src/rate-limiter";
+import { sleep } from "../src/retry";
+import { FireblocksError } from "../src/errors";
+
+describe("RateLimiter", () => {
+    it("caps the requests in flight", async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 2 });
+        let inFlight = 0;
+        let maxInFlight = 0;
+        const task = async () => {
+            maxInFlight = Math.max(maxInFlight, ++inFlight);
+            await sleep(10);
+            inFlight--;
+        };
+
+        await Promise.all([1, 2, 3, 4, 5].map(() => limiter.schedule(task)));
+        assert.strictEqual(maxInFlight, 2);
+    });
+
+    it("spaces out requests beyond the burst", async () => {
+        const limiter = new RateLimiter({ requestsPerSecond: 50, burst: 2 });
+        const start = Date.now();
+        const startedAt: number[] = [];
+
+        await Promise.all([1, 2, 3, 4, 5].map(() => limiter.schedule(async () => startedAt.push(Date.now() - start))));
+        assert.ok(startedAt[1] < 15, `the burst started after ${startedAt[1]}ms`);
+        assert.ok(startedAt[4] >= 50, `the fifth request started after ${startedAt[4]}ms`);
+    });
+
+    it("starts queued tasks in order and frees the slot of a failed task", async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const order: number[] = [];
+
+        const failing = limiter.schedule(async () => {
+            order.push(1);
+            throw new Error("failed");
+        });
+        const following = [2, 3].map(n => limiter.schedule(async () => order.push(n)));
+
+        await assert.rejects(failing, /failed/);
+        await Promise.all(following);
+        assert.deepStrictEqual(order, [1, 2, 3]);
+    });
+
+    it("rejects a burst without a rate, as its tokens would never refill", () => {
+        assert.throws(() => new RateLimiter({ burst: 2 }), FireblocksError);
+        assert.throws(() => new RateLimiter({ burst: 2, maxConcurrent: 5 }), /requires requestsPerSecond/);
+    });
+
+    it("starts every queued task when only the concurrency is capped", async () => {
+        const limiter = new RateLimiter({ maxConcurrent: 1 });
+        const done = await Promise.all([1, 2, 3].map(n => limiter.schedule(async () => n)));
+        assert.deepStrictEqual(done, [1, 2, 3]);
+    });
+
+    it("rejects a burst without a rate through the SDK options", () => {
+        assert.throws(() => createSdk("http://localhost:8000", { rateLimit: { burst: 2 } }), /requires requestsPerSecond/);
+    });
+});
@@ -0,0 +1,126 @@
+import assert from "assert";
+import crypto from "crypto";
+import { startSigningMockServer } from "./helpers";
+import { bytesToBigInt, encodePublicKey, recoverPublicKey, SECP256K1, SECP256R1 } from "../src/ecdsa";
+import { parseEcdsaSignature } from "../src/raw-signing";
+import {
+    RawMessage,
+    SignatureVerificationError,
+    SignedMessageResponse,
+    SigningAlgorithm,
+    TransactionOperation,
+    verifySignedMessage
+} from "../src/fireblocks-sdk";
+
+const DERIVATION_PATH = "[44,0,0,0,0]";
+
+/**
+ * Signs the hex content of a message as a pre-hashed digest, as Fireblocks does for ECDSA
+ */
+function signEcdsa(namedCurve: string, content: string): SignedMessageResponse {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve });
+    const jwk = publicKey.export({ format: "jwk" });
+    const point = { x: bytesToBigInt(Buffer.from(jwk.x, "base64")), y: bytesToBigInt(Buffer.from(jwk.y, "base64")) };
+    const curve = namedCurve === "secp256k1" ? SECP256K1 : SECP256R1;
+
+    // OpenSSL hashes what it signs, so sign a preimage of the content instead of the content itself
+    const preimage = Buffer.from(content, "utf8");
+    const digest = crypto.createHash("sha256").update(preimage).digest();
+    const fullSig = crypto.sign("sha256", preimage, { key: privateKey, dsaEncoding: "ieee-p1363" });
+    const signature = { r: bytesToBigInt(fullSig.slice(0, 32)), s: bytesToBigInt(fullSig.slice(32)) };
+    const v = [0, 1].find(recoveryId => recoverPublicKey(curve, digest, signature, recoveryId)?.x === point.x);
+
+    return {
+        content: digest.toString("hex"),
+        algorithm: namedCurve === "secp256k1" ? SigningAlgorithm.MPC_ECDSA_SECP256K1 : SigningAlgorithm.MPC_ECDSA_SECP256R1,
+        derivationPath: DERIVATION_PATH,
+        signature: { fullSig: fullSig.toString("hex"), r: fullSig.slice(0, 32).toString("hex"), s: fullSig.slice(32).toString("hex"), v },
+        publicKey: encodePublicKey(point, true).toString("hex")
+    };
+}
+
+function signEddsa(content: string): SignedMessageResponse {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync("ed25519");
+    return {
+        content,
+        algorithm: SigningAlgorithm.MPC_EDDSA_ED25519,
+        derivationPath: DERIVATION_PATH,
+        signature: { fullSig: crypto.sign(undefined, Buffer.from(content, "hex"), privateKey).toString("hex") },
+        publicKey: `00${Buffer.from(publicKey.export({ format: "jwk" }).x, "base64").toString("hex")}`
+    };
+}
+
+function tamper(hex: string): string {
+    return `${hex.substring(0, hex.length - 1)}${hex.endsWith("0") ? "1" : "0"}`;
+}
+
+describe("verifySignedMessage", () => {
+    it("verifies secp256k1, secp256r1 and ed25519 signatures", () => {
+        [signEcdsa("secp256k1", "a"), signEcdsa("prime256v1", "a"), signEddsa("abcd")].forEach(message => {
+            assert.strictEqual(verifySignedMessage(message), true);
+            assert.strictEqual(verifySignedMessage({ ...message, signature: { ...message.signature, fullSig: tamper(message.signature.fullSig), r: undefined, s: undefined } }), false);
+        });
+    });
+
+    it("rejects a v that does not recover the public key", () => {
+        const message = signEcdsa("secp256k1", "a");
+        assert.strictEqual(verifySignedMessage({ ...message, signature: { ...message.signature, v: 1 - message.signature.v } }), false);
+        assert.strictEqual(verifySignedMessage({ ...message, signature: { ...message.signature, v: message.signature.v + 27 } }), true);
+    });
+
+    it("rejects a signature made with another algorithm", () => {
+        assert.strictEqual(verifySignedMessage(signEcdsa("secp256k1", "a"), SigningAlgorithm.MPC_ECDSA_SECP256R1), false);
+        assert.strictEqual(verifySignedMessage(signEcdsa("secp256k1", "a"), SigningAlgorithm.MPC_EDDSA_ED25519), false);
+    });
+});
+
+describe("parseEcdsaSignature", () => {
+    const { signature } = signEcdsa("secp256k1", "a");
+
+    it("reads r and s from the full signature or from r and s", () => {
+        const expected = { r: BigInt(`0x${signature.r}`), s: BigInt(`0x${signature.s}`) };
+        assert.deepStrictEqual(parseEcdsaSignature({ fullSig: signature.fullSig }), expected);
+        assert.deepStrictEqual(parseEcdsaSignature({ fullSig: "", r: signature.r, s: signature.s }), expected);
+    });
+
+    it("rejects a full signature that does not match r and s, or has the wrong length", () => {
+        assert.strictEqual(parseEcdsaSignature({ ...signature, r: tamper(signature.r) }), undefined);
+        assert.strictEqual(parseEcdsaSignature({ fullSig: signature.fullSig.substring(2) }), undefined);
+        assert.strictEqual(parseEcdsaSignature({ fullSig: "", r: signature.r }), undefined);
+    });
+});
+
+describe("signRawMessages", () => {
+    it("submits a RAW transaction and returns the verified signatures of its messages", async () => {
+        const signed: RawMessage[][] = [];
+        const { server, sdk } = await startSigningMockServer(messages => {
+            signed.push(messages);
+            return messages.map(message => signEddsa(message.content));
+        });
+        try {
+            server.addVaultAccount("Signer");
+            const signatures = await sdk.signRawMessages("0", "SOL", ["abcd", { content: "ef01", bip44addressIndex: 2 }], SigningAlgorithm.MPC_EDDSA_ED25519, { note: "sign" });
+
+            assert.deepStrictEqual(signed, [[{ content: "abcd" }, { content: "ef01", bip44addressIndex: 2 }]]);
+            assert.deepStrictEqual(signatures.map(signature => signature.content), ["abcd", "ef01"]);
+            const [transaction] = server.getTransactions() as any[];
+            assert.deepStrictEqual([transaction.operation, transaction.assetId, transaction.note], [TransactionOperation.RAW, "SOL", "sign"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("throws when a signature does not verify, unless verification is off", async () => {
+        const { server, sdk } = await startSigningMockServer(messages => messages.map(message => {
+            const signedMessage = signEcdsa("secp256k1", message.content);
+            return { ...signedMessage, signature: { ...signedMessage.signature, v: 1 - signedMessage.signature.v } };
+        }));
+        try {
+            server.addVaultAccount("Signer");
+            await assert.rejects(sdk.signRawMessages("0", "BTC", ["a"]), SignatureVerificationError);
+            assert.strictEqual((await sdk.signRawMessages("0", "BTC", ["a"], undefined, { verify: false })).length, 1);
+        } finally {
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,95 @@
+import assert from "assert";
+import { createSdk, respondJson, startRecordingServer, startSigningMockServer } from "./helpers";
+import {
+    PeerType,
+    ResponseValidationError,
+    ResponseValidationMode,
+    SigningAlgorithm,
+    TransactionOperation,
+    TransactionStatus,
+    validateResponse,
+    ValidationContext,
+    ValidationIssueKind
+} from "../src/fireblocks-sdk";
+
+/**
+ * A RAW signing transaction, which has no destination, amountUSD or txHash
+ */
+const RAW_TRANSACTION = {
+    id: "tx-1",
+    assetId: "BTC",
+    source: { id: "0", type: "VAULT_ACCOUNT" },
+    status: "COMPLETED",
+    createdAt: 1,
+    lastUpdated: 2,
+    amount: 0,
+    signedMessages: [{ content: "ab", algorithm: "MPC_ECDSA_SECP256K1", derivationPath: "[44,0,0,0,0]", signature: { fullSig: "cd" }, publicKey: "ef" }]
+};
+
+describe("validateResponse", () => {
+    it("accepts transactions carrying only the fields every transaction has", () => {
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions/tx-1", RAW_TRANSACTION), []);
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions?status=COMPLETED", [RAW_TRANSACTION]), []);
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions/external_tx_id/ext-1", { ...RAW_TRANSACTION, destination: { type: "ONE_TIME_ADDRESS" } }), []);
+    });
+
+    it("reports missing required fields, wrong types and unknown enum values with their paths", () => {
+        const { id, ...withoutId } = RAW_TRANSACTION;
+        const issues = validateResponse("GET", "/v1/transactions", [withoutId, { ...RAW_TRANSACTION, status: "RETRYING", amount: "1", source: { id: 0, type: "VAULT_ACCOUNT" } }]);
+        assert.deepStrictEqual(issues.map(issue => [issue.kind, issue.path]), [
+            [ValidationIssueKind.MISSING, "[0].id"],
+            [ValidationIssueKind.WRONG_TYPE, "[1].source.id"],
+            [ValidationIssueKind.WRONG_TYPE, "[1].amount"],
+            [ValidationIssueKind.UNKNOWN_ENUM_VALUE, "[1].status"]
+        ]);
+        assert.strictEqual(issues[3].message, "Unknown TransactionStatus RETRYING at [1].status");
+    });
+
+    it("expects the declared amounts as decimal strings with decimal amounts", () => {
+        const transaction = { ...RAW_TRANSACTION, amount: "1.5", networkFee: "0.0001", destinations: [{ amount: 1.5, destination: { type: "VAULT_ACCOUNT", id: "1" } }] };
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions/tx-1", transaction, false, true).map(issue => issue.path), ["destinations[0].amount"]);
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions/tx-1", transaction).map(issue => issue.path), ["amount", "networkFee"]);
+    });
+
+    it("validates pages, and ignores the responses it has no schema for", () => {
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions", { transactions: [RAW_TRANSACTION], pageDetails: { prevPage: "", nextPage: "" } }, true), []);
+        assert.deepStrictEqual(validateResponse("GET", "/v1/transactions", { transactions: {} }, true).map(issue => issue.kind), [ValidationIssueKind.WRONG_TYPE]);
+        assert.deepStrictEqual(validateResponse("GET", "/v1/supported_assets", {}), []);
+    });
+});
+
+describe("responseValidation", () => {
+    it("accepts the responses of the mock server, including RAW signing transactions", async () => {
+        const { server, sdk } = await startSigningMockServer(messages => messages.map(message => ({ ...RAW_TRANSACTION.signedMessages[0], content: message.content })), {
+            responseValidation: ResponseValidationMode.THROW
+        });
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            const signatures = await sdk.signRawMessages("0", "BTC", ["ab"], SigningAlgorithm.MPC_ECDSA_SECP256K1, { verify: false });
+            assert.strictEqual(signatures.length, 1);
+
+            await sdk.createTransaction({ assetId: "BTC", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } }, amount: 0.5 });
+            const transactions = await sdk.getTransactions({});
+            assert.deepStrictEqual(transactions.map(transaction => transaction.status).sort(), [TransactionStatus.COMPLETED, TransactionStatus.SUBMITTED]);
+            assert.strictEqual((await sdk.getVaultAccounts()).length, 1);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("throws a ResponseValidationError, or reports the issues to the hooks and returns the response", async () => {
+        const transaction = { ...RAW_TRANSACTION, status: "RETRYING" };
+        const recording = await startRecordingServer((req, res) => respondJson(res, 200, transaction));
+        try {
+            await assert.rejects(createSdk(recording.apiBaseUrl, { responseValidation: ResponseValidationMode.THROW }).getTransactionById("tx-1"),
+                (e: any) => e instanceof ResponseValidationError && e.path === "/v1/transactions/tx-1" && e.issues[0].kind === ValidationIssueKind.UNKNOWN_ENUM_VALUE);
+
+            const reported: ValidationContext[] = [];
+            const warning = createSdk(recording.apiBaseUrl, { responseValidation: ResponseValidationMode.WARN, hooks: [{ onValidationIssues: context => { reported.push(context); } }] });
+            assert.deepStrictEqual(await warning.getTransactionById("tx-1"), transaction);
+            assert.deepStrictEqual(reported.map(({ method, path, issues }) => [method, path, issues.length]), [["GET", "/v1/transactions/tx-1", 1]]);
+        } finally {
+            await recording.close();
+        }
+    });
+});
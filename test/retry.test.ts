@@ -0,0 +1,50 @@
+import assert from "assert";
+import { RetryPolicy } from "../src/retry";
+import { FireblocksApiError, NetworkError, RateLimitError, ServerError, ValidationError } from "../src/errors";
+
+describe("RetryPolicy", () => {
+    const policy = new RetryPolicy({ maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000, jitter: false });
+
+    it("retries retryable statuses and network errors until the last attempt", () => {
+        assert.strictEqual(policy.shouldRetry(new ServerError("", { status: 503 }), 1), true);
+        assert.strictEqual(policy.shouldRetry(new RateLimitError("", { status: 429 }), 3), true);
+        assert.strictEqual(policy.shouldRetry(new ServerError("", { status: 503 }), 4), false);
+        assert.strictEqual(policy.shouldRetry(new NetworkError("", {}, { code: "ECONNRESET" }), 1), true);
+    });
+
+    it("does not retry client errors or unknown network errors", () => {
+        assert.strictEqual(policy.shouldRetry(new ValidationError("", { status: 400 }), 1), false);
+        assert.strictEqual(policy.shouldRetry(new NetworkError("", {}, { code: "ENOTFOUND" }), 1), false);
+    });
+
+    it("backs off exponentially up to maxDelayMs", () => {
+        const error = new ServerError("", { status: 503 });
+        assert.deepStrictEqual([1, 2, 3, 4, 5].map(attempt => policy.getDelayMs(error, attempt)), [100, 200, 400, 800, 1000]);
+    });
+
+    it("randomizes delays with jitter", () => {
+        const jittered = new RetryPolicy({ baseDelayMs: 100 });
+        for (let i = 0; i < 20; i++) {
+            const delay = jittered.getDelayMs(new ServerError("", { status: 503 }), 1);
+            assert.ok(delay >= 0 && delay < 100);
+        }
+    });
+
+    it("waits for Retry-After", () => {
+        const error = new RateLimitError("", { status: 429, retryAfterMs: 300 });
+        assert.strictEqual(policy.shouldRetry(error, 1), true);
+        assert.strictEqual(policy.getDelayMs(error, 1), 300);
+    });
+
+    it("does not retry when Retry-After is longer than maxDelayMs", () => {
+        assert.strictEqual(policy.shouldRetry(new RateLimitError("", { status: 429, retryAfterMs: 3600 * 1000 }), 1), false);
+        assert.strictEqual(policy.shouldRetry(new ServerError("", { status: 503, retryAfterMs: 1001 }), 1), false);
+    });
+
+    it("ignores Retry-After when told to", () => {
+        const ignoring = new RetryPolicy({ baseDelayMs: 100, jitter: false, respectRetryAfter: false });
+        const error = new FireblocksApiError("", { status: 429, retryAfterMs: 3600 * 1000 });
+        assert.strictEqual(ignoring.shouldRetry(error, 1), true);
+        assert.strictEqual(ignoring.getDelayMs(error, 1), 100);
+    });
+});
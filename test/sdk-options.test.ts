@@ -0,0 +1,102 @@
+import assert from "assert";
+import crypto from "crypto";
+import http from "http";
+import { AxiosAdapter, AxiosRequestConfig } from "axios";
+import { startMockServer } from "./helpers";
+import { AbortedError, FireblocksEnvironment, FireblocksSDK, PeerType, SDKOptions, TimeoutError } from "../src/fireblocks-sdk";
+
+const privateKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 }).privateKey.export({ type: "pkcs8", format: "pem" }) as string;
+
+/**
+ * An adapter capturing the requests instead of sending them
+ */
+function captureRequests() {
+    const requests: AxiosRequestConfig[] = [];
+    const adapter: AxiosAdapter = async request => {
+        requests.push(request);
+        return { data: [], status: 200, statusText: "OK", headers: {}, config: request };
+    };
+    return { requests, adapter };
+}
+
+function createCapturingSdk(config: SDKOptions & { apiBaseUrl?: string } = {}) {
+    const { requests, adapter } = captureRequests();
+    return { requests, sdk: new FireblocksSDK({ ...config, apiKey: "api-key", privateKey, adapter }) };
+}
+
+describe("SDK options", () => {
+    it("sends the requests to the server of the environment unless given a base URL", async () => {
+        const production = createCapturingSdk();
+        const sandbox = createCapturingSdk({ environment: FireblocksEnvironment.SANDBOX });
+        const custom = createCapturingSdk({ environment: FireblocksEnvironment.SANDBOX, apiBaseUrl: "http://localhost:8000" });
+        for (const { sdk } of [production, sandbox, custom]) {
+            await sdk.getVaultAccounts();
+        }
+
+        assert.deepStrictEqual([production, sandbox, custom].map(({ requests }) => requests[0].baseURL),
+            ["https://api.fireblocks.io", "https://sandbox-api.fireblocks.io", "http://localhost:8000"]);
+    });
+
+    it("keeps accepting positional arguments", async () => {
+        const { requests, adapter } = captureRequests();
+        await new FireblocksSDK(privateKey, "api-key", "http://localhost:8000", undefined, { adapter, timeoutMs: 1000 }).getVaultAccounts();
+
+        assert.strictEqual(requests[0].baseURL, "http://localhost:8000");
+        assert.strictEqual(requests[0].timeout, 1000);
+        assert.strictEqual(requests[0].headers["X-API-Key"], "api-key");
+    });
+
+    it("adds the user agent and the static headers to every request", async () => {
+        const { requests, sdk } = createCapturingSdk({ userAgent: "my-app/1.0", headers: { "X-Team": "payments" } });
+        await sdk.getVaultAccounts();
+        await sdk.createTransaction({ assetId: "BTC", amount: 1 });
+
+        for (const request of requests) {
+            assert.match(request.headers["User-Agent"], /^fireblocks-sdk-js\/\S+ my-app\/1\.0$/);
+            assert.strictEqual(request.headers["X-Team"], "payments");
+        }
+    });
+
+    it("creates keep-alive agents unless given agents", async () => {
+        const httpAgent = new http.Agent();
+        const keepAlive = createCapturingSdk({ keepAlive: true });
+        const custom = createCapturingSdk({ keepAlive: true, httpAgent });
+        await keepAlive.sdk.getVaultAccounts();
+        await custom.sdk.getVaultAccounts();
+
+        assert.strictEqual((keepAlive.requests[0].httpAgent as { keepAlive?: boolean }).keepAlive, true);
+        assert.strictEqual((keepAlive.requests[0].httpsAgent as { keepAlive?: boolean }).keepAlive, true);
+        assert.strictEqual(custom.requests[0].httpAgent, httpAgent);
+    });
+
+    it("overrides the timeout per request on every method", async () => {
+        const { requests, sdk } = createCapturingSdk({ timeoutMs: 30000 });
+        await sdk.getVaultAccounts();
+        await sdk.getVaultAccounts(undefined, { timeoutMs: 100 });
+        await sdk.getSupportedAssets({ timeoutMs: 200 });
+        await sdk.getDepositAddresses("0", "BTC", { timeoutMs: 300 });
+        await sdk.createTransaction({ assetId: "BTC", amount: 1 }, { timeoutMs: 400 });
+        await sdk.updateVaultAccount("0", "Renamed", { timeoutMs: 500 });
+        await sdk.deleteInternalWallet("1", { timeoutMs: 600 });
+
+        assert.deepStrictEqual(requests.map(request => request.timeout), [30000, 100, 200, 300, 400, 500, 600]);
+    });
+
+    it("times out and aborts single requests", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 10 });
+            server.injectFault({ latencyMs: 500 });
+
+            await assert.rejects(sdk.getVaultAccounts(undefined, { timeoutMs: 20 }), TimeoutError);
+            await assert.rejects(sdk.createTransaction({ assetId: "BTC", amount: 1, source: { type: PeerType.VAULT_ACCOUNT, id: "0" } }, { timeoutMs: 20 }), TimeoutError);
+
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 20);
+            await assert.rejects(sdk.getVaultAccountAsset("0", "BTC", { signal: controller.signal }), AbortedError);
+            await assert.rejects(sdk.getSupportedAssets({ signal: controller.signal }), AbortedError);
+        } finally {
+            await server.close();
+        }
+    });
+});
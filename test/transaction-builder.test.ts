@@ -0,0 +1,126 @@
+import assert from "assert";
+import { startMockServer } from "./helpers";
+import {
+    FeeLevel,
+    InvalidTransactionError,
+    PeerType,
+    TransactionBuilder,
+    TransactionOperation,
+    TransactionStatus
+} from "../src/fireblocks-sdk";
+
+/**
+ * Returns the rules a builder breaks
+ */
+function errorsOf(builder: TransactionBuilder): string[] {
+    try {
+        builder.build();
+        return [];
+    } catch (e) {
+        assert.ok(e instanceof InvalidTransactionError);
+        return e.errors;
+    }
+}
+
+describe("TransactionBuilder", () => {
+    it("builds a transfer that the server accepts", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            server.addVaultAccount("Payouts");
+            const args = new TransactionBuilder()
+                .asset("BTC")
+                .from("0")
+                .toVaultAccount("1")
+                .amount("0.015")
+                .fee(FeeLevel.HIGH)
+                .note("payout")
+                .externalTxId("payout-1")
+                .build();
+
+            assert.deepStrictEqual(args, {
+                operation: TransactionOperation.TRANSFER,
+                assetId: "BTC",
+                source: { type: PeerType.VAULT_ACCOUNT, id: "0" },
+                destination: { type: PeerType.VAULT_ACCOUNT, id: "1" },
+                amount: "0.015",
+                feeLevel: FeeLevel.HIGH,
+                note: "payout",
+                externalTxId: "payout-1"
+            });
+
+            const { id, status } = await sdk.createTransaction(args);
+            assert.strictEqual(status, TransactionStatus.SUBMITTED);
+            const transaction = await sdk.getTransactionById(id);
+            assert.deepStrictEqual([transaction.amount, transaction.destination.id, transaction.note], [0.015, "1", "payout"]);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("lists every rule a transfer breaks", () => {
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder()), [
+            "assetId is required",
+            "a source is required",
+            "TRANSFER transactions require a destination",
+            "TRANSFER transactions require a positive amount"
+        ]);
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder().asset("BTC").from("0").toOneTimeAddress("").amount("-1")), [
+            "a one time address destination requires an address",
+            "TRANSFER transactions require a positive amount"
+        ]);
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder().asset("BTC").from("0").toVaultAccount("1").amount("abc")), [
+            "TRANSFER transactions require a positive amount"
+        ]);
+    });
+
+    it("validates transactions with multiple destinations", () => {
+        const builder = () => new TransactionBuilder().asset("BTC").from("0")
+            .addDestination({ type: PeerType.VAULT_ACCOUNT, id: "1" }, "0.1");
+
+        assert.deepStrictEqual(errorsOf(builder().addDestination({ type: PeerType.VAULT_ACCOUNT, id: "2" }, "0.2")), []);
+        assert.deepStrictEqual(errorsOf(builder().addDestination({ type: PeerType.VAULT_ACCOUNT, id: "2" }, 0).amount(1).toVaultAccount("3")), [
+            "destination and destinations can not be combined",
+            "the amount of a transaction with multiple destinations is set per destination",
+            "every destination requires a positive amount"
+        ]);
+    });
+
+    it("validates raw and typed message signing", () => {
+        const messages = { messages: [{ content: "deadbeef" }] };
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder(TransactionOperation.RAW).asset("BTC").from("0").rawMessageData(messages)), []);
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder(TransactionOperation.TYPED_MESSAGE).asset("ETH").from("0").toVaultAccount("1").amount(1)), [
+            "TYPED_MESSAGE transactions require at least one message in rawMessageData",
+            "TYPED_MESSAGE transactions have no destination or amount"
+        ]);
+    });
+
+    it("validates contract calls", () => {
+        const contract = { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "0x0000000000000000000000000000000000000001" } };
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder(TransactionOperation.CONTRACT_CALL).asset("ETH").from("0").to(contract).contractCallData("0x12")), []);
+        assert.deepStrictEqual(errorsOf(new TransactionBuilder(TransactionOperation.CONTRACT_CALL).asset("ETH").from("0").addDestination(contract, 1)), [
+            "CONTRACT_CALL transactions require a destination",
+            "CONTRACT_CALL transactions have a single destination",
+            "CONTRACT_CALL transactions require contractCallData"
+        ]);
+    });
+
+    it("rejects conflicting fee parameters", () => {
+        const builder = () => new TransactionBuilder().asset("ETH").from("0").toVaultAccount("1").amount(1);
+        assert.deepStrictEqual(errorsOf(builder().fee({ gasPrice: 20, priorityFee: 2 })), [
+            "gasPrice can not be combined with priorityFee, use either legacy or EIP-1559 fees"
+        ]);
+        assert.deepStrictEqual(errorsOf(builder().fee(FeeLevel.LOW).fee({ fee: "0.001" })), [
+            "feeLevel can not be combined with fee, gasPrice or priorityFee"
+        ]);
+    });
+
+    it("only replaces transactions of EVM assets", () => {
+        const builder = (assetId: string) => new TransactionBuilder().asset(assetId, assetId === "USDC" ? { nativeAsset: "ETH" } as any : undefined)
+            .from("0").toVaultAccount("1").amount(1).replaceTxByHash("0xabc");
+
+        assert.deepStrictEqual(errorsOf(builder("ETH")), []);
+        assert.deepStrictEqual(errorsOf(builder("USDC")), []);
+        assert.deepStrictEqual(errorsOf(builder("BTC")), ["replaceTxByHash is only supported for EVM based assets, pass the asset info to asset() for tokens"]);
+    });
+});
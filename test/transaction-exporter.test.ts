@@ -0,0 +1,105 @@
+import assert from "assert";
+import { Writable } from "stream";
+import { startMockServer } from "./helpers";
+import {
+    FireblocksError,
+    FireblocksSDK,
+    MockFireblocksServer,
+    TransactionExportFormat,
+    TransactionOrder,
+    TransactionResponse,
+    TransactionStatus
+} from "../src/fireblocks-sdk";
+
+function collect(): { output: Writable, text: () => string } {
+    const chunks: string[] = [];
+    const output = new Writable({
+        highWaterMark: 1,
+        write: (chunk, encoding, callback) => {
+            chunks.push(chunk.toString());
+            setImmediate(callback);
+        }
+    });
+    return { output, text: () => chunks.join("") };
+}
+
+/**
+ * Adds a transaction created and last updated at the given times
+ */
+async function addTransaction(server: MockFireblocksServer, sdk: FireblocksSDK, createdAt: number, lastUpdated: number, note: string): Promise<TransactionResponse> {
+    const { id } = await sdk.createTransaction({ assetId: "BTC", amount: 0, note });
+    const transaction = server.getTransactions().find(candidate => candidate.id === id);
+    return Object.assign(transaction, { createdAt, lastUpdated, status: TransactionStatus.COMPLETED });
+}
+
+describe("exportTransactions", () => {
+    it("writes a CSV row per transaction, quoting the values that need it", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const transaction = await addTransaction(server, sdk, 1000, 1500, "rent, \"march\"");
+            const { output, text } = collect();
+
+            const summary = await sdk.exportTransactions(output, {
+                format: TransactionExportFormat.CSV,
+                columns: ["id", "note", "source.id", "blockInfo.blockHeight", { header: "created", value: tx => new Date(tx.createdAt).toISOString() }]
+            });
+
+            assert.deepStrictEqual(summary, { count: 1, chunks: 1 });
+            assert.strictEqual(text(), `id,note,source.id,blockInfo.blockHeight,created\r\n${transaction.id},"rent, ""march""",0,,1970-01-01T00:00:01.000Z\r\n`);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("writes full transactions or the given columns as JSON Lines", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const transaction = await addTransaction(server, sdk, 1000, 1500, "rent");
+            const full = collect();
+            const selected = collect();
+
+            await sdk.exportTransactions(full.output, { format: TransactionExportFormat.JSONL });
+            await sdk.exportTransactions(selected.output, { format: TransactionExportFormat.JSONL, columns: ["id", { header: "vault", path: "source.id" }] });
+
+            assert.strictEqual(JSON.parse(full.text()).note, "rent");
+            assert.strictEqual(selected.text(), `${JSON.stringify({ id: transaction.id, vault: "0" })}\n`);
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("exports each transaction once when it falls on the boundary of two chunks", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            await addTransaction(server, sdk, 500, 1000, "a");
+            await addTransaction(server, sdk, 1500, 2000, "b");
+            await addTransaction(server, sdk, 2500, 2500, "c");
+
+            for (const orderBy of [TransactionOrder.CREATED_AT, TransactionOrder.LAST_UPDATED]) {
+                const { output, text } = collect();
+                const summary = await sdk.exportTransactions(output, {
+                    format: TransactionExportFormat.JSONL,
+                    columns: ["note"],
+                    filter: { after: 0, before: 3000, orderBy },
+                    chunkMs: 1000
+                });
+
+                assert.deepStrictEqual(summary, { count: 3, chunks: 3 });
+                assert.deepStrictEqual(text().trim().split("\n").map(line => JSON.parse(line).note).sort(), ["a", "b", "c"]);
+            }
+        } finally {
+            await server.close();
+        }
+    });
+
+    it("rejects unknown formats, and chunks without a start", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            const { output } = collect();
+            await assert.rejects(sdk.exportTransactions(output, { format: "xml" as TransactionExportFormat }), /Unsupported export format: xml/);
+            await assert.rejects(sdk.exportTransactions(output, { format: TransactionExportFormat.CSV, chunkMs: 1000 }), FireblocksError);
+        } finally {
+            await server.close();
+        }
+    });
+});
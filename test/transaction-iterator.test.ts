@@ -0,0 +1,86 @@
+import assert from "assert";
+import { URL } from "url";
+import { createSdk, RecordingServer, respondJson, startRecordingServer } from "./helpers";
+import { FireblocksSDK, PageDirection, TransactionResponse } from "../src/fireblocks-sdk";
+
+describe("transaction iterators", () => {
+    const pages = [["1", "2"], ["3", "4"], ["5"]];
+    let server: RecordingServer;
+    let sdk: FireblocksSDK;
+
+    before(async () => {
+        server = await startRecordingServer((req, res) => {
+            const url = new URL(req.url, "http://localhost");
+            const page = Number(url.searchParams.get("pageCursor") ?? 0);
+            const headers: { [name: string]: string } = {};
+            if (page + 1 < pages.length) {
+                headers["next-page"] = `${server.apiBaseUrl}/v1/transactions?pageCursor=${page + 1}`;
+            }
+            if (page > 0) {
+                headers["prev-page"] = `${server.apiBaseUrl}/v1/transactions?pageCursor=${page - 1}`;
+            }
+            respondJson(res, 200, pages[page].map(id => ({ id })), headers);
+        });
+        sdk = createSdk(server.apiBaseUrl);
+    });
+
+    beforeEach(() => server.requests.splice(0));
+
+    after(() => server.close());
+
+    async function collect(iterable: AsyncIterable<TransactionResponse>): Promise<string[]> {
+        const ids: string[] = [];
+        for await (const transaction of iterable) {
+            ids.push(transaction.id);
+        }
+        return ids;
+    }
+
+    it("follows the next-page cursor until the last page", async () => {
+        assert.deepStrictEqual(await collect(sdk.iterateTransactions({ limit: 2, assets: "BTC" })), ["1", "2", "3", "4", "5"]);
+        assert.deepStrictEqual(server.requests.map(req => req.url), [
+            "/v1/transactions?assets=BTC&limit=2",
+            "/v1/transactions?pageCursor=1",
+            "/v1/transactions?pageCursor=2"
+        ]);
+    });
+
+    it("yields the pages with their page details", async () => {
+        const seen: string[][] = [];
+        for await (const page of sdk.iterateTransactionPages({ limit: 2 })) {
+            seen.push(page.transactions.map(transaction => transaction.id));
+            assert.strictEqual(page.pageDetails.nextPage !== "", seen.length < pages.length);
+        }
+        assert.deepStrictEqual(seen, pages);
+    });
+
+    it("follows the prev-page cursor when asked to", async () => {
+        const ids: string[] = [];
+        for await (const page of sdk.iterateTransactionPages({}, { direction: PageDirection.PREV })) {
+            ids.push(...page.transactions.map(transaction => transaction.id));
+        }
+        assert.deepStrictEqual(ids, ["1", "2"]);
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    it("stops after maxItems without fetching further pages", async () => {
+        assert.deepStrictEqual(await collect(sdk.iterateTransactions({ limit: 2 }, { maxItems: 3 })), ["1", "2", "3"]);
+        assert.strictEqual(server.requests.length, 2);
+
+        server.requests.splice(0);
+        assert.deepStrictEqual(await collect(sdk.iterateTransactions({ limit: 2 }, { maxItems: 2 })), ["1", "2"]);
+        assert.strictEqual(server.requests.length, 1);
+    });
+
+    it("stops fetching pages when the loop breaks", async () => {
+        const ids: string[] = [];
+        for await (const transaction of sdk.iterateTransactions({ limit: 2 })) {
+            ids.push(transaction.id);
+            if (transaction.id === "3") {
+                break;
+            }
+        }
+        assert.deepStrictEqual(ids, ["1", "2", "3"]);
+        assert.strictEqual(server.requests.length, 2);
+    });
+});
@@ -0,0 +1,112 @@
+import assert from "assert";
+import { startMockServer } from "./helpers";
+import { waitForTransaction } from "../src/transaction-waiter";
+import {
+    AbortedError,
+    PeerType,
+    TransactionFailedError,
+    TransactionResponse,
+    TransactionStatus,
+    WaitTimeoutError
+} from "../src/fireblocks-sdk";
+
+/**
+ * Answers every poll with the next of the given statuses, repeating the last one
+ */
+function pollStatuses(...statuses: TransactionStatus[]) {
+    const polledAt: number[] = [];
+    const getTransaction = async (txId: string) => {
+        polledAt.push(Date.now());
+        const status = statuses[Math.min(polledAt.length, statuses.length) - 1];
+        return { id: txId, status, subStatus: status === TransactionStatus.FAILED ? "INSUFFICIENT_FUNDS" : "" } as TransactionResponse;
+    };
+    return { polledAt, getTransaction };
+}
+
+describe("waitForTransaction", () => {
+    it("polls immediately, then backs off by half up to maxPollIntervalMs", async () => {
+        const { polledAt, getTransaction } = pollStatuses(
+            TransactionStatus.SUBMITTED, TransactionStatus.PENDING_SIGNATURE, TransactionStatus.BROADCASTING,
+            TransactionStatus.CONFIRMING, TransactionStatus.CONFIRMING, TransactionStatus.COMPLETED);
+        const start = Date.now();
+
+        const transaction = await waitForTransaction(getTransaction, "1", { pollIntervalMs: 100, maxPollIntervalMs: 200 });
+
+        assert.strictEqual(transaction.status, TransactionStatus.COMPLETED);
+        assert.ok(polledAt[0] - start < 50, `the first poll started after ${polledAt[0] - start}ms`);
+        const gaps = polledAt.slice(1).map((at, i) => at - polledAt[i]);
+        [100, 150, 200, 200, 200].forEach((expected, i) => {
+            assert.ok(gaps[i] >= expected - 2 && gaps[i] < expected + 50, `poll ${i + 2} came ${gaps[i]}ms after the previous one, expected ${expected}ms`);
+        });
+    });
+
+    it("resolves at a target status and reports every status change", async () => {
+        const { polledAt, getTransaction } = pollStatuses(TransactionStatus.SUBMITTED, TransactionStatus.SUBMITTED, TransactionStatus.BROADCASTING);
+        const changes: string[] = [];
+
+        const transaction = await waitForTransaction(getTransaction, "1", {
+            pollIntervalMs: 1,
+            targetStatuses: [TransactionStatus.BROADCASTING],
+            onStatusChange: (tx, previous) => changes.push(`${previous} -> ${tx.status}`)
+        });
+
+        assert.strictEqual(transaction.status, TransactionStatus.BROADCASTING);
+        assert.strictEqual(polledAt.length, 3);
+        assert.deepStrictEqual(changes, ["undefined -> SUBMITTED", "SUBMITTED -> BROADCASTING"]);
+    });
+
+    it("resolves when the transaction completes before reaching a target status", async () => {
+        const { getTransaction } = pollStatuses(TransactionStatus.SUBMITTED, TransactionStatus.CONFIRMED);
+        const transaction = await waitForTransaction(getTransaction, "1", { pollIntervalMs: 1, targetStatuses: [TransactionStatus.BROADCASTING] });
+        assert.strictEqual(transaction.status, TransactionStatus.CONFIRMED);
+    });
+
+    for (const status of [TransactionStatus.FAILED, TransactionStatus.REJECTED, TransactionStatus.CANCELLED, TransactionStatus.BLOCKED, TransactionStatus.TIMEOUT]) {
+        it(`rejects when the transaction ends with status ${status}`, async () => {
+            const { getTransaction } = pollStatuses(TransactionStatus.SUBMITTED, status);
+            await assert.rejects(waitForTransaction(getTransaction, "1", { pollIntervalMs: 1 }), (err: TransactionFailedError) =>
+                err instanceof TransactionFailedError && err.status === status && err.transaction.id === "1");
+        });
+    }
+
+    it("includes the sub status of a failed transaction", async () => {
+        const { getTransaction } = pollStatuses(TransactionStatus.FAILED);
+        await assert.rejects(waitForTransaction(getTransaction, "1"), /ended with status FAILED \(INSUFFICIENT_FUNDS\)/);
+    });
+
+    it("times out, without sleeping past the deadline", async () => {
+        const { polledAt, getTransaction } = pollStatuses(TransactionStatus.SUBMITTED);
+        const start = Date.now();
+
+        await assert.rejects(waitForTransaction(getTransaction, "1", { pollIntervalMs: 1000, timeoutMs: 50 }), WaitTimeoutError);
+        assert.ok(Date.now() - start < 500, `timed out after ${Date.now() - start}ms`);
+        assert.strictEqual(polledAt.length, 2);
+    });
+
+    it("stops waiting between polls when aborted", async () => {
+        const { polledAt, getTransaction } = pollStatuses(TransactionStatus.SUBMITTED);
+        const controller = new AbortController();
+        setTimeout(() => controller.abort(), 20);
+
+        await assert.rejects(waitForTransaction(getTransaction, "1", { pollIntervalMs: 1000, signal: controller.signal }), AbortedError);
+        assert.strictEqual(polledAt.length, 1);
+    });
+
+    it("aborts a poll that is in flight", async () => {
+        const { server, sdk } = await startMockServer();
+        try {
+            server.addVaultAccount("Treasury", { BTC: 10 });
+            const { id } = await sdk.createTransaction({ assetId: "BTC", amount: 1, source: { type: PeerType.VAULT_ACCOUNT, id: "0" } });
+            server.injectFault({ method: "GET", path: "/v1/transactions/", latencyMs: 2000 });
+            const controller = new AbortController();
+            setTimeout(() => controller.abort(), 50);
+            const start = Date.now();
+
+            await assert.rejects(sdk.waitForTransaction(id, { signal: controller.signal }), (err: AbortedError) =>
+                err instanceof AbortedError && err.message === `Waiting for transaction ${id} was aborted`);
+            assert.ok(Date.now() - start < 1000, `aborted after ${Date.now() - start}ms`);
+        } finally {
+            await server.close();
+        }
+    });
+});
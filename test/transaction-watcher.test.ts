@@ -0,0 +1,131 @@
+import assert from "assert";
+import { FakeTransactionSource, ObservedCheckpointStore, startMockServer } from "./helpers";
+import { PeerType, TransactionStatus, TransactionWatchEvent, TransactionWatcher } from "../src/fireblocks-sdk";
+
+describe("TransactionWatcher", () => {
+    let source: FakeTransactionSource;
+    let checkpointStore: ObservedCheckpointStore;
+    let watcher: TransactionWatcher;
+
+    beforeEach(() => {
+        source = new FakeTransactionSource();
+        checkpointStore = new ObservedCheckpointStore();
+    });
+
+    afterEach(async () => {
+        await watcher?.stop();
+    });
+
+    function describeEvent({ type, transaction, previousStatus }: TransactionWatchEvent): string {
+        return `${type} ${transaction.id} ${previousStatus ?? "-"} ${transaction.status}`;
+    }
+
+    it("emits an event for every new version of a transaction", async () => {
+        const events: string[] = [];
+        watcher = new TransactionWatcher(source.asSdk(), {}, { pollIntervalMs: 1, startAt: 0, checkpointStore });
+        watcher.on("event", event => events.push(describeEvent(event)));
+        source.update("tx-1", { status: TransactionStatus.SUBMITTED });
+        watcher.start();
+        await checkpointStore.nextPoll();
+
+        source.update("tx-1", { status: TransactionStatus.CONFIRMING });
+        await checkpointStore.nextPoll();
+        source.update("tx-1", { numOfConfirmations: 2 });
+        await checkpointStore.nextPoll();
+
+        assert.deepStrictEqual(events, [
+            "created tx-1 - SUBMITTED",
+            "statusChanged tx-1 SUBMITTED CONFIRMING",
+            "updated tx-1 CONFIRMING CONFIRMING"
+        ]);
+    });
+
+    it("delivers an event again when its handler fails", async () => {
+        const handled: string[] = [];
+        const errors: string[] = [];
+        let failures = 1;
+        watcher = new TransactionWatcher(source.asSdk(), {}, {
+            pollIntervalMs: 1,
+            startAt: 0,
+            checkpointStore,
+            onEvent: async event => {
+                if (failures-- > 0) {
+                    throw new Error("handler failed");
+                }
+                handled.push(describeEvent(event));
+            }
+        });
+        watcher.on("error", e => errors.push(e.message));
+        source.update("tx-1", { status: TransactionStatus.SUBMITTED });
+        watcher.start();
+        await checkpointStore.nextPoll();
+        await checkpointStore.nextPoll();
+
+        assert.deepStrictEqual(errors, ["handler failed"]);
+        assert.deepStrictEqual(handled, ["created tx-1 - SUBMITTED"]);
+    });
+
+    it("resumes from its checkpoint after a restart", async () => {
+        const events: string[] = [];
+        const watch = () => {
+            watcher = new TransactionWatcher(source.asSdk(), {}, { pollIntervalMs: 1, startAt: 0, checkpointStore });
+            watcher.on("event", event => events.push(describeEvent(event)));
+            return watcher.start();
+        };
+        source.update("tx-1", { status: TransactionStatus.SUBMITTED });
+        watch();
+        await checkpointStore.nextPoll();
+        await watcher.stop();
+
+        source.update("tx-1", { status: TransactionStatus.COMPLETED });
+        source.update("tx-2", { status: TransactionStatus.SUBMITTED });
+        watch();
+        await checkpointStore.nextPoll();
+
+        assert.deepStrictEqual(events, [
+            "created tx-1 - SUBMITTED",
+            "statusChanged tx-1 SUBMITTED COMPLETED",
+            "created tx-2 - SUBMITTED"
+        ]);
+    });
+
+    it("can be iterated with for await", async () => {
+        watcher = new TransactionWatcher(source.asSdk(), {}, { pollIntervalMs: 1, startAt: 0, checkpointStore });
+        source.update("tx-1", { status: TransactionStatus.SUBMITTED });
+        source.update("tx-2", { status: TransactionStatus.SUBMITTED });
+        watcher.start();
+
+        const ids: string[] = [];
+        for await (const event of watcher) {
+            ids.push(event.transaction.id);
+            if (ids.length === 2) {
+                break;
+            }
+        }
+        assert.deepStrictEqual(ids, ["tx-1", "tx-2"]);
+    });
+
+    it("follows the transactions of the mock server until they complete", async () => {
+        const { server, sdk } = await startMockServer({ statusIntervalMs: 20 });
+        try {
+            server.addVaultAccount("Treasury", { BTC: 1 });
+            const { id } = await sdk.createTransaction({ assetId: "BTC", destination: { type: PeerType.ONE_TIME_ADDRESS, oneTimeAddress: { address: "bc1q" } }, amount: 0.5 });
+            watcher = sdk.watchTransactions({ assets: "BTC" }, { pollIntervalMs: 5, startAt: 0 });
+
+            const events: TransactionWatchEvent[] = [];
+            for await (const event of watcher) {
+                events.push(event);
+                if (event.transaction.status === TransactionStatus.COMPLETED) {
+                    break;
+                }
+            }
+
+            assert.ok(events.every(event => event.transaction.id === id));
+            assert.strictEqual(events[0].type, "created");
+            assert.ok(events.slice(1).every(event => event.type === "statusChanged" && event.previousStatus !== event.transaction.status));
+        } finally {
+            await watcher.stop();
+            await server.close();
+        }
+    });
+});
@@ -0,0 +1,76 @@
+import assert from "assert";
+import { FireblocksEnvironment, TransactionResponse, WebhookEventType, WebhookHandler, WebhookTestSigner, WebhookVerificationError } from "../src/fireblocks-sdk";
+
+const signer = new WebhookTestSigner();
+
+function transactionCreated(id: string) {
+    return signer.signEvent({ type: WebhookEventType.TRANSACTION_CREATED, data: { id, amount: 0.1 } as any });
+}
+
+describe("WebhookHandler", () => {
+    it("parses events with a valid signature", async () => {
+        const { body, headers } = transactionCreated("tx-1");
+        const event = await signer.createHandler().parse(body, headers["fireblocks-signature"]);
+        assert.strictEqual(event.type, WebhookEventType.TRANSACTION_CREATED);
+        assert.strictEqual((event.data as TransactionResponse).id, "tx-1");
+    });
+
+    it("rejects a tampered body or a missing signature", async () => {
+        const handler = signer.createHandler();
+        const { body, headers } = transactionCreated("tx-1");
+        await assert.rejects(handler.parse(body.replace("tx-1", "tx-2"), headers["fireblocks-signature"]), /Invalid webhook signature/);
+        await assert.rejects(handler.parse(body, undefined), WebhookVerificationError);
+    });
+
+    it("rejects stale events", async () => {
+        const { body, headers } = signer.signEvent({ type: WebhookEventType.TRANSACTION_CREATED, data: { id: "tx-1" } as any, timestamp: Date.now() - 60000 });
+        await assert.rejects(signer.createHandler({ maxEventAgeMs: 30000 }).parse(body, headers["fireblocks-signature"]), /Stale/);
+    });
+
+    it("rejects events without a timestamp", async () => {
+        const body = JSON.stringify({ type: WebhookEventType.TRANSACTION_CREATED, data: { id: "tx-1" } });
+        await assert.rejects(signer.createHandler().parse(body, signer.sign(body)), /has no timestamp/);
+
+        const withTextTimestamp = JSON.stringify({ type: WebhookEventType.TRANSACTION_CREATED, timestamp: String(Date.now()), data: { id: "tx-1" } });
+        await assert.rejects(signer.createHandler().parse(withTextTimestamp, signer.sign(withTextTimestamp)), /has no timestamp/);
+    });
+
+    it("rejects replayed events until they are released", async () => {
+        const handler = signer.createHandler();
+        const { body, headers } = transactionCreated("tx-1");
+        const signature = headers["fireblocks-signature"];
+
+        await handler.parse(body, signature);
+        await assert.rejects(handler.parse(body, signature), /Replayed/);
+
+        await handler.release(signature);
+        await handler.parse(body, signature);
+    });
+
+    it("rejects a replay after the event turned stale", async () => {
+        const handler = signer.createHandler({ maxEventAgeMs: 30 });
+        const { body, headers } = transactionCreated("tx-1");
+
+        await handler.parse(body, headers["fireblocks-signature"]);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        await assert.rejects(handler.parse(body, headers["fireblocks-signature"]), /Stale/);
+    });
+
+    it("rejects bodies that are not Fireblocks events", async () => {
+        for (const body of ["not json", JSON.stringify({ timestamp: Date.now() }), JSON.stringify({ type: "TRANSACTION_CREATED", timestamp: Date.now() })]) {
+            await assert.rejects(signer.createHandler().parse(body, signer.sign(body)), WebhookVerificationError);
+        }
+    });
+
+    it("verifies with the key of the environment unless given one", () => {
+        const { body, headers } = transactionCreated("tx-1");
+        assert.strictEqual(new WebhookHandler().verifySignature(body, headers["fireblocks-signature"]), false);
+        assert.throws(() => new WebhookHandler({ environment: FireblocksEnvironment.SANDBOX }), /No webhook public key/);
+    });
+
+    it("keeps decimal amounts exact when asked to", async () => {
+        const body = JSON.stringify({ type: WebhookEventType.TRANSACTION_CREATED, timestamp: Date.now() }).replace("}", ',"data":{"id":"tx-1","amount":1.234567890123456789}}');
+        const event = await signer.createHandler({ decimalAmounts: true }).parse(body, signer.sign(body));
+        assert.strictEqual((event.data as TransactionResponse).amount, "1.234567890123456789");
+    });
+});
@@ -0,0 +1,178 @@
+import assert from "assert";
+import http, { IncomingMessage } from "http";
+import { AddressInfo } from "net";
+import { Readable } from "stream";
+import {
+    createExpressWebhookMiddleware,
+    createKoaWebhookMiddleware,
+    createNodeWebhookListener,
+    dispatchWebhook,
+    KoaLikeContext,
+    WebhookEventType,
+    WebhookMiddlewareOptions,
+    WebhookTestSigner
+} from "../src/fireblocks-sdk";
+
+const signer = new WebhookTestSigner();
+
+function transactionCreated(id: string) {
+    return signer.signEvent({ type: WebhookEventType.TRANSACTION_CREATED, data: { id, amount: 0.1 } as any });
+}
+
+/**
+ * Creates an incoming request streaming the given body, or a request whose body never arrives
+ */
+function createRequest(headers: { [name: string]: string }, body?: string): IncomingMessage {
+    const stream = body !== undefined ? Readable.from([Buffer.from(body)]) : new Readable({ read: () => undefined });
+    return Object.assign(stream, { method: "POST", headers }) as unknown as IncomingMessage;
+}
+
+function createOptions(received: string[], errors: any[] = []): WebhookMiddlewareOptions {
+    return {
+        handler: signer.createHandler(),
+        on: { [WebhookEventType.TRANSACTION_CREATED]: event => { received.push(event.data.id); } },
+        onError: err => errors.push(err)
+    };
+}
+
+describe("dispatchWebhook", () => {
+    it("accepts the redelivery of an event whose callback failed", async () => {
+        const handler = signer.createHandler();
+        const { body, headers } = transactionCreated("tx-1");
+        const received: string[] = [];
+        let failures = 1;
+        const options = {
+            handler,
+            on: {
+                [WebhookEventType.TRANSACTION_CREATED]: async (event: { data: { id: string } }) => {
+                    if (failures-- > 0) {
+                        throw new Error("database unavailable");
+                    }
+                    received.push(event.data.id);
+                }
+            }
+        };
+
+        assert.strictEqual((await dispatchWebhook(options, body, headers["fireblocks-signature"])).status, 500);
+        assert.strictEqual((await dispatchWebhook(options, body, headers["fireblocks-signature"])).status, 200);
+        assert.strictEqual((await dispatchWebhook(options, body, headers["fireblocks-signature"])).status, 401);
+        assert.deepStrictEqual(received, ["tx-1"]);
+    });
+});
+
+describe("createNodeWebhookListener", () => {
+    let server: http.Server;
+    let url: string;
+    const received: string[] = [];
+
+    before(async () => {
+        const listener = createNodeWebhookListener({
+            handler: signer.createHandler(),
+            on: { [WebhookEventType.TRANSACTION_CREATED]: event => { received.push(event.data.id); } }
+        });
+        server = http.createServer(listener);
+        await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(done => server.close(done));
+
+    function post(body: string, headers: { [name: string]: string }): Promise<number> {
+        return new Promise((resolve, reject) => {
+            const req = http.request(url, { method: "POST", headers }, res => {
+                res.resume();
+                resolve(res.statusCode);
+            });
+            req.on("error", reject);
+            req.end(body);
+        });
+    }
+
+    it("answers 200 for a verified event and 401 otherwise", async () => {
+        const { body, headers } = transactionCreated("tx-1");
+        assert.strictEqual(await post(body, headers), 200);
+        assert.strictEqual(await post(body, { ...headers, "fireblocks-signature": signer.sign("another body") }), 401);
+        assert.deepStrictEqual(received, ["tx-1"]);
+    });
+
+    it("answers 405 to requests other than POST", async () => {
+        const status = await new Promise<number>((resolve, reject) => http.get(url, res => {
+            res.resume();
+            resolve(res.statusCode);
+        }).on("error", reject));
+        assert.strictEqual(status, 405);
+    });
+});
+
+describe("createExpressWebhookMiddleware", () => {
+    function createResponse() {
+        const response = { statusCode: 0, ended: false, status(code: number) { response.statusCode = code; return response; }, end() { response.ended = true; } };
+        return response;
+    }
+
+    it("verifies the raw body kept by a body parser, or read from the request", async () => {
+        const received: string[] = [];
+        const middleware = createExpressWebhookMiddleware(createOptions(received));
+        for (const id of ["tx-1", "tx-2", "tx-3"]) {
+            const { body, headers } = transactionCreated(id);
+            const req = id === "tx-1" ? Object.assign(createRequest(headers), { body: Buffer.from(body) })
+                : id === "tx-2" ? Object.assign(createRequest(headers), { body: JSON.parse(body), rawBody: body })
+                : createRequest(headers, body);
+            const res = createResponse();
+
+            await middleware(req, res);
+            assert.deepStrictEqual([res.statusCode, res.ended], [200, true]);
+        }
+        assert.deepStrictEqual(received, ["tx-1", "tx-2", "tx-3"]);
+    });
+
+    it("passes the error to next when a body parser consumed the body", async () => {
+        const { body, headers } = transactionCreated("tx-1");
+        const req = Object.assign(createRequest(headers), { body: JSON.parse(body), _body: true });
+        const res = createResponse();
+        const errors: any[] = [];
+
+        await createExpressWebhookMiddleware(createOptions([]))(req, res, err => errors.push(err));
+        assert.strictEqual(res.ended, false);
+        assert.match(errors[0].message, /already read/);
+    });
+});
+
+describe("createKoaWebhookMiddleware", () => {
+    function createContext(req: IncomingMessage, rawBody?: string): KoaLikeContext {
+        return { req, request: { rawBody }, status: 404, body: undefined };
+    }
+
+    it("answers 200 for a verified event and 401 otherwise", async () => {
+        const received: string[] = [];
+        const middleware = createKoaWebhookMiddleware(createOptions(received));
+        const { body, headers } = transactionCreated("tx-1");
+
+        const streamed = createContext(createRequest(headers, body));
+        await middleware(streamed);
+        const kept = createContext(createRequest(headers), transactionCreated("tx-2").body);
+        await middleware(kept);
+
+        assert.deepStrictEqual([streamed.status, kept.status], [200, 401]);
+        assert.deepStrictEqual(received, ["tx-1"]);
+    });
+
+    it("answers 500 when a body parser consumed the body and 400 when reading it fails", async () => {
+        const errors: any[] = [];
+        const middleware = createKoaWebhookMiddleware(createOptions([], errors));
+        const { headers } = transactionCreated("tx-1");
+
+        const consumed = createContext(Object.assign(createRequest(headers), { _body: true }));
+        await middleware(consumed);
+
+        const failing = createRequest(headers);
+        const broken = createContext(failing);
+        const handled = middleware(broken);
+        failing.emit("error", new Error("socket hang up"));
+        await handled;
+
+        assert.deepStrictEqual([consumed.status, broken.status], [500, 400]);
+        assert.match(errors[0].message, /already read/);
+        assert.match(errors[1].message, /socket hang up/);
+    });
+});